@@ -1,7 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { AnimatePresence } from 'framer-motion';
 import { useLocalStorage } from './hooks/useLocalStorage';
-import { UserSettings, Ingredient, ShoppingListItem, Recipe, User, ChatMessage, CommunityPost, RecipeFilters, CommunityComment } from './types';
+import { usePantrySync } from './hooks/usePantrySync';
+import { useChatSync } from './hooks/useChatSync';
+import { useCustomIngredients } from './hooks/useCustomIngredients';
+import { useMealPlanSync } from './hooks/useMealPlanSync';
+import { UserSettings, Ingredient, ShoppingListItem, Recipe, User, ChatMessage, CommunityPost, RecipeFilters, CommunityComment, CookingHistoryEntry, ChefToolCall, ChatConversation, Quantity, MealPlan } from './types';
 import IngredientManager from './components/IngredientManager';
 import RecipeRecommendations from './components/RecipeRecommendations';
 import AIChef from './components/AIChef';
@@ -15,8 +19,16 @@ import Auth from './components/Auth';
 import LandingPage from './components/LandingPage';
 import BottomNavigation from './components/BottomNavigation';
 import Profile from './components/Profile';
+import MealPlanner from './components/MealPlanner';
 import PageTransition from './components/PageTransition';
 import { supabase } from './services/supabaseClient';
+import { applyPantryDeductions, createPantryIngredient, migrateIngredients, PantryDeduction } from './utils/pantry';
+import { addItemsToPantry, addItemsToShoppingList, createRecipeFromToolCall, findPriorityIngredients, removeItemsFromPantry } from './utils/chefTools';
+import { UNSPECIFIED_QUANTITY } from './utils/quantity';
+import { createConversation, createConversationId, findLatestConversation, migrateChatConversations, needsGeneratedTitle } from './utils/chatConversations';
+import { getMessageText } from './utils/chat';
+import { DEFAULT_NUTRITION_GOALS, getRecipeNutritionForDiary } from './utils/foodDiary';
+import { EMPTY_MEAL_PLAN, migrateMealPlan } from './utils/mealPlan';
 
 const defaultSettings: UserSettings = {
   cookingLevel: 'Beginner',
@@ -26,14 +38,20 @@ const defaultSettings: UserSettings = {
   availableTools: [],
   spicinessPreference: 3,
   maxCookTime: 30,
+  unitSystem: 'metric',
+  nutritionGoals: DEFAULT_NUTRITION_GOALS,
+  useRemainingCalories: false,
   nickname: '',
   profileImage: '',
 };
 
-type Tab = 'cook' | 'chat' | 'community' | 'profile';
+type Tab = 'cook' | 'plan' | 'chat' | 'community' | 'profile';
 type View = 'tab' | 'onboarding' | 'recommendations' | 'chat' | 'shoppingList' | 'savedRecipes' | 'auth';
 
 // Main App Content Component
+// Shared so a conversation that hasn't been saved yet doesn't get a new message list on every render.
+const NO_CHAT_MESSAGES: ChatMessage[] = [];
+
 const AppContent: React.FC = () => {
   const [users, setUsers] = useLocalStorage<User[]>('ohmycook-users', []); // Keep mainly for non-auth legacy or fallback? Actually we migrate off this.
   const [currentUser, setCurrentUser] = useState<User | null>(null);
@@ -42,9 +60,14 @@ const AppContent: React.FC = () => {
 
   // Use local storage for ingredients/shopping list (device specific is fine for now, or migrate later)
   const userStorageSuffix = currentUser?.email ?? 'guest';
-  const [ingredients, setIngredients] = useLocalStorage<Ingredient[]>(`ohmycook-ingredients-${userStorageSuffix}`, []);
+  const { addCustomIngredient } = useCustomIngredients(currentUser?.id, userStorageSuffix);
+  const [ingredients, setIngredients] = useLocalStorage<Ingredient[]>(`ohmycook-ingredients-${userStorageSuffix}`, [], migrateIngredients);
+  usePantrySync(currentUser?.id, ingredients, setIngredients);
   const [shoppingList, setShoppingList] = useLocalStorage<ShoppingListItem[]>(`ohmycook-shoppinglist-${userStorageSuffix}`, []);
   const [savedRecipes, setSavedRecipes] = useLocalStorage<Recipe[]>(`ohmycook-savedrecipes-${userStorageSuffix}`, []);
+  const [cookingHistory, setCookingHistory] = useLocalStorage<CookingHistoryEntry[]>(`ohmycook-cookinghistory-${userStorageSuffix}`, []);
+  const [mealPlan, setMealPlan] = useLocalStorage<MealPlan>(`ohmycook-mealplan-${userStorageSuffix}`, EMPTY_MEAL_PLAN, migrateMealPlan);
+  useMealPlanSync(currentUser?.id, mealPlan, setMealPlan);
 
   const [communityPosts, setCommunityPosts] = useState<CommunityPost[]>([]);
 
@@ -68,8 +91,11 @@ const AppContent: React.FC = () => {
   const [previousView, setPreviousView] = useState<View>('tab');
   const [navigationDirection, setNavigationDirection] = useState<'left' | 'right' | 'fade'>('left');
   const [chatContext, setChatContext] = useState<Recipe | null>(null);
-  const [chatHistories, setChatHistories] = useLocalStorage<Record<string, ChatMessage[]>>(`ohmycook-chatHistories-${userStorageSuffix}`, {});
-  const [currentChatKey, setCurrentChatKey] = useState<string>('__general__');
+  const [chatConversations, setChatConversations] = useLocalStorage<ChatConversation[]>(`ohmycook-chatHistories-${userStorageSuffix}`, [], migrateChatConversations);
+  const [currentConversationId, setCurrentConversationId] = useState<string>(() => createConversationId()); // Shown in the recipe chat view
+  const [generalConversationId, setGeneralConversationId] = useState<string | null>(null); // Shown in the chat tab; null for the latest one
+  const newGeneralConversationIdRef = useRef(createConversationId());
+  const titleRequestedIdsRef = useRef<Set<string>>(new Set());
   const [chatOpenedFromRecipe, setChatOpenedFromRecipe] = useState<Recipe | null>(null);
   const [openedRecipeModal, setOpenedRecipeModal] = useState<Recipe | null>(null);
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
@@ -98,6 +124,9 @@ const AppContent: React.FC = () => {
           availableTools: data.available_tools || [],
           spicinessPreference: data.spiciness_preference || 3,
           maxCookTime: data.max_cook_time || 30,
+          unitSystem: data.unit_system || 'metric',
+          nutritionGoals: data.nutrition_goals || DEFAULT_NUTRITION_GOALS,
+          useRemainingCalories: data.use_remaining_calories || false,
           nickname: data.nickname || '',
           profileImage: data.profile_image || '',
         });
@@ -287,26 +316,99 @@ const AppContent: React.FC = () => {
     setCurrentView('tab');
   };
 
+  // The chat tab continues the latest general conversation until the user picks or starts another
+  const activeGeneralConversationId = generalConversationId
+    ?? findLatestConversation(chatConversations)?.id
+    ?? newGeneralConversationIdRef.current;
+
+  useEffect(() => {
+    setGeneralConversationId(null);
+  }, [userStorageSuffix]);
+
+  useChatSync(currentUser?.id, chatConversations, setChatConversations, [activeGeneralConversationId, currentConversationId]);
+
   const handleStartChat = (recipe: Recipe) => {
-    const recipeKey = recipe.recipeName;
     setChatContext(recipe);
-    setCurrentChatKey(recipeKey);
+    setCurrentConversationId(findLatestConversation(chatConversations, recipe.recipeName)?.id ?? createConversationId());
     setChatOpenedFromRecipe(recipe);
     setOpenedRecipeModal(recipe);
     handleNavigate('chat');
   };
 
-  const handleChatMessagesUpdate = (recipeKey: string, messages: ChatMessage[]) => {
-    setChatHistories(prev => ({
-      ...prev,
-      [recipeKey]: messages
-    }));
+  // Names a conversation once the AI Chef has answered its first question
+  const requestConversationTitle = async (conversation: ChatConversation) => {
+    if (titleRequestedIdsRef.current.has(conversation.id)) return;
+    titleRequestedIdsRef.current.add(conversation.id);
+    try {
+      const { generateChatTitle } = await import('./services/geminiService');
+      const firstExchange = conversation.messages.slice(0, 4).map(message => ({
+        role: message.role,
+        parts: [{ text: getMessageText(message) }],
+      }));
+      const title = await generateChatTitle(firstExchange, language);
+      if (!title) return;
+      setChatConversations(prev => prev.map(c => c.id === conversation.id && !c.title ? { ...c, title } : c));
+    } catch (error) {
+      console.error('Could not generate a chat title:', error);
+      titleRequestedIdsRef.current.delete(conversation.id);
+    }
+  };
+
+  // A new conversation is only saved once the user has asked something in it
+  const handleChatMessagesUpdate = (conversationId: string, messages: ChatMessage[], recipe: Recipe | null) => {
+    const existing = chatConversations.find(c => c.id === conversationId);
+    // Until its messages arrive from the server, there is nothing to save
+    if (existing?.messages === messages || existing?.messagesLoaded === false) return;
+    if (!existing && !messages.some(message => message.role === 'user')) return;
+
+    const conversation = existing
+      ? { ...existing, messages, updatedAt: new Date().toISOString() }
+      : createConversation(conversationId, messages, recipe);
+    setChatConversations(prev => prev.some(c => c.id === conversationId)
+      ? prev.map(c => c.id === conversationId ? { ...c, messages, updatedAt: conversation.updatedAt } : c)
+      : [conversation, ...prev]);
+    if (needsGeneratedTitle(conversation)) requestConversationTitle(conversation);
+  };
+
+  const handleSelectConversation = (conversationId: string) => {
+    const conversation = chatConversations.find(c => c.id === conversationId);
+    if (!conversation) return;
+    const recipe = conversation.recipe
+      ?? (conversation.recipeName ? cachedRecipes.find(r => r.recipeName === conversation.recipeName) || savedRecipes.find(r => r.recipeName === conversation.recipeName) : undefined);
+
+    if (currentView !== 'chat' && !conversation.recipeName) {
+      setGeneralConversationId(conversationId);
+      return;
+    }
+    setChatContext(recipe ?? null);
+    setCurrentConversationId(conversationId);
+    setChatOpenedFromRecipe(null);
+    if (currentView !== 'chat') handleNavigate('chat');
+  };
+
+  const handleNewConversation = () => {
+    if (currentView === 'chat') {
+      setCurrentConversationId(createConversationId());
+    } else {
+      setGeneralConversationId(createConversationId());
+    }
+  };
+
+  const handleRenameConversation = (conversationId: string, title: string) => {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) return;
+    setChatConversations(prev => prev.map(c => c.id === conversationId ? { ...c, title: trimmedTitle, updatedAt: new Date().toISOString() } : c));
+  };
+
+  const handleDeleteConversation = (conversationId: string) => {
+    setChatConversations(prev => prev.filter(c => c.id !== conversationId));
+    if (conversationId === generalConversationId) setGeneralConversationId(null);
+    if (conversationId === currentConversationId) setCurrentConversationId(createConversationId());
   };
 
   const handleChatBack = () => {
     setNavigationDirection('right');
     setCurrentView(previousView);
-    setCurrentChatKey('__general__');
     setChatOpenedFromRecipe(null);
   };
 
@@ -331,6 +433,9 @@ const AppContent: React.FC = () => {
         available_tools: newSettings.availableTools,
         spiciness_preference: newSettings.spicinessPreference,
         max_cook_time: newSettings.maxCookTime,
+        unit_system: newSettings.unitSystem,
+        nutrition_goals: newSettings.nutritionGoals,
+        use_remaining_calories: newSettings.useRemainingCalories,
         profile_image: newSettings.profileImage,
         has_completed_onboarding: true,
       });
@@ -348,10 +453,9 @@ const AppContent: React.FC = () => {
       const currentIngredientNames = new Set(ingredients.map(i => i.name));
       const newIngredientsToAdd = initialIngredients
         .filter(name => !currentIngredientNames.has(name))
-        .map(name => ({ name, quantity: t('basicUnit') }));
+        .map(name => createPantryIngredient(name, UNSPECIFIED_QUANTITY));
 
       setIngredients(prev => [...prev, ...newIngredientsToAdd]);
-      // TODO: Sync ingredients to Supabase table 'user_ingredients' (Later phase)
     }
 
     // Navigate only when requested (e.g., onboarding). Stay on the current tab for profile edits.
@@ -361,17 +465,35 @@ const AppContent: React.FC = () => {
     }
   };
 
-  const handleToggleShoppingListItem = (itemName: string) => {
+  const handleToggleShoppingListItem = (itemName: string, quantity?: Quantity) => {
     setShoppingList(prev => {
       const exists = prev.some(item => item.name === itemName);
       if (exists) {
         return prev.filter(item => item.name !== itemName);
       } else {
-        return [...prev, { name: itemName }];
+        return [...prev, quantity ? { name: itemName, quantity } : { name: itemName }];
       }
     });
   };
 
+  const handleRecipeCooked = (recipe: Recipe, deductions: PantryDeduction[], servingsEaten: number = 1) => {
+    setIngredients(prev => applyPantryDeductions(prev, deductions));
+    setCookingHistory(prev => [{
+      id: `${Date.now()}`,
+      recipeName: recipe.recipeName,
+      cookedAt: new Date().toISOString(),
+      servings: recipe.servings,
+      calories: recipe.calories,
+      nutrition: getRecipeNutritionForDiary(recipe),
+      servingsEaten,
+      usedIngredients: deductions.map(d => ({ name: d.ingredientName, quantity: d.used })),
+    }, ...prev]);
+  };
+
+  const handleUpdateServingsEaten = (entryId: string, servingsEaten: number) => {
+    setCookingHistory(prev => prev.map(entry => entry.id === entryId ? { ...entry, servingsEaten } : entry));
+  };
+
   const handleToggleSaveRecipe = (recipeToToggle: Recipe) => {
     const normalizedRecipe: Recipe = recipeToToggle.isDetailsLoaded === false ? { ...recipeToToggle, isDetailsLoaded: true } : recipeToToggle;
     setSavedRecipes(prev => {
@@ -384,6 +506,30 @@ const AppContent: React.FC = () => {
     });
   };
 
+  // Runs an action the AI Chef proposed, once the user has confirmed it in the chat
+  const handleChefToolCall = (call: ChefToolCall, recipeContext: Recipe | null) => {
+    switch (call.name) {
+      case 'addToShoppingList':
+        setShoppingList(prev => addItemsToShoppingList(prev, call.args.items ?? []));
+        break;
+      case 'addPantryIngredient':
+        setIngredients(prev => addItemsToPantry(prev, call.args.items ?? []));
+        break;
+      case 'removePantryIngredient':
+        setIngredients(prev => removeItemsFromPantry(prev, call.args.names ?? []));
+        break;
+      case 'saveRecipe': {
+        const recipe = createRecipeFromToolCall(call.args, recipeContext);
+        if (!savedRecipes.some(r => r.recipeName === recipe.recipeName)) handleToggleSaveRecipe(recipe);
+        break;
+      }
+      case 'suggestRecipes':
+        setCachedPriorityIngredients(findPriorityIngredients(ingredients, call.args.priorityIngredients));
+        handleNavigate('recommendations');
+        break;
+    }
+  };
+
   const handleLogin = (user: User) => {
     // Auth component handles Supabase login, which triggers onAuthStateChange.
     // So here we mostly just handle View transitions if needed, but onAuthStateChange does it better.
@@ -539,11 +685,30 @@ const AppContent: React.FC = () => {
           <IngredientManager
             ingredients={ingredients}
             setIngredients={setIngredients}
+            onAddCustomIngredient={addCustomIngredient}
             onLogoClick={() => { setCurrentView('tab'); setCurrentTab('cook'); }}
             // onBack removed as it is main tab
             onGenerateRecipe={() => handleNavigate('recommendations')}
           />
         );
+      case 'plan':
+        return (
+          <MealPlanner
+            mealPlan={mealPlan}
+            onMealPlanChange={setMealPlan}
+            savedRecipes={savedRecipes}
+            recommendedRecipes={cachedRecipes}
+            ingredients={ingredients}
+            settings={settings}
+            cookingHistory={cookingHistory}
+            shoppingList={shoppingList}
+            onToggleShoppingListItem={handleToggleShoppingListItem}
+            onToggleSaveRecipe={handleToggleSaveRecipe}
+            onStartChat={handleStartChat}
+            onRecipeCooked={handleRecipeCooked}
+            onLogoClick={() => { setCurrentView('tab'); setCurrentTab('cook'); }}
+          />
+        );
       case 'chat':
         return (
           <AIChef
@@ -551,23 +716,19 @@ const AppContent: React.FC = () => {
             onBack={() => { }} // Tab view, no back action
             showBack={false}
             recipeContext={null} // General chat
-            initialMessages={chatHistories['__general__'] || []}
-            onMessagesUpdate={(messages) => handleChatMessagesUpdate('__general__', messages)}
-            allChatHistories={chatHistories}
-            onLoadHistory={(key) => {
-              const isRecipe = key !== '__general__';
-              if (isRecipe) {
-                const recipe = cachedRecipes.find(r => r.recipeName === key) || savedRecipes.find(r => r.recipeName === key);
-                if (recipe) {
-                  setChatContext(recipe);
-                  setCurrentChatKey(key);
-                  handleNavigate('chat');
-                }
-              } else {
-                setChatContext(null);
-                setCurrentChatKey('__general__');
-              }
-            }}
+            conversationId={activeGeneralConversationId}
+            initialMessages={chatConversations.find(c => c.id === activeGeneralConversationId)?.messages ?? NO_CHAT_MESSAGES}
+            isLoadingMessages={chatConversations.find(c => c.id === activeGeneralConversationId)?.messagesLoaded === false}
+            onMessagesUpdate={(messages) => handleChatMessagesUpdate(activeGeneralConversationId, messages, null)}
+            conversations={chatConversations}
+            onSelectConversation={handleSelectConversation}
+            onNewConversation={handleNewConversation}
+            onRenameConversation={handleRenameConversation}
+            onDeleteConversation={handleDeleteConversation}
+            shoppingList={shoppingList}
+            onToggleShoppingListItem={handleToggleShoppingListItem}
+            pantry={ingredients}
+            onChefToolCall={handleChefToolCall}
           />
         );
       case 'community':
@@ -582,6 +743,7 @@ const AppContent: React.FC = () => {
             onToggleLike={handleToggleCommunityLike}
             onAddComment={handleAddCommunityComment}
             onDeletePost={handleDeleteCommunityPost}
+            unitSystem={settings.unitSystem}
           />
         );
       case 'profile':
@@ -593,6 +755,8 @@ const AppContent: React.FC = () => {
             onNavigate={handleNavigate}
             onUpdateSettings={handleSaveSettings}
             onLogoClick={() => { setCurrentView('tab'); setCurrentTab('cook'); }}
+            cookingHistory={cookingHistory}
+            onUpdateServingsEaten={handleUpdateServingsEaten}
           />
         );
       default:
@@ -651,6 +815,9 @@ const AppContent: React.FC = () => {
                     onPriorityIngredientsChange={setCachedPriorityIngredients}
                     onRecipeDetailsLoaded={handleRecipeDetailsLoaded}
                     onLogoClick={() => { setCurrentView('tab'); setCurrentTab('cook'); }}
+                    cookingHistory={cookingHistory}
+                    onRecipeCooked={handleRecipeCooked}
+                    settings={settings}
                   />
                 </PageTransition>
               );
@@ -662,27 +829,21 @@ const AppContent: React.FC = () => {
                     settings={settings}
                     onBack={handleChatBack}
                     recipeContext={chatContext}
-                    initialMessages={chatHistories[currentChatKey] || []}
-                    onMessagesUpdate={(messages) => handleChatMessagesUpdate(currentChatKey, messages)}
+                    conversationId={currentConversationId}
+                    initialMessages={chatConversations.find(c => c.id === currentConversationId)?.messages ?? NO_CHAT_MESSAGES}
+                    isLoadingMessages={chatConversations.find(c => c.id === currentConversationId)?.messagesLoaded === false}
+                    onMessagesUpdate={(messages) => handleChatMessagesUpdate(currentConversationId, messages, chatContext)}
                     openedFromRecipe={chatOpenedFromRecipe}
                     onCloseRecipeContext={() => setChatOpenedFromRecipe(null)}
-                    allChatHistories={chatHistories}
-                    onLoadHistory={(key) => {
-                      const isRecipe = key !== '__general__';
-                      if (isRecipe) {
-                        // Find recipe in cached or saved recipes
-                        const recipe = cachedRecipes.find(r => r.recipeName === key) || savedRecipes.find(r => r.recipeName === key);
-                        if (recipe) {
-                          setChatContext(recipe);
-                          setCurrentChatKey(key);
-                          setChatOpenedFromRecipe(null);
-                        }
-                      } else {
-                        setChatContext(null);
-                        setCurrentChatKey(key);
-                        setChatOpenedFromRecipe(null);
-                      }
-                    }}
+                    conversations={chatConversations}
+                    onSelectConversation={handleSelectConversation}
+                    onNewConversation={handleNewConversation}
+                    onRenameConversation={handleRenameConversation}
+                    onDeleteConversation={handleDeleteConversation}
+                    shoppingList={shoppingList}
+                    onToggleShoppingListItem={handleToggleShoppingListItem}
+                    pantry={ingredients}
+                    onChefToolCall={handleChefToolCall}
                   />
                 </PageTransition>
               );
@@ -704,6 +865,10 @@ const AppContent: React.FC = () => {
                     onToggleShoppingListItem={handleToggleShoppingListItem}
                     onToggleSaveRecipe={handleToggleSaveRecipe}
                     onStartChat={handleStartChat}
+                    ingredients={ingredients}
+                    cookingHistory={cookingHistory}
+                    onRecipeCooked={handleRecipeCooked}
+                    unitSystem={settings.unitSystem}
                   />
                 </PageTransition>
               );
@@ -1,6 +1,11 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import type { UserSettings, Recipe, RecipeFilters, ChatMessage } from '../types';
+import { GoogleGenAI, Type, GenerateContentResponse, Content, Part } from "@google/genai";
+import type { UserSettings, Recipe, RecipeFilters, ChatMessage, ReceiptLineItem, FridgeDetection, InlineImage, RecipeProfile, FilteredRecipe, RecipeRecommendationsResult, RecipeStreamEvent, ChatStreamEvent, ChefToolCall, UnitSystem, MealPlanResult, MealSlot, PlannedMeal } from '../types';
+import { findAllergensInIngredients } from '../utils/allergens';
+import { createJsonArrayParser } from '../utils/jsonStream';
+import { describeInstructionsForPrompt, sanitizeInstructionSteps } from '../utils/recipeSteps';
+import { sanitizeNutrition } from '../utils/nutrition';
+import type { MealSlotRef } from '../utils/mealPlan';
 
 // This tells Vercel to run this as an edge function, which is fast and efficient.
 export const config = {
@@ -50,9 +55,37 @@ const recipeDetailSchema = {
         required: ['missing', 'substitute']
       }
     },
-    instructions: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Detailed step-by-step cooking instructions in the target language.' },
+    instructions: {
+      type: Type.ARRAY,
+      description: 'Detailed step-by-step cooking instructions, one object per step.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: 'The step, in the target language.' },
+          durationMinutes: { type: Type.NUMBER, description: 'Minutes the step takes when it involves waiting (simmering, baking, resting, marinating). Use the lower end of a range. Omit for quick hands-on steps.' },
+          heat: { type: Type.STRING, enum: ['low', 'medium-low', 'medium', 'medium-high', 'high'], description: 'Stovetop heat level, when the step uses the stove.' },
+          temperatureCelsius: { type: Type.NUMBER, description: 'Oven, air fryer or frying oil temperature in °C, when relevant.' },
+          ingredientIndices: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: '0-based indices into the ingredients list of the ingredients used in this step.' },
+          tools: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Tools used in this step (e.g. "Frying pan", "Oven"), in the target language.' },
+        },
+        required: ['text']
+      }
+    },
+    nutrition: {
+      type: Type.OBJECT,
+      description: 'Estimated nutrition for ONE serving of the recipe as written.',
+      properties: {
+        protein: { type: Type.NUMBER, description: 'Protein in grams.' },
+        carbs: { type: Type.NUMBER, description: 'Carbohydrates in grams.' },
+        fat: { type: Type.NUMBER, description: 'Fat in grams.' },
+        fiber: { type: Type.NUMBER, description: 'Dietary fiber in grams.' },
+        sodium: { type: Type.NUMBER, description: 'Sodium in milligrams.' },
+        sugar: { type: Type.NUMBER, description: 'Sugars in grams.' },
+      },
+      required: ['protein', 'carbs', 'fat', 'fiber', 'sodium', 'sugar']
+    },
   },
-  required: ['ingredients', 'instructions']
+  required: ['ingredients', 'instructions', 'nutrition']
 };
 
 
@@ -84,9 +117,84 @@ async function searchGoogleImage(query: string): Promise<string | null> {
   }
 }
 
-async function handleGetRecipeRecommendations(ai: GoogleGenAI, payload: { ingredients: string[], priorityIngredients: string[], filters: RecipeFilters, language: 'en' | 'ko' }): Promise<Recipe[]> {
-  const { ingredients, priorityIngredients, filters, language } = payload;
-  const model = 'gemini-2.5-flash';
+// Describes the user's profile for the recipe prompts. Allergies are a hard rule, the rest are preferences.
+function describeRecipeProfile(profile?: RecipeProfile): string {
+  if (!profile) return '';
+  return `
+      USER PROFILE:
+      - Cooking Level: ${profile.cookingLevel}
+      - Available Tools: ${profile.availableTools.join(', ') || 'Basic kitchen tools'}. Only use techniques these tools allow.
+      - Spiciness Preference: ${profile.spicinessPreference} out of 5
+      - Disliked Ingredients (avoid): ${profile.dislikedIngredients.filter(Boolean).join(', ') || 'None'}
+      - ALLERGIES (STRICT): ${profile.allergies.filter(Boolean).join(', ') || 'None'}. Never use these or anything made from them (e.g. soy sauce or tofu for a soy allergy).${describeRemainingCalories(profile.remainingCalories)}
+    `;
+}
+
+function describeRemainingCalories(remainingCalories?: number): string {
+  if (remainingCalories === undefined) return '';
+  if (remainingCalories <= 0) {
+    return `
+      - Calorie Budget: The user has already reached today's calorie goal. Prefer light, low-calorie dishes.`;
+  }
+  return `
+      - Calorie Budget: About ${remainingCalories} kcal left for today. Prefer recipes whose calories per serving fit within it.`;
+}
+
+const UNIT_SYSTEM_INSTRUCTIONS: { [system in UnitSystem]: string } = {
+  metric: 'Metric: grams, kilograms, millilitres and litres (spoons are fine for small amounts), temperatures in °C.',
+  us: 'US customary: ounces, pounds, cups, tablespoons and teaspoons, temperatures in °F.',
+  korean: 'Korean household measures: 컵 (200ml), 큰술 and 작은술 for liquids and seasonings, grams for meat and produce, temperatures in °C.',
+};
+
+// Every ingredient name of a generated recipe, plus its names (which often give away the main ingredient).
+function getRecipeAllergens(recipe: any, allergies: string[]): string[] {
+  const names = [recipe.recipeName, recipe.englishRecipeName, ...(recipe.ingredients ?? []), ...(recipe.missingIngredients ?? [])];
+  return findAllergensInIngredients(names.filter(Boolean), allergies);
+}
+
+const RECIPE_COUNT = 5;
+
+// Streams the model's recipe array, yielding each recipe as soon as it is complete.
+async function* streamRecipeOverviews(ai: GoogleGenAI, prompt: string): AsyncGenerator<any> {
+  const stream = await ai.models.generateContentStream({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: recipeOverviewSchema,
+      temperature: 0.7,
+    }
+  });
+
+  const parser = createJsonArrayParser<any>();
+  for await (const chunk of stream) {
+    yield* parser.push(chunk.text ?? '');
+  }
+}
+
+async function findRecipeImage(recipe: any): Promise<string | null> {
+  let imageUrl: string | null = null;
+  if (recipe.imageSearchQuery) {
+    imageUrl = await searchGoogleImage(recipe.imageSearchQuery);
+  }
+  // Try recipe name if query fails or not present (fallback)
+  if (!imageUrl && recipe.englishRecipeName) {
+    imageUrl = await searchGoogleImage(recipe.englishRecipeName);
+  }
+  return imageUrl;
+}
+
+type RecipeRecommendationsPayload = { ingredients: string[], priorityIngredients: string[], filters: RecipeFilters, language: 'en' | 'ko', profile?: RecipeProfile };
+
+// Generates recommendations, emitting each recipe as soon as the model has written it and its
+// image once the search returns. Resolves when every image lookup has finished.
+async function generateRecipeRecommendations(
+  ai: GoogleGenAI,
+  payload: RecipeRecommendationsPayload,
+  emit: (event: RecipeStreamEvent) => void
+): Promise<void> {
+  const { ingredients, priorityIngredients, filters, language, profile } = payload;
+  const allergies = profile?.allergies ?? [];
 
   // Construct the prompt in English for better model performance
   const targetLanguage = language === 'ko' ? 'Korean' : 'English';
@@ -98,8 +206,8 @@ async function handleGetRecipeRecommendations(ai: GoogleGenAI, payload: { ingred
       CONTEXT:
       - User Ingredients: ${ingredients.join(', ')}.
       - Priority Ingredients (Must use if possible): ${priorityIngredients.join(', ')}.
-      
-      FILTERS:
+      ${describeRecipeProfile(profile)}
+      FILTERS (take precedence over the profile preferences, never over allergies):
       - Cuisine: ${cuisineFilter}
       - Servings: ${filters.servings}
       - Spiciness: ${filters.spiciness}
@@ -107,7 +215,7 @@ async function handleGetRecipeRecommendations(ai: GoogleGenAI, payload: { ingred
       - Max Cook Time: ${filters.maxCookTime} minutes
       
       TASK:
-      Recommend 5 diverse and delicious recipes matching these conditions.
+      Recommend ${RECIPE_COUNT} diverse and delicious recipes matching these conditions.
       
       IMPORTANT OUTPUT INSTRUCTIONS:
       1. **Language**: Return all user-facing text (name, description, ingredients list) in **${targetLanguage}**.
@@ -118,45 +226,130 @@ async function handleGetRecipeRecommendations(ai: GoogleGenAI, payload: { ingred
          - If main ingredients are missing from the user's list, add them to 'missingIngredients'.
     `;
 
+  emit({ type: 'start', total: RECIPE_COUNT });
+
+  const accepted: string[] = [];
+  const filtered: FilteredRecipe[] = [];
+  const imageLookups: Promise<void>[] = [];
+
+  // The model doesn't always honour allergies, so every recipe is checked before it reaches the user
+  const handleRecipe = (recipe: any) => {
+    const allergens = getRecipeAllergens(recipe, allergies);
+    if (allergens.length > 0) {
+      const filteredRecipe = { recipeName: recipe.recipeName, allergens };
+      filtered.push(filteredRecipe);
+      emit({ type: 'filtered', recipe: filteredRecipe });
+      return;
+    }
+
+    const index = accepted.length;
+    accepted.push(recipe.recipeName);
+    emit({ type: 'recipe', index, recipe: { ...recipe, instructions: [], substitutions: [], isDetailsLoaded: false } });
+    imageLookups.push(findRecipeImage(recipe).then(imageUrl => emit({ type: 'image', index, imageUrl })));
+  };
+
+  for await (const recipe of streamRecipeOverviews(ai, prompt)) {
+    handleRecipe(recipe);
+  }
+
+  // Ask once for replacements for the recipes that were left out
+  const rejectedCount = filtered.length;
+  if (rejectedCount > 0) {
+    const retryPrompt = `${prompt}
+      SAFETY RETRY:
+      These recipes were rejected because they contain the user's allergens: ${filtered.map(f => `${f.recipeName} (${f.allergens.join(', ')})`).join('; ')}.
+      Recommend ${rejectedCount} different recipe(s) instead. They must not contain ${allergies.join(', ')} in any form, and must not repeat: ${accepted.join(', ') || 'None'}.
+    `;
+    try {
+      let replacementCount = 0;
+      for await (const recipe of streamRecipeOverviews(ai, retryPrompt)) {
+        if (replacementCount++ >= rejectedCount) break;
+        handleRecipe(recipe);
+      }
+    } catch (error) {
+      console.error("Failed to regenerate recipes:", error);
+    }
+  }
+
+  await Promise.all(imageLookups);
+}
+
+async function handleGetRecipeRecommendations(ai: GoogleGenAI, payload: RecipeRecommendationsPayload): Promise<RecipeRecommendationsResult> {
+  const recipes: Recipe[] = [];
+  const filtered: FilteredRecipe[] = [];
+
+  await generateRecipeRecommendations(ai, payload, event => {
+    if (event.type === 'recipe') recipes[event.index] = event.recipe;
+    if (event.type === 'image') recipes[event.index].imageUrl = event.imageUrl ?? undefined;
+    if (event.type === 'filtered') filtered.push(event.recipe);
+  });
+
+  return { recipes, filtered };
+}
+
+// Answers with newline-delimited JSON events written by `run`. Errors are reported as a final
+// `error` event, since the status code has already been sent by then. `isCancelled` turns true
+// when the client goes away.
+function createNdjsonResponse<T extends { type: string }>(
+  run: (emit: (event: T) => void, isCancelled: () => boolean) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  let isClosed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const emit = (event: T | { type: 'error'; message: string } | { type: 'done' }) => {
+        if (!isClosed) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+      try {
+        await run(emit, () => isClosed);
+        emit({ type: 'done' });
+      } catch (error) {
+        console.error("API Error:", error);
+        emit({ type: 'error', message: (error as Error).message });
+      } finally {
+        if (!isClosed) controller.close();
+        isClosed = true;
+      }
+    },
+    cancel() {
+      isClosed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+  });
+}
+
+// Same as getRecipeRecommendations, but answers with a stream of RecipeStreamEvents.
+function handleStreamRecipeRecommendations(ai: GoogleGenAI, payload: RecipeRecommendationsPayload): Response {
+  return createNdjsonResponse<RecipeStreamEvent>(emit => generateRecipeRecommendations(ai, payload, emit));
+}
+
+async function generateRecipeDetails(ai: GoogleGenAI, prompt: string): Promise<Partial<Recipe>> {
   const response: GenerateContentResponse = await ai.models.generateContent({
-    model: model,
+    model: 'gemini-2.5-flash',
     contents: prompt,
     config: {
       responseMimeType: "application/json",
-      responseSchema: recipeOverviewSchema,
-      temperature: 0.7,
+      responseSchema: recipeDetailSchema,
+      temperature: 0.5,
     }
   });
 
   const jsonText = response.text.trim();
-  const recipes = JSON.parse(jsonText);
-
-  // Fetch images in parallel
-  const recipesWithImages = await Promise.all(recipes.map(async (r: any) => {
-    let imageUrl: string | null = null;
-    if (r.imageSearchQuery) {
-      imageUrl = await searchGoogleImage(r.imageSearchQuery);
-    }
-    // Try recipe name if query fails or not present (fallback)
-    if (!imageUrl && r.englishRecipeName) {
-      imageUrl = await searchGoogleImage(r.englishRecipeName);
-    }
-
-    return {
-      ...r,
-      imageUrl,
-      instructions: [],
-      substitutions: [],
-      isDetailsLoaded: false
-    };
-  }));
-
-  return recipesWithImages;
+  const details = JSON.parse(jsonText);
+  return {
+    ...details,
+    instructions: sanitizeInstructionSteps(details.instructions, details.ingredients?.length ?? 0),
+    nutrition: sanitizeNutrition(details.nutrition),
+  };
 }
 
-async function handleGetRecipeDetails(ai: GoogleGenAI, payload: { recipeName: string, ingredients: string[], language: 'en' | 'ko' }): Promise<Partial<Recipe>> {
-  const { recipeName, ingredients, language } = payload;
-  const model = 'gemini-2.5-flash';
+async function handleGetRecipeDetails(ai: GoogleGenAI, payload: { recipeName: string, ingredients: string[], language: 'en' | 'ko', profile?: RecipeProfile }): Promise<Partial<Recipe>> {
+  const { recipeName, ingredients, language, profile } = payload;
+  const allergies = profile?.allergies ?? [];
   const targetLanguage = language === 'ko' ? 'Korean' : 'English';
 
   const prompt = `
@@ -165,62 +358,340 @@ async function handleGetRecipeDetails(ai: GoogleGenAI, payload: { recipeName: st
       CONTEXT:
       - Selected Recipe: "${recipeName}"
       - User Ingredients: ${ingredients.join(', ')}
-      
+      ${describeRecipeProfile(profile)}
       TASK:
       Provide the **detailed** cooking information for this recipe.
       
       IMPORTANT OUTPUT INSTRUCTIONS:
       1. **Language**: Return all text in **${targetLanguage}**.
-      2. **Ingredients**: Provide the full list of ingredients with **specific quantities** (e.g., "200g Pork", "1/2 Onion", "1 tsp Salt").
-      3. **Instructions**: Provide detailed, step-by-step cooking instructions.
+      2. **Ingredients**: Provide the full list of ingredients with **specific quantities** (e.g., "200g Pork", "1/2 Onion", "1 tsp Salt"). Units: ${UNIT_SYSTEM_INSTRUCTIONS[profile?.unitSystem ?? 'metric']}
+      3. **Instructions**: Provide detailed, step-by-step cooking instructions suited to the user's cooking level and tools. For each step, also give how long it takes when it involves waiting, the heat level or temperature, which ingredients (by their index in your ingredients list) it uses, and the tools it needs.
       4. **Substitutions**: If the user is missing any required ingredients based on their list, suggest specific substitutions.
+      5. **Allergies**: If the dish normally contains one of the user's allergens, use a safe alternative instead.
+      6. **Nutrition**: Estimate protein, carbs, fat, fiber, sodium and sugar for one serving, consistent with your ingredient quantities.
+    `;
+
+  const getAllergens = (details: Partial<Recipe>) => findAllergensInIngredients(
+    [...(details.ingredients ?? []), ...(details.substitutions ?? []).map(s => s.substitute)],
+    allergies
+  );
+
+  let details = await generateRecipeDetails(ai, prompt);
+  let allergens = getAllergens(details);
+  if (allergens.length > 0) {
+    details = await generateRecipeDetails(ai, `${prompt}
+      SAFETY RETRY:
+      Your previous answer contained ${allergens.join(', ')}, which the user is allergic to. Rewrite the recipe without them or anything made from them.
+    `);
+    allergens = getAllergens(details);
+  }
+
+  // Still unsafe after the retry: return it, but flagged so the UI can warn
+  return allergens.length > 0 ? { ...details, allergenWarnings: allergens } : details;
+}
+
+// A week of meals: one recipe overview per open slot of the planner
+const mealPlanSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      date: { type: Type.STRING, description: 'The date of the slot, YYYY-MM-DD, exactly as given.' },
+      slot: { type: Type.STRING, enum: ['breakfast', 'lunch', 'dinner'] },
+      ...recipeOverviewSchema.items.properties,
+    },
+    required: ['date', 'slot', ...recipeOverviewSchema.items.required]
+  }
+};
+
+type MealPlanPayload = {
+  ingredients: string[],
+  priorityIngredients: string[], // Expiring soon, so they go into the first days
+  slots: MealSlotRef[], // The open slots to plan
+  plannedMeals: { date: string, slot: MealSlot, recipeName: string }[], // Already in the plan; kept as they are
+  recentRecipes: string[], // Cooked lately, so not planned again
+  calorieGoal?: number,
+  language: 'en' | 'ko',
+  profile?: RecipeProfile,
+};
+
+// Recipe names compared across languages, so a dish isn't repeated under another name
+function getRecipeKeys(recipe: { recipeName?: string, englishRecipeName?: string }): string[] {
+  return [recipe.recipeName, recipe.englishRecipeName].filter(Boolean).map(name => name!.trim().toLowerCase());
+}
+
+async function handleGenerateMealPlan(ai: GoogleGenAI, payload: MealPlanPayload): Promise<MealPlanResult> {
+  const { ingredients, priorityIngredients, slots, plannedMeals, recentRecipes, calorieGoal, language, profile } = payload;
+  const allergies = profile?.allergies ?? [];
+  const targetLanguage = language === 'ko' ? 'Korean' : 'English';
+  if (slots.length === 0) return { meals: [], filtered: [] };
+
+  const describeDate = (date: string) => `${date} (${new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long' })})`;
+  const slotsByDate = slots.reduce<{ [date: string]: MealSlot[] }>((acc, { date, slot }) => ({ ...acc, [date]: [...(acc[date] ?? []), slot] }), {});
+
+  const prompt = `
+      You are an expert chef and meal planner for the "OhMyCook" app.
+      
+      CONTEXT:
+      - User Ingredients: ${ingredients.join(', ') || 'None'}.
+      - Expiring Soon (use in the first days): ${priorityIngredients.join(', ') || 'None'}.
+      - Already Planned (keep, plan around them): ${plannedMeals.map(meal => `${meal.date} ${meal.slot}: ${meal.recipeName}`).join('; ') || 'None'}.
+      - Recently Cooked (do not repeat): ${recentRecipes.join(', ') || 'None'}.
+      ${describeRecipeProfile(profile)}${calorieGoal ? `
+      - Daily Calorie Goal: about ${calorieGoal} kcal, for the three meals of a day together.` : ''}
+      
+      TASK:
+      Plan exactly one recipe for each of these open slots:
+      ${Object.entries(slotsByDate).map(([date, dateSlots]) => `- ${describeDate(date)}: ${dateSlots.join(', ')}`).join('\n      ')}
+      
+      PLANNING RULES:
+      1. **Use the pantry**: Build the week around the user's ingredients so as few as possible have to be bought, and use the expiring ones first. Reuse an ingredient that has to be bought in more than one meal.
+      2. **No repetition**: Every recipe must be different from the others, from the already planned meals and from the recently cooked ones. Vary the main protein and the cuisine from one day to the next.
+      3. **Fit the slot**: Breakfasts are quick and light; lunches and dinners can take longer. Respect the user's cooking level and tools.
+      4. **Language**: Return all user-facing text (name, description, ingredients list) in **${targetLanguage}**.
+      5. **Search Query**: For 'imageSearchQuery', generate a keyword-focused, English string optimized for Image search based on Recipe Name.
+      6. **Overview Only**: For 'ingredients', list ONLY the names, without quantities. Add main ingredients the user doesn't have to 'missingIngredients'.
     `;
 
   const response: GenerateContentResponse = await ai.models.generateContent({
-    model: model,
+    model: 'gemini-2.5-flash',
     contents: prompt,
     config: {
       responseMimeType: "application/json",
-      responseSchema: recipeDetailSchema,
-      temperature: 0.5,
+      responseSchema: mealPlanSchema,
+      temperature: 0.8,
     }
   });
+  const generated: any[] = JSON.parse(response.text.trim());
+
+  // The model doesn't always follow the rules, so slots, repeats and allergies are checked here too
+  const openSlots = new Set(slots.map(({ date, slot }) => `${date}:${slot}`));
+  const usedNames = new Set([...plannedMeals.map(meal => meal.recipeName), ...recentRecipes].flatMap(recipeName => getRecipeKeys({ recipeName })));
+  const accepted: { date: string, slot: MealSlot, recipe: any }[] = [];
+  const filtered: FilteredRecipe[] = [];
+
+  generated.forEach(({ date, slot, ...recipe }) => {
+    const slotKey = `${date}:${slot}`;
+    if (!openSlots.has(slotKey)) return;
+    const keys = getRecipeKeys(recipe);
+    if (keys.some(key => usedNames.has(key))) return;
+
+    const allergens = getRecipeAllergens(recipe, allergies);
+    if (allergens.length > 0) {
+      filtered.push({ recipeName: recipe.recipeName, allergens });
+      return;
+    }
+    openSlots.delete(slotKey);
+    keys.forEach(key => usedNames.add(key));
+    accepted.push({ date, slot, recipe });
+  });
+
+  const imageUrls = await Promise.all(accepted.map(({ recipe }) => findRecipeImage(recipe)));
+  const meals: PlannedMeal[] = accepted.map(({ date, slot, recipe }, index) => ({
+    date,
+    slot,
+    recipe: { ...recipe, imageUrl: imageUrls[index] ?? undefined, instructions: [], substitutions: [], isDetailsLoaded: false },
+  }));
+
+  return { meals, filtered };
+}
+
+const receiptLineItemSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING, description: 'Plain English name of the food ingredient, singular (e.g. "Egg", "Green Onion", "Tofu"). No brand names or package sizes.' },
+      quantity: { type: Type.NUMBER, description: 'Amount bought, e.g. 2 for two packs or 500 for 500g. Omit if not printed on the receipt.' },
+      unit: { type: Type.STRING, description: 'Unit for the quantity: one of g, kg, ml, l, piece, pack, bunch. Use "pack" for packaged goods counted by the package.' },
+      price: { type: Type.NUMBER, description: 'Line total as printed, without currency symbols. Omit if unreadable.' },
+      confidence: { type: Type.NUMBER, description: 'How sure you are about the name and quantity, from 0 to 1.' },
+      rawText: { type: Type.STRING, description: 'The receipt line exactly as printed (in its original language).' },
+      page: { type: Type.INTEGER, description: '0-based index of the photo the line was read from.' },
+    },
+    required: ['name', 'confidence', 'rawText'],
+  },
+};
 
+async function handleAnalyzeReceipt(ai: GoogleGenAI, payload: { images: InlineImage[] }): Promise<ReceiptLineItem[]> {
+  const { images } = payload;
+  if (!images?.length) throw new Error('No receipt images provided');
+  const model = 'gemini-2.5-flash';
+  const prompt = `
+      Analyze ${images.length > 1 ? `these ${images.length} images. They are consecutive photos of ONE long grocery receipt, in order, and neighbouring photos may overlap` : 'this grocery receipt image'}.
+      List every food ingredient that was purchased, one entry per receipt line.
+      - Skip non-food lines (bags, discounts, taxes, totals, points, household goods).${images.length > 1 ? `
+      - Lines that appear in two photos because they overlap must be listed only once. Items bought on separate lines are separate entries.` : ''}
+      - Translate names to plain English ingredient names, but keep the original line in 'rawText'.
+      - Read quantities from the line itself (e.g. "x2", "500g", "1kg"). Do not guess quantities that aren't printed.
+      - Lower the confidence when the text is blurry, abbreviated, or you are unsure what the product is.
+  `;
+
+  const imageParts = images.map(image => ({
+    inlineData: {
+      mimeType: image.mimeType,
+      data: image.data,
+    },
+  }));
+
+  const textPart = { text: prompt };
+
+  const response: GenerateContentResponse = await ai.models.generateContent({
+    model: model,
+    contents: { parts: [...imageParts, textPart] },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: receiptLineItemSchema,
+    }
+  });
   const jsonText = response.text.trim();
   return JSON.parse(jsonText);
 }
 
-async function handleAnalyzeReceipt(ai: GoogleGenAI, payload: { base64Image: string }): Promise<string[]> {
-  const { base64Image } = payload;
+const fridgeDetectionSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING, description: 'Plain English name of the ingredient, singular (e.g. "Egg", "Carrot", "Kimchi").' },
+      quantity: { type: Type.NUMBER, description: 'How many are visible, or an estimated weight. Omit if you cannot tell.' },
+      unit: { type: Type.STRING, description: 'Unit for the quantity: one of piece, pack, bunch, g, kg, ml, l.' },
+      confidence: { type: Type.NUMBER, description: 'How sure you are that this ingredient is really there, from 0 to 1.' },
+      box: {
+        type: Type.ARRAY,
+        items: { type: Type.INTEGER },
+        description: 'Bounding box of the item as [ymin, xmin, ymax, xmax], each scaled to 0-1000.',
+      },
+    },
+    required: ['name', 'confidence'],
+  },
+};
+
+async function handleAnalyzeFridgePhoto(ai: GoogleGenAI, payload: { image: InlineImage }): Promise<FridgeDetection[]> {
+  const { image } = payload;
   const model = 'gemini-2.5-flash';
-  const prompt = "Analyze this receipt image. Extract only the names of the food ingredients purchased. Return the result as a JSON array of strings in English. For example: [\"Egg\", \"Green Onion\", \"Tofu\"]. Do not include quantities, prices, or any other text.";
+  const prompt = `
+      This is a photo of an open fridge, pantry shelf or kitchen counter. Identify every food ingredient you can see.
+      - List each distinct ingredient once. Group identical items (e.g. a carton of eggs) into one entry with a count.
+      - Only report what is visible; do not guess what might be hidden behind other items.
+      - For packaged goods, name the food inside (e.g. "Milk", not "Carton").
+      - Give a bounding box for each ingredient and lower the confidence for items that are partly hidden or hard to recognize.
+  `;
 
   const imagePart = {
     inlineData: {
-      mimeType: 'image/jpeg',
-      data: base64Image,
+      mimeType: image.mimeType,
+      data: image.data,
     },
   };
 
-  const textPart = { text: prompt };
-
   const response: GenerateContentResponse = await ai.models.generateContent({
     model: model,
-    contents: { parts: [imagePart, textPart] },
+    contents: { parts: [imagePart, { text: prompt }] },
     config: {
       responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
+      responseSchema: fridgeDetectionSchema,
     }
   });
   const jsonText = response.text.trim();
   return JSON.parse(jsonText);
 }
 
-async function handleChatWithAIChef(ai: GoogleGenAI, payload: { history: ChatMessage[], message: string, settings: UserSettings, language: 'en' | 'ko', recipeContext?: Recipe | null }): Promise<string> {
-  const { history, message, settings, language, recipeContext } = payload;
+type ChatPayload = { history: ChatMessage[], message: string, images?: InlineImage[], settings: UserSettings, language: 'en' | 'ko', recipeContext?: Recipe | null, pantry?: string[], shoppingList?: string[] };
+
+// Actions the AI Chef can propose. The app shows each call to the user and only runs it once they confirm.
+const AI_CHEF_TOOLS = [
+  {
+    name: 'addToShoppingList',
+    description: "Add ingredients to the user's shopping list.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        items: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Ingredient names in English, e.g. "Green Onion".' },
+      },
+      required: ['items'],
+    },
+  },
+  {
+    name: 'addPantryIngredient',
+    description: "Add ingredients the user says they have (e.g. just bought) to their pantry.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        items: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING, description: 'Ingredient name in English.' },
+              amount: { type: Type.NUMBER, description: 'How much, if the user said so.' },
+              unit: { type: Type.STRING, description: 'Unit of the amount, e.g. "g", "ea", "ml".' },
+            },
+            required: ['name'],
+          },
+        },
+      },
+      required: ['items'],
+    },
+  },
+  {
+    name: 'removePantryIngredient',
+    description: "Remove ingredients the user has used up or thrown away from their pantry.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        names: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Ingredient names as they appear in the pantry.' },
+      },
+      required: ['names'],
+    },
+  },
+  {
+    name: 'saveRecipe',
+    description: "Save a recipe to the user's saved recipes. Use it for the current recipe or one you wrote in this conversation.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        recipeName: { type: Type.STRING },
+        description: { type: Type.STRING },
+        ingredients: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Ingredients with quantities.' },
+        instructions: { type: Type.ARRAY, items: { type: Type.STRING } },
+        cookTime: { type: Type.NUMBER, description: 'In minutes.' },
+        servings: { type: Type.NUMBER },
+        calories: { type: Type.NUMBER, description: 'Per serving.' },
+        cuisine: { type: Type.STRING },
+      },
+      required: ['recipeName'],
+    },
+  },
+  {
+    name: 'suggestRecipes',
+    description: "Open recipe recommendations for the user, optionally focused on some pantry ingredients.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        priorityIngredients: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Pantry ingredients to use up, in English.' },
+      },
+    },
+  },
+];
+
+const AI_CHEF_TOOL_NAMES = new Set(AI_CHEF_TOOLS.map(tool => tool.name));
+
+// Gemini expects user and model turns to alternate, so a reply that only proposed actions is sent
+// as a short note about them instead of being dropped. Tool calls themselves stay in the app.
+function toChatHistory(history: ChatMessage[]): Content[] {
+  return history.flatMap(message => {
+    const parts: Part[] = message.parts.filter(part => 'inlineData' in part || part.text);
+    if (parts.length === 0 && message.toolCalls?.length) {
+      const proposals = message.toolCalls.map(call => `${call.name} (${call.status})`).join(', ');
+      parts.push({ text: `[Proposed actions: ${proposals}]` });
+    }
+    return parts.length > 0 ? [{ role: message.role, parts }] : [];
+  });
+}
+
+function createAIChefChat(ai: GoogleGenAI, payload: ChatPayload) {
+  const { history, settings, language, recipeContext } = payload;
   // Updated to use the Pro model for better reasoning and chat experience
   const model = 'gemini-2.5-flash';
   const targetLanguage = language === 'ko' ? 'Korean' : 'English';
@@ -232,10 +703,17 @@ async function handleChatWithAIChef(ai: GoogleGenAI, payload: { history: ChatMes
       - Cooking Level: ${settings.cookingLevel}
       - Allergies: ${settings.allergies.join(', ') || 'None'}
       - Tools: ${settings.availableTools.join(', ') || 'Basic'}
+      - Units: ${UNIT_SYSTEM_INSTRUCTIONS[settings.unitSystem ?? 'metric']}
       
       INSTRUCTIONS:
       - Answer in **${targetLanguage}**.
       - Keep answers concise, friendly, and easy to understand.
+      - The user may attach photos (e.g. to ask whether something is cooked, or what an ingredient is). Describe what you see before answering, and say so when a photo is too unclear to judge food safety.
+      - Format with Markdown. When giving a recipe, put the ingredients with quantities in a bulleted list under an "Ingredients" heading and the steps in a numbered list.
+      - You can propose actions with your tools: adding to the shopping list, adding to or removing from the pantry, saving a recipe, and opening recipe suggestions. Only call a tool when the user asks for that action or clearly agrees to it. The user confirms each call before it runs, so always also reply with one short sentence saying what you are proposing.
+
+      USER'S PANTRY: ${payload.pantry?.join(', ') || 'Unknown'}
+      USER'S SHOPPING LIST: ${payload.shoppingList?.join(', ') || 'Empty'}
     `;
 
   if (recipeContext) {
@@ -244,20 +722,72 @@ async function handleChatWithAIChef(ai: GoogleGenAI, payload: { history: ChatMes
         CURRENT RECIPE CONTEXT:
         Name: ${recipeContext.recipeName}
         Ingredients: ${recipeContext.ingredients.join(', ')}
-        Instructions: ${recipeContext.instructions.join('\n')}
+        Instructions:
+        ${describeInstructionsForPrompt(recipeContext.instructions, recipeContext.ingredients)}
         `;
   }
 
-  const chat = ai.chats.create({
+  return ai.chats.create({
     model: model,
     config: {
       systemInstruction: systemInstruction,
+      tools: [{ functionDeclarations: AI_CHEF_TOOLS }],
     },
-    history: history as any
+    history: toChatHistory(history),
   });
+}
 
-  const result = await chat.sendMessage({ message });
-  return result.text;
+// The new message, with any attached photos before the question about them.
+function getChatMessageParts(payload: ChatPayload) {
+  const imageParts = (payload.images ?? []).map(image => ({
+    inlineData: {
+      mimeType: image.mimeType,
+      data: image.data,
+    },
+  }));
+  return payload.message.trim() ? [...imageParts, { text: payload.message }] : imageParts;
+}
+
+// Answers an AI Chef message, streaming the reply as it is written along with any actions the model
+// proposes. Generation stops when the client aborts.
+function handleStreamChatWithAIChef(ai: GoogleGenAI, payload: ChatPayload): Response {
+  return createNdjsonResponse<ChatStreamEvent>(async (emit, isCancelled) => {
+    const chat = createAIChefChat(ai, payload);
+    const stream = await chat.sendMessageStream({ message: getChatMessageParts(payload) });
+    for await (const chunk of stream) {
+      if (isCancelled()) break;
+      if (chunk.text) emit({ type: 'text', text: chunk.text });
+      chunk.functionCalls?.forEach(call => {
+        if (call.name && AI_CHEF_TOOL_NAMES.has(call.name)) {
+          emit({ type: 'toolCall', call: { name: call.name, args: call.args ?? {} } as ChefToolCall });
+        }
+      });
+    }
+  });
+}
+
+// Names a conversation from its first exchange, for the chat history list.
+async function handleGenerateChatTitle(ai: GoogleGenAI, payload: { messages: ChatMessage[], language: 'en' | 'ko' }): Promise<string> {
+  const { messages, language } = payload;
+  const model = 'gemini-2.5-flash';
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'AI Chef'}: ${message.parts.map(part => 'text' in part ? part.text : '[photo]').join(' ')}`)
+    .join('\n')
+    .slice(0, 4000);
+  const prompt = `
+      Write a short title for this cooking conversation, in ${language === 'ko' ? 'Korean' : 'English'}.
+      - At most 6 words (at most 20 characters in Korean). Name the dish or topic, e.g. "Crispy Tofu Tips" or "김치찌개 간 맞추기".
+      - Reply with the title only: no quotes, no punctuation at the end.
+
+      CONVERSATION:
+      ${transcript}
+  `;
+
+  const response: GenerateContentResponse = await ai.models.generateContent({
+    model: model,
+    contents: prompt,
+  });
+  return (response.text ?? '').trim().replace(/^["'“”]+|["'“”.]+$/g, '').slice(0, 60);
 }
 
 export async function POST(request: Request) {
@@ -265,6 +795,14 @@ export async function POST(request: Request) {
   const apiKey = process.env.API_KEY;
   const ai = new GoogleGenAI({ apiKey });
 
+  // Streaming actions answer as the data is generated, and report their errors inside the stream
+  if (action === 'streamRecipeRecommendations') {
+    return handleStreamRecipeRecommendations(ai, payload);
+  }
+  if (action === 'streamChatWithAIChef') {
+    return handleStreamChatWithAIChef(ai, payload);
+  }
+
   let result;
 
   try {
@@ -275,11 +813,17 @@ export async function POST(request: Request) {
       case 'getRecipeDetails':
         result = await handleGetRecipeDetails(ai, payload);
         break;
+      case 'generateMealPlan':
+        result = await handleGenerateMealPlan(ai, payload);
+        break;
       case 'analyzeReceipt':
         result = await handleAnalyzeReceipt(ai, payload);
         break;
-      case 'chatWithAIChef':
-        result = await handleChatWithAIChef(ai, payload);
+      case 'analyzeFridgePhoto':
+        result = await handleAnalyzeFridgePhoto(ai, payload);
+        break;
+      case 'generateChatTitle':
+        result = await handleGenerateChatTitle(ai, payload);
         break;
       default:
         throw new Error('Invalid action');
@@ -1,27 +1,22 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { UserSettings, ChatMessage, Recipe } from '../types';
-import { SendIcon, LogoIcon, MicIcon, MicOffIcon } from './icons';
+import { UserSettings, ChatMessage, Recipe, ShoppingListItem, Ingredient, ChefToolCall, ChefToolRequest, ChatConversation } from '../types';
+import { SendIcon, LogoIcon, MicIcon, MicOffIcon, StopIcon, CameraIcon, XIcon, PlusIcon, HeadphonesIcon } from './icons';
 import Spinner from './Spinner';
 import { useLanguage } from '../context/LanguageContext';
 import Header from './Header';
-
-interface ChatHistory {
-  key: string;
-  recipeName?: string;
-  summary: string;
-  timestamp: number;
-  messages: ChatMessage[];
-}
-
-declare global {
-  interface Window {
-    webkitSpeechRecognition: any;
-    SpeechRecognition: any;
-  }
-}
-
+import ChatMarkdown from './ChatMarkdown';
+import ChefToolCard from './ChefToolCard';
+import ChatHistoryList from './ChatHistoryList';
+import VoiceModePanel, { VoiceModeStatus } from './VoiceModePanel';
+import { useSpeechRecognition, useSpeechSynthesis } from '../hooks/useSpeech';
+import { extractWakeCommand, toSpeakableText } from '../utils/speech';
+import { ChatImageAttachment, prepareChatImage, toImageDataUrl } from '../utils/image';
+import { getMessageImages, getMessageText } from '../utils/chat';
+
+// Photos per message; each one adds to the request size.
+const MAX_ATTACHMENTS = 3;
 
 interface AIChefProps {
   settings: UserSettings;
@@ -29,11 +24,20 @@ interface AIChefProps {
   recipeContext: Recipe | null;
   showBack?: boolean;
   initialMessages?: ChatMessage[];
+  isLoadingMessages?: boolean; // The conversation's messages are still being fetched from another device's history
   onMessagesUpdate?: (messages: ChatMessage[]) => void;
   openedFromRecipe?: Recipe | null;
   onCloseRecipeContext?: () => void;
-  allChatHistories?: Record<string, ChatMessage[]>;
-  onLoadHistory?: (key: string) => void;
+  conversationId?: string;
+  conversations?: ChatConversation[];
+  onSelectConversation?: (conversationId: string) => void;
+  onNewConversation?: () => void;
+  onRenameConversation?: (conversationId: string, title: string) => void;
+  onDeleteConversation?: (conversationId: string) => void;
+  shoppingList?: ShoppingListItem[];
+  onToggleShoppingListItem?: (itemName: string) => void;
+  pantry?: Ingredient[];
+  onChefToolCall?: (call: ChefToolCall, recipeContext: Recipe | null) => void; // Runs an action the user confirmed
 }
 
 const AIChef: React.FC<AIChefProps> = ({
@@ -42,11 +46,20 @@ const AIChef: React.FC<AIChefProps> = ({
   recipeContext,
   showBack = true,
   initialMessages = [],
+  isLoadingMessages = false,
   onMessagesUpdate,
   openedFromRecipe,
   onCloseRecipeContext,
-  allChatHistories = {},
-  onLoadHistory
+  conversationId,
+  conversations = [],
+  onSelectConversation,
+  onNewConversation,
+  onRenameConversation,
+  onDeleteConversation,
+  shoppingList,
+  onToggleShoppingListItem,
+  pantry,
+  onChefToolCall
 }) => {
   const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
   const [input, setInput] = useState('');
@@ -54,31 +67,31 @@ const AIChef: React.FC<AIChefProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [showSuggestedQuestions, setShowSuggestedQuestions] = useState(true);
-  const [isListening, setIsListening] = useState(false);
-  const recognitionRef = useRef<any>(null);
+  const [streamingText, setStreamingText] = useState<string | null>(null); // The reply being received
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [attachments, setAttachments] = useState<ChatImageAttachment[]>([]);
+  const [isPreparingImage, setIsPreparingImage] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const conversationIdRef = useRef(conversationId);
+  conversationIdRef.current = conversationId;
   const { t, language } = useLanguage();
-
-  // Build history list from all chat histories
-  const historyList: ChatHistory[] = Object.entries(allChatHistories)
-    .filter(([key, msgs]) => msgs.length > 0)
-    .map(([key, msgs]: [string, ChatMessage[]]) => {
-      const isRecipe = key !== '__general__';
-      const firstUserMsg = msgs.find(m => m.role === 'user');
-      const summary = firstUserMsg?.parts[0]?.text.slice(0, 50) || t('chatHistory');
-      return {
-        key,
-        recipeName: isRecipe ? key : undefined,
-        summary,
-        timestamp: Date.now(),
-        messages: msgs
-      };
-    })
-    .sort((a, b) => b.timestamp - a.timestamp);
-
+  const { isSupported: isRecognitionSupported, isListening, listen, stop: stopListening } = useSpeechRecognition(language);
+  const { isSupported: isSynthesisSupported, isSpeaking, speak, cancel: cancelSpeech } = useSpeechSynthesis(language);
+  const [isVoiceMode, setIsVoiceMode] = useState(false);
+  const [requireWakePhrase, setRequireWakePhrase] = useState(false);
+  const [isWaitingForWakePhrase, setIsWaitingForWakePhrase] = useState(false);
+  const voiceModeRef = useRef(false);
+  const requireWakePhraseRef = useRef(requireWakePhrase);
+  requireWakePhraseRef.current = requireWakePhrase;
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingText]);
+
+  // Don't leave a reply generating after the chat is closed or another conversation is opened
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, [conversationId]);
 
   useEffect(() => {
     setMessages(initialMessages);
@@ -93,13 +106,13 @@ const AIChef: React.FC<AIChefProps> = ({
 
   // If chat opened from a recipe with no history, start with a recipe-aware greeting
   useEffect(() => {
-    if (recipeContext && openedFromRecipe && messages.length === 0) {
+    if (recipeContext && openedFromRecipe && !isLoadingMessages && messages.length === 0) {
       const recipeName = recipeContext.recipeName.split('(')[0].trim();
       const introText = `${t('aiChefGreeting')}\n\n${t('chatAboutRecipe', { recipeName })}`;
       const introMessage: ChatMessage = { role: 'model', parts: [{ text: introText }] };
       setMessages([introMessage]);
     }
-  }, [recipeContext, openedFromRecipe, messages.length, t]);
+  }, [recipeContext, openedFromRecipe, isLoadingMessages, messages.length, t]);
 
   // Handle back button
   const handleBack = () => {
@@ -109,14 +122,26 @@ const AIChef: React.FC<AIChefProps> = ({
     onBack();
   };
 
-  const handleSend = async (messageText?: string) => {
+  // Sends a message and resolves with the reply once it is complete ('' when it failed or was stopped).
+  // Typed and spoken messages come from the composer and take its photos along; suggested questions don't.
+  const handleSend = async (messageText?: string, fromComposer: boolean = !messageText): Promise<string> => {
     const textToSend = messageText || input;
-    if (!textToSend.trim() || isLoading) return;
-
-    const userMessage: ChatMessage = { role: 'user', parts: [{ text: textToSend }] };
-    const updatedMessages = [...messages, userMessage];
-    setMessages(updatedMessages);
-    if (!messageText) setInput('');
+    const imagesToSend = fromComposer ? attachments : [];
+    if ((!textToSend.trim() && imagesToSend.length === 0) || isLoading || isLoadingMessages) return '';
+
+    // The history keeps only thumbnails of the photos; the full-size images go with this request
+    const userMessage: ChatMessage = {
+      role: 'user',
+      parts: [
+        ...imagesToSend.map(attachment => ({ inlineData: attachment.thumbnail })),
+        ...(textToSend.trim() ? [{ text: textToSend }] : []),
+      ],
+    };
+    setMessages([...messages, userMessage]);
+    if (fromComposer) {
+      setInput('');
+      setAttachments([]);
+    }
     setIsLoading(true);
     setError(null);
     setShowSuggestedQuestions(false);
@@ -124,45 +149,216 @@ const AIChef: React.FC<AIChefProps> = ({
     console.log('Sending message:', textToSend);
     console.log('History length:', messages.length);
 
-    const history = updatedMessages.map(msg => ({
+    // The new message is sent separately, so the history is what came before it
+    const history = messages.map(msg => ({
       role: msg.role,
-      parts: msg.parts.map(p => ({ text: p.text }))
+      parts: msg.parts
     }));
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let replyText = '';
+    const toolCalls: ChefToolRequest[] = [];
+    const sentConversationId = conversationId;
+
     try {
-      const { chatWithAIChef } = await import('../services/geminiService');
+      const { streamChatWithAIChef } = await import('../services/geminiService');
       console.log('=== AI Chef Request Start ===');
       console.log('Recipe context:', recipeContext?.recipeName);
       console.log('Language:', language);
       console.log('History length:', history.length);
-      console.log('User message:', textToSend);
-      console.log('Calling AI Chef API with history:', history);
-
-      const responseText = await chatWithAIChef(history, textToSend, settings, language, recipeContext);
-      console.log('=== AI Chef Response ===');
-      console.log('Response:', responseText);
 
-      const modelMessage: ChatMessage = { role: 'model', parts: [{ text: responseText }] };
-      setMessages(prev => [...prev, modelMessage]);
-      setShowSuggestedQuestions(true);
+      setStreamingText('');
+      const kitchen = {
+        pantry: (pantry ?? []).map(ing => ing.name),
+        shoppingList: (shoppingList ?? []).map(item => item.name),
+      };
+      for await (const event of streamChatWithAIChef(history, textToSend, settings, language, recipeContext, abortController.signal, kitchen, imagesToSend.map(attachment => attachment.image))) {
+        if (event.type === 'toolCall') {
+          toolCalls.push({ ...event.call, id: `${Date.now()}-${toolCalls.length}`, status: 'pending' } as ChefToolRequest);
+          continue;
+        }
+        replyText += event.text;
+        setStreamingText(replyText);
+      }
       console.log('=== AI Chef Request End ===');
     } catch (err) {
-      console.error('=== AI Chef Error ===');
-      console.error('Error details:', err);
-      if (err instanceof Error) {
-        console.error('Error message:', err.message);
-        console.error('Error stack:', err.stack);
-        setError(err.message);
-      } else {
-        console.error('Unknown error type:', err);
-        setError('An unknown error occurred.');
+      // Stopping on purpose isn't an error
+      if (!abortController.signal.aborted) {
+        console.error('=== AI Chef Error ===');
+        console.error('Error details:', err);
+        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
       }
-      setShowSuggestedQuestions(true);
     } finally {
+      // Keep whatever was received, even if the reply was stopped or cut off
+      if ((replyText || toolCalls.length > 0) && conversationIdRef.current === sentConversationId) {
+        const modelMessage: ChatMessage = { role: 'model', parts: [{ text: replyText }] };
+        if (toolCalls.length > 0) modelMessage.toolCalls = toolCalls;
+        setMessages(prev => [...prev, modelMessage]);
+      }
+      abortControllerRef.current = null;
+      setStreamingText(null);
       setIsLoading(false);
+      setShowSuggestedQuestions(true);
     }
+    return abortController.signal.aborted ? '' : replyText;
   };
 
+  // Voice input and voice mode run across several renders, so they call the latest handleSend
+  const handleSendRef = useRef(handleSend);
+  handleSendRef.current = handleSend;
+
+  // Records the user's answer on the message, so a proposal can't be run twice
+  const handleToolCallResponse = (messageIndex: number, request: ChefToolRequest, confirmed: boolean) => {
+    if (request.status !== 'pending') return;
+    setMessages(prev => prev.map((msg, index) => index !== messageIndex ? msg : {
+      ...msg,
+      toolCalls: msg.toolCalls?.map(call => call.id === request.id ? { ...call, status: confirmed ? 'confirmed' : 'dismissed' } : call),
+    }));
+    if (confirmed) {
+      const { id, status, ...call } = request;
+      onChefToolCall?.(call as ChefToolCall, recipeContext);
+    }
+  };
+
+  const handleAttachImages = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    // Reset input so the same photo can be picked again
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    setIsPreparingImage(true);
+    try {
+      // One at a time, to keep memory use low on phones
+      for (const file of files.slice(0, MAX_ATTACHMENTS - attachments.length)) {
+        const attachment = await prepareChatImage(file);
+        setAttachments(prev => [...prev, attachment].slice(0, MAX_ATTACHMENTS));
+      }
+    } catch (err) {
+      console.error('Could not read image:', err);
+      setError(t('chatPhotoFailed'));
+    } finally {
+      setIsPreparingImage(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Tap-to-talk: one spoken question, sent as soon as the user stops speaking
+  const handleDictate = async () => {
+    if (isListening) {
+      stopListening();
+      return;
+    }
+    if (!isRecognitionSupported) {
+      alert(t('browserNotSupported'));
+      return;
+    }
+    try {
+      const transcript = await listen();
+      if (transcript) {
+        await handleSendRef.current([input.trim(), transcript].filter(Boolean).join(' '), true);
+      }
+    } catch (err) {
+      console.error('Speech recognition error', err);
+      setError(t('voiceInputFailed'));
+    }
+  };
+
+  const stopVoiceMode = () => {
+    voiceModeRef.current = false;
+    setIsVoiceMode(false);
+    setIsWaitingForWakePhrase(false);
+    stopListening();
+    cancelSpeech();
+  };
+
+  // Voice mode: listen, send, read the reply aloud, and listen again until the user leaves.
+  // With the wake phrase on, only questions that start with "Hey Chef" are sent.
+  const runVoiceConversation = async () => {
+    let isAwake = false;
+    let silentRounds = 0;
+    while (voiceModeRef.current) {
+      const waitForWakePhrase = requireWakePhraseRef.current && !isAwake;
+      setIsWaitingForWakePhrase(waitForWakePhrase);
+
+      let transcript: string;
+      const startedAt = Date.now();
+      try {
+        transcript = await listen();
+      } catch (err) {
+        console.error('Speech recognition error', err);
+        setError(t('voiceInputFailed'));
+        stopVoiceMode();
+        return;
+      }
+      if (!voiceModeRef.current) return;
+      if (!transcript) {
+        // Recognition that ends straight away every time means the microphone isn't available
+        silentRounds = Date.now() - startedAt < 1000 ? silentRounds + 1 : 0;
+        if (silentRounds >= 3) {
+          setError(t('voiceInputFailed'));
+          stopVoiceMode();
+          return;
+        }
+        continue;
+      }
+      silentRounds = 0;
+
+      let question = transcript;
+      if (waitForWakePhrase) {
+        const command = extractWakeCommand(transcript, language);
+        if (command === null) continue;
+        if (!command) {
+          // "Hey Chef" on its own: answer, then take the next phrase as the question
+          isAwake = true;
+          await speak(t('voiceModeWakeReply'));
+          continue;
+        }
+        question = command;
+      }
+      isAwake = false;
+      setIsWaitingForWakePhrase(false);
+
+      const reply = await handleSendRef.current(question, true);
+      if (!voiceModeRef.current) return;
+      if (reply) await speak(toSpeakableText(reply));
+    }
+  };
+
+  const startVoiceMode = () => {
+    if (!isRecognitionSupported || !isSynthesisSupported) {
+      alert(t('browserNotSupported'));
+      return;
+    }
+    setShowHistory(false);
+    setError(null);
+    voiceModeRef.current = true;
+    setIsVoiceMode(true);
+    runVoiceConversation();
+  };
+
+  // Cuts the AI Chef off; the voice conversation then goes straight back to listening
+  const handleVoiceTalk = () => {
+    if (isLoading) handleStop();
+    if (isSpeaking) cancelSpeech();
+    if (!isLoading && !isSpeaking && !isListening && !voiceModeRef.current) startVoiceMode();
+  };
+
+  useEffect(() => () => {
+    voiceModeRef.current = false;
+  }, []);
+
+  const voiceStatus: VoiceModeStatus = isSpeaking
+    ? 'speaking'
+    : isLoading
+      ? 'thinking'
+      : isListening
+        ? (isWaitingForWakePhrase ? 'waitingForWakePhrase' : 'listening')
+        : 'idle';
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       handleSend();
@@ -189,11 +385,34 @@ const AIChef: React.FC<AIChefProps> = ({
           )}
           <h2 className="text-sm sm:text-base font-bold text-text-primary truncate">{headerTitle}</h2>
         </div>
+        <button
+          onClick={isVoiceMode ? stopVoiceMode : startVoiceMode}
+          aria-pressed={isVoiceMode}
+          aria-label={t('voiceMode')}
+          title={t('voiceMode')}
+          className={`p-1.5 rounded-lg transition-colors flex-shrink-0 ${isVoiceMode ? 'bg-brand-primary text-white' : 'text-brand-primary bg-brand-light/50 hover:bg-brand-light'}`}
+        >
+          <HeadphonesIcon className="w-5 h-5" />
+        </button>
+        {onNewConversation && (
+          <button
+            onClick={() => {
+              setShowHistory(false);
+              onNewConversation();
+            }}
+            disabled={messages.length === 0}
+            aria-label={t('newConversation')}
+            title={t('newConversation')}
+            className="p-1.5 text-brand-primary bg-brand-light/50 rounded-lg hover:bg-brand-light transition-colors flex-shrink-0 disabled:opacity-50"
+          >
+            <PlusIcon className="w-5 h-5" />
+          </button>
+        )}
         <button
           onClick={() => setShowHistory(!showHistory)}
           className="px-3 py-1.5 text-sm bg-brand-primary text-white rounded-lg hover:bg-brand-dark transition-colors flex-shrink-0"
         >
-          {showHistory ? t('hideHistory') || 'Hide' : t('showHistory') || 'History'}
+          {showHistory ? t('hideHistory') : t('showHistory')}
         </button>
       </div>
 
@@ -201,43 +420,16 @@ const AIChef: React.FC<AIChefProps> = ({
         <div className="p-4 space-y-4">
           {/* History List View */}
           {showHistory && (
-            historyList.length > 0 ? (
-              <div className="mb-6 space-y-2">
-                <h3 className="text-sm font-bold text-text-primary mb-3">{t('chatHistoryList') || '대화 기록'}</h3>
-                {historyList.map(hist => (
-                  <button
-                    key={hist.key}
-                    onClick={() => {
-                      setShowHistory(false);
-                      onLoadHistory?.(hist.key);
-                    }}
-                    className="w-full text-left bg-surface border border-line-light rounded-lg p-3 hover:bg-brand-light transition-colors"
-                  >
-                    {hist.recipeName && (
-                      <div className="text-xs font-bold text-brand-primary mb-1">
-                        🍳 {hist.recipeName}
-                      </div>
-                    )}
-                    {!hist.recipeName && (
-                      <div className="text-xs font-bold text-text-secondary mb-1">
-                        💬 {t('generalChat') || '일반 대화'}
-                      </div>
-                    )}
-                    <div className="text-sm text-text-primary line-clamp-2">
-                      {hist.summary}...
-                    </div>
-                    <div className="text-xs text-text-secondary mt-1">
-                      {hist.messages.length} {t('messages') || 'messages'}
-                    </div>
-                  </button>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-8">
-                <p className="text-text-secondary">{t('noChatHistory') || '아직 대화 내역이 없습니다.'}</p>
-                <p className="text-sm text-text-secondary mt-2">{t('startChatting') || '질문을 시작해보세요!'}</p>
-              </div>
-            )
+            <ChatHistoryList
+              conversations={conversations}
+              currentConversationId={conversationId}
+              onSelect={(id) => {
+                setShowHistory(false);
+                onSelectConversation?.(id);
+              }}
+              onRename={(id, title) => onRenameConversation?.(id, title)}
+              onDelete={(id) => onDeleteConversation?.(id)}
+            />
           )}
 
           {/* Suggested Questions - scrollable */}
@@ -258,8 +450,14 @@ const AIChef: React.FC<AIChefProps> = ({
             </div>
           )}
 
+          {!showHistory && isLoadingMessages && (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          )}
+
           {/* Initial Greeting - only show if no chat history and not showing history list */}
-          {!showHistory && messages.length === 0 && (
+          {!showHistory && !isLoadingMessages && messages.length === 0 && (
             <div className="flex justify-start">
               <div className="flex items-start gap-2 max-w-xs md:max-w-md">
                 <div className="w-8 h-8 rounded-full bg-brand-primary flex items-center justify-center flex-shrink-0">
@@ -277,7 +475,7 @@ const AIChef: React.FC<AIChefProps> = ({
           )}
 
           {/* Suggested Questions for first time users - scrollable */}
-          {!showHistory && messages.length === 0 && (
+          {!showHistory && !isLoadingMessages && messages.length === 0 && (
             <div className="mb-4">
               <p className="text-sm text-text-secondary mb-2">{t('suggestedQuestions')}</p>
               <div className="flex flex-wrap gap-2">
@@ -304,16 +502,53 @@ const AIChef: React.FC<AIChefProps> = ({
               className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
             >
               <div className={`max-w-xs md:max-w-md lg:max-w-lg px-4 py-3 rounded-xl ${msg.role === 'user' ? 'bg-brand-primary text-white rounded-br-none' : 'bg-surface text-text-primary rounded-bl-none shadow-subtle'}`}>
-                <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.parts[0].text}</p>
+                {msg.role === 'model' ? (
+                  <>
+                    {getMessageText(msg) && (
+                      <ChatMarkdown text={getMessageText(msg)} shoppingList={shoppingList} onToggleShoppingListItem={onToggleShoppingListItem} />
+                    )}
+                    {msg.toolCalls?.map(request => (
+                      <ChefToolCard
+                        key={request.id}
+                        request={request}
+                        onConfirm={() => handleToolCallResponse(index, request, true)}
+                        onDismiss={() => handleToolCallResponse(index, request, false)}
+                      />
+                    ))}
+                  </>
+                ) : (
+                  <>
+                    {getMessageImages(msg).length > 0 && (
+                      <div className={`flex flex-wrap gap-1 ${getMessageText(msg) ? 'mb-2' : ''}`}>
+                        {getMessageImages(msg).map((image, imageIndex) => (
+                          <img
+                            key={imageIndex}
+                            src={toImageDataUrl(image)}
+                            alt={t('chatAttachedPhoto')}
+                            className="w-24 h-24 object-cover rounded-lg"
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {getMessageText(msg) && <p className="text-sm leading-relaxed whitespace-pre-wrap">{getMessageText(msg)}</p>}
+                  </>
+                )}
               </div>
             </motion.div>
           ))}
 
-          {isLoading && (
+          {!showHistory && isLoading && (
             <div className="flex justify-start">
-              <div className="px-4 py-2 rounded-xl bg-surface shadow-subtle">
-                <Spinner size="sm" />
-              </div>
+              {streamingText ? (
+                <div className="max-w-xs md:max-w-md lg:max-w-lg px-4 py-3 rounded-xl bg-surface text-text-primary rounded-bl-none shadow-subtle">
+                  <ChatMarkdown text={streamingText} />
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-brand-primary animate-pulse" />
+                </div>
+              ) : (
+                <div className="px-4 py-2 rounded-xl bg-surface shadow-subtle">
+                  <Spinner size="sm" />
+                </div>
+              )}
             </div>
           )}
           {error && <p className="text-red-500 text-sm text-center">{error}</p>}
@@ -322,91 +557,98 @@ const AIChef: React.FC<AIChefProps> = ({
       </div>
 
       <div className="p-4 border-t bg-background flex-shrink-0">
+        {isVoiceMode && (
+          <VoiceModePanel
+            status={voiceStatus}
+            requireWakePhrase={requireWakePhrase}
+            onToggleWakePhrase={() => setRequireWakePhrase(prev => !prev)}
+            onTalk={handleVoiceTalk}
+            onExit={stopVoiceMode}
+          />
+        )}
+        {(attachments.length > 0 || isPreparingImage) && (
+          <div className="flex gap-2 mb-3">
+            {attachments.map((attachment, index) => (
+              <div key={index} className="relative">
+                <img src={toImageDataUrl(attachment.thumbnail)} alt={t('chatAttachedPhoto')} className="w-16 h-16 object-cover rounded-lg" />
+                <button
+                  onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                  aria-label={t('chatRemovePhoto')}
+                  className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-text-primary text-white"
+                >
+                  <XIcon className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {isPreparingImage && (
+              <div className="w-16 h-16 rounded-lg bg-gray-100 flex items-center justify-center">
+                <Spinner size="sm" />
+              </div>
+            )}
+          </div>
+        )}
+        <input
+          type="file"
+          accept="image/*"
+          multiple
+          ref={fileInputRef}
+          onChange={handleAttachImages}
+          className="hidden"
+        />
         <div className="flex items-center space-x-2">
+          <motion.button
+            whileTap={{ scale: 0.9 }}
+            whileHover={{ scale: 1.05 }}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading || isLoadingMessages || isPreparingImage || attachments.length >= MAX_ATTACHMENTS}
+            aria-label={t('chatAttachPhoto')}
+            title={t('chatAttachPhoto')}
+            className="p-3 rounded-xl transition-colors flex items-center justify-center aspect-square bg-gray-200 text-gray-600 hover:bg-gray-300 disabled:opacity-50"
+          >
+            <CameraIcon className="w-5 h-5" />
+          </motion.button>
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyPress={handleKeyPress}
             placeholder={t('askAnything')}
-            disabled={isLoading}
+            disabled={isLoading || isLoadingMessages}
             className="flex-grow p-3 border border-line-light rounded-xl bg-surface focus:outline-none focus:ring-2 focus:ring-brand-primary/50 disabled:opacity-50"
           />
           <motion.button
             whileTap={{ scale: 0.9 }}
             whileHover={{ scale: 1.05 }}
-            onClick={() => {
-              if (isListening) {
-                recognitionRef.current?.stop();
-                setIsListening(false);
-              } else {
-                const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-                if (!SpeechRecognition) {
-                  alert(t('browserNotSupported') || "Browser does not support voice input.");
-                  return;
-                }
-                const recognition = new SpeechRecognition();
-                recognition.lang = language === 'ko' ? 'ko-KR' : 'en-US';
-                recognition.interimResults = false;
-                recognition.lang = language === 'ko' ? 'ko-KR' : 'en-US';
-                recognition.interimResults = false;
-                recognition.continuous = false; // Auto-send requires stopping after one phrase usually, or just detecting end
-                recognition.maxAlternatives = 1;
-                recognition.maxAlternatives = 1;
-
-                recognition.onstart = () => setIsListening(true);
-                recognition.onend = () => {
-                  setIsListening(false);
-                  // Auto-send if we have input
-                  setInput(prev => {
-                    if (prev.trim()) {
-                      // We need to call handleSend, but we can't easily access the latest state inside this closure unless we use a ref or controlled effect.
-                      // Actually, setInput updater is safe. But calling handleSend(prev) might use stale state?
-                      // Better to trigger a send effect or just call a ref-held function.
-                      // For simplicity, let's just trigger a click on the send button programmatically or use a timeout?
-                      // Cleanest: Use a useEffect that watches `isListening` going from true to false with `input` present? 
-                      // But `onend` fires even if error. 
-                      // Let's use a small timeout to trigger send.
-                      setTimeout(() => {
-                        const sendBtn = document.getElementById('chat-send-button');
-                        if (sendBtn) sendBtn.click();
-                      }, 100);
-                    }
-                    return prev;
-                  });
-                };
-                recognition.onerror = (event: any) => {
-                  console.error("Speech recognition error", event.error);
-                  setIsListening(false);
-                };
-                recognition.onresult = (event: any) => {
-                  const current = event.resultIndex;
-                  const transcript = event.results[current][0].transcript;
-                  setInput(prev => {
-                    const trimmedPrev = prev.trim();
-                    return trimmedPrev ? `${trimmedPrev} ${transcript}` : transcript;
-                  });
-                };
-
-                recognitionRef.current = recognition;
-                recognition.start();
-              }
-            }}
-            className={`p-3 rounded-xl transition-colors flex items-center justify-center aspect-square ${isListening ? 'bg-red-500 text-white' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'}`}
-            disabled={isLoading}
+            onClick={handleDictate}
+            aria-label={isListening ? t('stopVoiceInput') : t('startVoiceInput')}
+            title={isListening ? t('stopVoiceInput') : t('startVoiceInput')}
+            className={`p-3 rounded-xl transition-colors flex items-center justify-center aspect-square disabled:opacity-50 ${isListening && !isVoiceMode ? 'bg-red-500 text-white' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'}`}
+            disabled={isLoading || isLoadingMessages || isVoiceMode}
           >
-            {isListening ? <MicOffIcon className="w-5 h-5" /> : <MicIcon className="w-5 h-5" />}
-          </motion.button>
-          <motion.button
-            whileTap={{ scale: 0.9 }}
-            whileHover={{ scale: 1.05 }}
-            onClick={() => handleSend()}
-            disabled={isLoading || !input.trim()}
-            id="chat-send-button"
-            className="bg-text-secondary hover:bg-text-primary text-white p-3 rounded-xl transition-colors disabled:opacity-50 flex items-center justify-center aspect-square"
-          >
-            <SendIcon className="w-5 h-5" />
+            {isListening && !isVoiceMode ? <MicOffIcon className="w-5 h-5" /> : <MicIcon className="w-5 h-5" />}
           </motion.button>
+          {isLoading ? (
+            <motion.button
+              whileTap={{ scale: 0.9 }}
+              whileHover={{ scale: 1.05 }}
+              onClick={handleStop}
+              aria-label={t('stopGenerating')}
+              title={t('stopGenerating')}
+              className="bg-red-500 hover:bg-red-600 text-white p-3 rounded-xl transition-colors flex items-center justify-center aspect-square"
+            >
+              <StopIcon className="w-5 h-5" />
+            </motion.button>
+          ) : (
+            <motion.button
+              whileTap={{ scale: 0.9 }}
+              whileHover={{ scale: 1.05 }}
+              onClick={() => handleSend()}
+              disabled={(!input.trim() && attachments.length === 0) || isPreparingImage}
+              className="bg-text-secondary hover:bg-text-primary text-white p-3 rounded-xl transition-colors disabled:opacity-50 flex items-center justify-center aspect-square"
+            >
+              <SendIcon className="w-5 h-5" />
+            </motion.button>
+          )}
         </div>
       </div>
     </div>
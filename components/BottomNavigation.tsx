@@ -1,9 +1,9 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ProfileIcon, ChatBubbleIcon, FridgeIcon, UsersIcon } from './icons';
+import { ProfileIcon, ChatBubbleIcon, FridgeIcon, UsersIcon, CalendarIcon } from './icons';
 import { useLanguage } from '../context/LanguageContext';
 
-type Tab = 'cook' | 'chat' | 'community' | 'profile';
+type Tab = 'cook' | 'plan' | 'chat' | 'community' | 'profile';
 
 interface BottomNavigationProps {
     currentTab: Tab;
@@ -15,6 +15,7 @@ const BottomNavigation: React.FC<BottomNavigationProps> = ({ currentTab, onTabCh
 
     const tabs: { id: Tab; icon: React.ElementType; label: string }[] = [
         { id: 'cook', icon: FridgeIcon, label: t('myFridge') || 'Fridge' },
+        { id: 'plan', icon: CalendarIcon, label: t('mealPlan') || 'Plan' },
 
         { id: 'chat', icon: ChatBubbleIcon, label: t('chat') || 'Chat' },
         { id: 'community', icon: UsersIcon, label: t('community') || 'Community' },
@@ -30,7 +31,7 @@ const BottomNavigation: React.FC<BottomNavigationProps> = ({ currentTab, onTabCh
                         <button
                             key={tab.id}
                             onClick={() => onTabChange(tab.id)}
-                            className="relative flex flex-col items-center justify-center w-16 h-14"
+                            className="relative flex flex-col items-center justify-center w-14 h-14"
                         >
                             {isActive && (
                                 <motion.div
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { ChatConversation } from '../types';
+import { CheckIcon, PencilIcon, SearchIcon, XIcon } from './icons';
+import { useLanguage } from '../context/LanguageContext';
+import { getConversationTitle, searchConversations } from '../utils/chatConversations';
+
+interface ChatHistoryListProps {
+    conversations: ChatConversation[];
+    currentConversationId?: string;
+    onSelect: (conversationId: string) => void;
+    onRename: (conversationId: string, title: string) => void;
+    onDelete: (conversationId: string) => void;
+}
+
+// The user's AI Chef conversations, most recent first, with search, rename and delete.
+const ChatHistoryList: React.FC<ChatHistoryListProps> = ({ conversations, currentConversationId, onSelect, onRename, onDelete }) => {
+    const { t, language } = useLanguage();
+    const [searchTerm, setSearchTerm] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingTitle, setEditingTitle] = useState('');
+
+    const results = useMemo(() => searchConversations(conversations, searchTerm), [conversations, searchTerm]);
+
+    const formatDate = (isoDate: string) => {
+        const date = new Date(isoDate);
+        const isToday = date.toDateString() === new Date().toDateString();
+        const locale = language === 'ko' ? 'ko-KR' : 'en-US';
+        return isToday
+            ? date.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' })
+            : date.toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+    };
+
+    const startEditing = (conversation: ChatConversation) => {
+        setEditingId(conversation.id);
+        setEditingTitle(getConversationTitle(conversation));
+    };
+
+    const saveTitle = () => {
+        if (editingId) onRename(editingId, editingTitle);
+        setEditingId(null);
+    };
+
+    if (conversations.length === 0) {
+        return (
+            <div className="text-center py-8">
+                <p className="text-text-secondary">{t('noChatHistory')}</p>
+                <p className="text-sm text-text-secondary mt-2">{t('startChatting')}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mb-6 space-y-2">
+            <h3 className="text-sm font-bold text-text-primary mb-3">{t('chatHistoryList')}</h3>
+            <div className="relative mb-3">
+                <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-secondary" />
+                <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder={t('searchConversations')}
+                    className="w-full bg-surface border border-line-light rounded-lg py-2 pl-9 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+                />
+            </div>
+            {results.length === 0 && (
+                <p className="text-sm text-text-secondary text-center py-4">{t('noConversationsFound')}</p>
+            )}
+            {results.map(conversation => (
+                <div
+                    key={conversation.id}
+                    className={`bg-surface border rounded-lg p-3 ${conversation.id === currentConversationId ? 'border-brand-primary' : 'border-line-light'}`}
+                >
+                    {editingId === conversation.id ? (
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={editingTitle}
+                                onChange={(e) => setEditingTitle(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') saveTitle();
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                autoFocus
+                                className="flex-grow min-w-0 border border-line-light rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+                            />
+                            <button onClick={saveTitle} aria-label={t('save')} className="p-1 text-brand-primary">
+                                <CheckIcon className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => setEditingId(null)} aria-label={t('cancelRename')} className="p-1 text-text-secondary">
+                                <XIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="flex items-start gap-2">
+                            <button onClick={() => onSelect(conversation.id)} className="flex-grow min-w-0 text-left">
+                                <div className={`text-xs font-bold mb-1 ${conversation.recipeName ? 'text-brand-primary' : 'text-text-secondary'}`}>
+                                    {conversation.recipeName ? `🍳 ${conversation.recipeName}` : `💬 ${t('generalChat')}`}
+                                </div>
+                                <div className="text-sm font-bold text-text-primary line-clamp-2">
+                                    {getConversationTitle(conversation) || t('chatHistory')}
+                                </div>
+                                <div className="text-xs text-text-secondary mt-1">
+                                    {formatDate(conversation.updatedAt)} · {conversation.messageCount ?? conversation.messages.length} {t('messages')}
+                                </div>
+                            </button>
+                            <button
+                                onClick={() => startEditing(conversation)}
+                                aria-label={t('renameConversation')}
+                                title={t('renameConversation')}
+                                className="p-1.5 text-text-secondary hover:text-text-primary flex-shrink-0"
+                            >
+                                <PencilIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => {
+                                    if (confirm(t('confirmDeleteConversation'))) onDelete(conversation.id);
+                                }}
+                                aria-label={t('deleteConversation')}
+                                title={t('deleteConversation')}
+                                className="p-1.5 text-text-secondary hover:text-red-500 flex-shrink-0"
+                            >
+                                <XIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ChatHistoryList;
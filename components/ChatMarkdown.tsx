@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { ShoppingListItem } from '../types';
+import { CheckCircleIcon, CircleIcon, ShoppingCartIcon } from './icons';
+import { useLanguage } from '../context/LanguageContext';
+import { getIngredientTranslation } from '../data/ingredients';
+import { MarkdownInline, getListItemIngredientName, parseInlineMarkdown, parseMarkdown } from '../utils/markdown';
+
+interface ChatMarkdownProps {
+    text: string;
+    shoppingList?: ShoppingListItem[];
+    onToggleShoppingListItem?: (itemName: string) => void;
+}
+
+const InlineContent: React.FC<{ nodes: MarkdownInline[] }> = ({ nodes }) => (
+    <>
+        {nodes.map((node, index) => {
+            switch (node.type) {
+                case 'strong':
+                    return <strong key={index} className="font-bold"><InlineContent nodes={node.children} /></strong>;
+                case 'em':
+                    return <em key={index}><InlineContent nodes={node.children} /></em>;
+                case 'code':
+                    return <code key={index} className="px-1 py-0.5 rounded bg-gray-100 text-[0.85em] font-mono">{node.text}</code>;
+                case 'link':
+                    return (
+                        <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-brand-primary underline">
+                            <InlineContent nodes={node.children} />
+                        </a>
+                    );
+                default:
+                    return <React.Fragment key={index}>{node.text}</React.Fragment>;
+            }
+        })}
+    </>
+);
+
+const Inline: React.FC<{ text: string }> = ({ text }) => <InlineContent nodes={parseInlineMarkdown(text)} />;
+
+// Renders an AI Chef reply written in Markdown. Ingredient lists and cooking steps become checklists,
+// and ingredients can be added to the shopping list.
+const ChatMarkdown: React.FC<ChatMarkdownProps> = ({ text, shoppingList = [], onToggleShoppingListItem }) => {
+    const { t, language } = useLanguage();
+    const blocks = useMemo(() => parseMarkdown(text), [text]);
+    const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set());
+
+    const toggleChecked = (key: string) => {
+        setCheckedItems(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    return (
+        <div className="text-sm leading-relaxed space-y-2 break-words">
+            {blocks.map((block, blockIndex) => {
+                switch (block.type) {
+                    case 'heading':
+                        return (
+                            <p key={blockIndex} className={`font-bold text-text-primary ${block.level <= 2 ? 'text-base' : 'text-sm'}`}>
+                                <Inline text={block.text} />
+                            </p>
+                        );
+                    case 'paragraph':
+                        return (
+                            <p key={blockIndex}>
+                                {block.lines.map((line, lineIndex) => (
+                                    <React.Fragment key={lineIndex}>
+                                        {lineIndex > 0 && <br />}
+                                        <Inline text={line} />
+                                    </React.Fragment>
+                                ))}
+                            </p>
+                        );
+                    case 'rule':
+                        return <hr key={blockIndex} className="border-line-light" />;
+                    case 'code':
+                        return (
+                            <pre key={blockIndex} className="p-2 rounded-lg bg-gray-100 text-xs font-mono overflow-x-auto whitespace-pre">{block.text}</pre>
+                        );
+                    case 'table':
+                        return (
+                            <div key={blockIndex} className="overflow-x-auto">
+                                <table className="min-w-full text-xs border border-line-light rounded-lg">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            {block.header.map((cell, cellIndex) => (
+                                                <th key={cellIndex} className="px-2 py-1 text-left font-bold border-b border-line-light"><Inline text={cell} /></th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {block.rows.map((row, rowIndex) => (
+                                            <tr key={rowIndex} className="border-b border-line-light last:border-0">
+                                                {row.map((cell, cellIndex) => (
+                                                    <td key={cellIndex} className="px-2 py-1 align-top"><Inline text={cell} /></td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        );
+                    case 'list':
+                        if (block.kind === 'plain') {
+                            const ListTag = block.ordered ? 'ol' : 'ul';
+                            return (
+                                <ListTag key={blockIndex} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                                    {block.items.map((item, itemIndex) => <li key={itemIndex}><Inline text={item} /></li>)}
+                                </ListTag>
+                            );
+                        }
+                        return (
+                            <ul key={blockIndex} className="space-y-1">
+                                {block.items.map((item, itemIndex) => {
+                                    const key = `${blockIndex}-${itemIndex}`;
+                                    const isChecked = checkedItems.has(key);
+                                    const ingredientName = block.kind === 'ingredients' ? getListItemIngredientName(item) : null;
+                                    const isInShoppingList = !!ingredientName && shoppingList.some(listItem => listItem.name === ingredientName);
+
+                                    return (
+                                        <li key={key} className="flex items-start gap-2">
+                                            <button
+                                                onClick={() => toggleChecked(key)}
+                                                className="mt-0.5 flex-shrink-0 text-brand-primary"
+                                                aria-pressed={isChecked}
+                                            >
+                                                {isChecked ? <CheckCircleIcon className="w-4 h-4" isFilled /> : <CircleIcon className="w-4 h-4 text-line-dark" />}
+                                            </button>
+                                            <span className={`flex-grow ${isChecked ? 'line-through text-text-secondary' : ''}`}>
+                                                {block.kind === 'steps' && <span className="font-bold mr-1">{itemIndex + 1}.</span>}
+                                                <Inline text={item} />
+                                            </span>
+                                            {ingredientName && onToggleShoppingListItem && (
+                                                <button
+                                                    onClick={() => onToggleShoppingListItem(ingredientName)}
+                                                    className={`flex-shrink-0 p-1 rounded-full transition-colors ${isInShoppingList ? 'text-text-secondary bg-gray-100' : 'text-brand-primary bg-brand-light/50 hover:bg-brand-light'}`}
+                                                    title={isInShoppingList ? t('addedToShoppingList') : t('addToShoppingList')}
+                                                    aria-label={`${isInShoppingList ? t('addedToShoppingList') : t('addToShoppingList')}: ${getIngredientTranslation(ingredientName, language)}`}
+                                                >
+                                                    <ShoppingCartIcon className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        );
+                }
+            })}
+        </div>
+    );
+};
+
+export default ChatMarkdown;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ChefToolRequest } from '../types';
+import { BookmarkIcon, CheckIcon, FridgeIcon, ShoppingCartIcon, SparklesIcon, XIcon } from './icons';
+import { useLanguage } from '../context/LanguageContext';
+import { getIngredientTranslation } from '../data/ingredients';
+
+interface ChefToolCardProps {
+    request: ChefToolRequest;
+    onConfirm: () => void;
+    onDismiss: () => void;
+}
+
+// An action the AI Chef proposed, shown under its reply. Nothing changes until the user confirms it.
+const ChefToolCard: React.FC<ChefToolCardProps> = ({ request, onConfirm, onDismiss }) => {
+    const { t, language } = useLanguage();
+    const translate = (name: string) => getIngredientTranslation(name, language);
+
+    const getSummary = (): { icon: React.ReactNode; title: string; detail: string } => {
+        switch (request.name) {
+            case 'addToShoppingList':
+                return {
+                    icon: <ShoppingCartIcon className="w-4 h-4" />,
+                    title: t('chefToolAddToShoppingList'),
+                    detail: (request.args.items ?? []).map(translate).join(', '),
+                };
+            case 'addPantryIngredient':
+                return {
+                    icon: <FridgeIcon className="w-4 h-4" />,
+                    title: t('chefToolAddPantryIngredient'),
+                    detail: (request.args.items ?? [])
+                        .map(item => [translate(item.name), item.amount, item.unit].filter(part => part !== undefined && part !== '').join(' '))
+                        .join(', '),
+                };
+            case 'removePantryIngredient':
+                return {
+                    icon: <FridgeIcon className="w-4 h-4" />,
+                    title: t('chefToolRemovePantryIngredient'),
+                    detail: (request.args.names ?? []).map(translate).join(', '),
+                };
+            case 'saveRecipe':
+                return {
+                    icon: <BookmarkIcon className="w-4 h-4" />,
+                    title: t('chefToolSaveRecipe'),
+                    detail: request.args.recipeName,
+                };
+            case 'suggestRecipes':
+                return {
+                    icon: <SparklesIcon className="w-4 h-4" />,
+                    title: t('chefToolSuggestRecipes'),
+                    detail: (request.args.priorityIngredients ?? []).map(translate).join(', '),
+                };
+        }
+    };
+
+    const { icon, title, detail } = getSummary();
+
+    return (
+        <div className="mt-2 p-3 rounded-lg border border-brand-primary/30 bg-brand-light/30">
+            <div className="flex items-start gap-2">
+                <span className="mt-0.5 text-brand-primary flex-shrink-0">{icon}</span>
+                <div className="flex-grow min-w-0">
+                    <p className="text-sm font-bold text-text-primary">{title}</p>
+                    {detail && <p className="text-xs text-text-secondary break-words">{detail}</p>}
+                </div>
+            </div>
+            {request.status === 'pending' ? (
+                <div className="flex gap-2 mt-2">
+                    <button
+                        onClick={onConfirm}
+                        className="flex-1 flex items-center justify-center gap-1 py-1.5 text-sm font-bold text-white bg-brand-primary rounded-lg hover:bg-brand-dark transition-colors"
+                    >
+                        <CheckIcon className="w-4 h-4" />
+                        {t('chefToolConfirm')}
+                    </button>
+                    <button
+                        onClick={onDismiss}
+                        className="flex-1 flex items-center justify-center gap-1 py-1.5 text-sm font-bold text-text-secondary bg-surface border border-line-light rounded-lg hover:bg-gray-100 transition-colors"
+                    >
+                        <XIcon className="w-4 h-4" />
+                        {t('chefToolDismiss')}
+                    </button>
+                </div>
+            ) : (
+                <p className={`mt-2 text-xs font-bold ${request.status === 'confirmed' ? 'text-brand-primary' : 'text-text-secondary'}`}>
+                    {request.status === 'confirmed' ? t('chefToolConfirmed') : t('chefToolDismissed')}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ChefToolCard;
@@ -2,8 +2,10 @@ import React, { useEffect, useMemo, useState } from 'react';
 import MainHeader from './MainHeader';
 import ImageWithFallback from './ImageWithFallback';
 import { useLanguage } from '../context/LanguageContext';
-import { CommunityPost, Recipe, User } from '../types';
+import { CommunityPost, Recipe, UnitSystem, User } from '../types';
 import { HeartIcon, MessageCircleIcon, SendIcon, UsersIcon, XIcon } from './icons';
+import { getStepText } from '../utils/recipeSteps';
+import { convertIngredientLine, convertTemperaturesInText } from '../utils/unitConversion';
 
 interface CommunityProps {
   currentUser: User | null;
@@ -14,6 +16,7 @@ interface CommunityProps {
   onToggleLike: (postId: string) => void;
   onAddComment: (postId: string, content: string) => void;
   onDeletePost: (postId: string) => void;
+  unitSystem: UnitSystem;
 }
 
 const Community: React.FC<CommunityProps> = ({
@@ -24,9 +27,10 @@ const Community: React.FC<CommunityProps> = ({
   onCreatePost,
   onToggleLike,
   onAddComment,
-  onDeletePost
+  onDeletePost,
+  unitSystem
 }) => {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const [selectedRecipeName, setSelectedRecipeName] = useState<string>(savedRecipes[0]?.recipeName || '');
   const [note, setNote] = useState('');
   const [commentInputs, setCommentInputs] = useState<Record<string, string>>({});
@@ -112,7 +116,7 @@ const Community: React.FC<CommunityProps> = ({
           <p className="font-semibold text-text-primary mb-1">{t('ingredients')}</p>
           <ul className="list-disc list-inside text-sm text-text-secondary space-y-1">
             {recipe.ingredients.map((item, index) => (
-              <li key={`${recipe.recipeName}-ingredient-${index}`}>{item}</li>
+              <li key={`${recipe.recipeName}-ingredient-${index}`}>{convertIngredientLine(item, unitSystem, language)}</li>
             ))}
           </ul>
         </div>
@@ -122,7 +126,7 @@ const Community: React.FC<CommunityProps> = ({
           {recipe.instructions.length > 0 ? (
             <ol className="list-decimal list-inside text-sm text-text-secondary space-y-1">
               {recipe.instructions.map((step, index) => (
-                <li key={`${recipe.recipeName}-instruction-${index}`}>{step}</li>
+                <li key={`${recipe.recipeName}-instruction-${index}`}>{convertTemperaturesInText(getStepText(step), unitSystem)}</li>
               ))}
             </ol>
           ) : (
@@ -0,0 +1,384 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AnimatePresence, motion, PanInfo } from 'framer-motion';
+import { ChevronLeftIcon, ChevronRightIcon, ClockIcon, MicIcon, PauseIcon, PlayIcon, XIcon } from './icons';
+import { InstructionStep, UnitSystem } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import InstructionStepDetails from './InstructionStepDetails';
+import { useSpeechRecognition, useSpeechSynthesis } from '../hooks/useSpeech';
+import { useWakeLock } from '../hooks/useWakeLock';
+import { CookModeCommand, parseCookModeCommand } from '../utils/speech';
+import {
+    CookTimer,
+    DetectedDuration,
+    createCookTimer,
+    detectDurations,
+    formatTimer,
+    getRemainingSeconds,
+    pauseCookTimer,
+    resumeCookTimer,
+} from '../utils/cookTimers';
+import { DEFAULT_UNIT_SYSTEM } from '../utils/unitConversion';
+
+interface CookModeProps {
+    recipeName: string;
+    steps: InstructionStep[];
+    ingredients: string[];
+    unitSystem?: UnitSystem;
+    onClose: () => void;
+    onFinish?: () => void;
+}
+
+const SWIPE_THRESHOLD = 80;
+// `direction` is 1 when moving forward, so the next step slides in from the right
+const stepVariants = {
+    enter: (direction: number) => ({ x: direction * 300, opacity: 0 }),
+    center: { x: 0, opacity: 1 },
+    exit: (direction: number) => ({ x: direction * -300, opacity: 0 }),
+};
+// Listening rounds that end this quickly without speech mean the microphone isn't really listening
+const QUICK_SILENCE_MS = 1500;
+const MAX_QUICK_SILENCES = 3;
+
+// Three short beeps. The AudioContext is created on a tap so browsers let it play later.
+const playTimerAlarm = (context: AudioContext) => {
+    [0, 0.4, 0.8].forEach(offset => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.frequency.value = 880;
+        gain.gain.setValueAtTime(0.3, context.currentTime + offset);
+        gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + offset + 0.3);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(context.currentTime + offset);
+        oscillator.stop(context.currentTime + offset + 0.3);
+    });
+};
+
+// Full-screen, one-step-at-a-time view of a recipe's instructions for use at the stove.
+const CookMode: React.FC<CookModeProps> = ({ recipeName, steps, ingredients, unitSystem = DEFAULT_UNIT_SYSTEM, onClose, onFinish }) => {
+    const { t, language } = useLanguage();
+    const [stepIndex, setStepIndex] = useState(0);
+    const [direction, setDirection] = useState(1);
+    const [timers, setTimers] = useState<CookTimer[]>([]);
+    const [now, setNow] = useState(() => Date.now());
+    const [isVoiceControlOn, setIsVoiceControlOn] = useState(false);
+    const [voiceError, setVoiceError] = useState<string | null>(null);
+
+    const { isSupported: isRecognitionSupported, isListening, listen, stop: stopListening } = useSpeechRecognition(language);
+    const { speak, cancel: cancelSpeech } = useSpeechSynthesis(language);
+
+    const stepIndexRef = useRef(stepIndex);
+    const voiceControlRef = useRef(false);
+    const audioContextRef = useRef<AudioContext | null>(null);
+    const handleCommandRef = useRef<(command: CookModeCommand) => Promise<void>>(async () => {});
+
+    useWakeLock(true);
+
+    // Times written in the step make the clearest labels; the step's duration covers the rest
+    const durations = useMemo(() => steps.map((step): DetectedDuration[] => {
+        const detected = detectDurations(step.text);
+        if (detected.length > 0 || !step.durationMinutes) return detected;
+        return [{ text: t('stepDurationMinutes', { count: step.durationMinutes }), seconds: Math.round(step.durationMinutes * 60) }];
+    }), [steps, language]);
+    const isLastStep = stepIndex === steps.length - 1;
+    const hasRunningTimers = timers.some(timer => !timer.isDone);
+
+    const goToStep = useCallback((index: number) => {
+        const nextIndex = Math.max(0, Math.min(steps.length - 1, index));
+        setDirection(nextIndex >= stepIndexRef.current ? 1 : -1);
+        stepIndexRef.current = nextIndex;
+        setStepIndex(nextIndex);
+        return nextIndex;
+    }, [steps.length]);
+
+    const requestClose = useCallback(() => {
+        if (hasRunningTimers && !confirm(t('cookModeConfirmExit'))) return;
+        voiceControlRef.current = false;
+        onClose();
+    }, [hasRunningTimers, onClose, t]);
+
+    const handleFinish = () => {
+        if (hasRunningTimers && !confirm(t('cookModeConfirmExit'))) return;
+        voiceControlRef.current = false;
+        (onFinish ?? onClose)();
+    };
+
+    const getAudioContext = () => {
+        if (!audioContextRef.current && typeof AudioContext !== 'undefined') {
+            audioContextRef.current = new AudioContext();
+        }
+        return audioContextRef.current;
+    };
+
+    const startTimer = (duration: DetectedDuration, index: number) => {
+        getAudioContext()?.resume();
+        setTimers(prev => [...prev, createCookTimer(duration, index)]);
+        setNow(Date.now());
+    };
+
+    const toggleTimer = (timer: CookTimer) => {
+        setTimers(prev => prev.map(item => {
+            if (item.id !== timer.id) return item;
+            return item.endsAt === null ? resumeCookTimer(item) : pauseCookTimer(item);
+        }));
+    };
+
+    const removeTimer = (timerId: string) => {
+        setTimers(prev => prev.filter(timer => timer.id !== timerId));
+    };
+
+    // Tick once a second while any timer is counting down
+    useEffect(() => {
+        if (!timers.some(timer => timer.endsAt !== null && !timer.isDone)) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [timers]);
+
+    // Ring for timers that have run out, whichever step is on screen
+    useEffect(() => {
+        const finishedIds = new Set(timers
+            .filter(timer => !timer.isDone && timer.endsAt !== null && timer.endsAt <= now)
+            .map(timer => timer.id));
+        if (finishedIds.size === 0) return;
+
+        setTimers(prev => prev.map(timer => (finishedIds.has(timer.id) ? { ...timer, isDone: true } : timer)));
+        const audioContext = audioContextRef.current;
+        if (audioContext) playTimerAlarm(audioContext);
+        navigator.vibrate?.([300, 150, 300, 150, 300]);
+    }, [now, timers]);
+
+    useEffect(() => () => {
+        voiceControlRef.current = false;
+        audioContextRef.current?.close();
+    }, []);
+
+    const readStep = useCallback((index: number) => {
+        return speak(`${t('cookModeStep', { current: index + 1, total: steps.length })}. ${steps[index].text}`);
+    }, [speak, steps, t]);
+
+    handleCommandRef.current = async (command: CookModeCommand) => {
+        switch (command) {
+            case 'next':
+                if (stepIndexRef.current === steps.length - 1) return;
+                await readStep(goToStep(stepIndexRef.current + 1));
+                return;
+            case 'previous':
+                await readStep(goToStep(stepIndexRef.current - 1));
+                return;
+            case 'repeat':
+                await readStep(stepIndexRef.current);
+                return;
+            case 'startTimer': {
+                const [duration] = durations[stepIndexRef.current];
+                if (duration) startTimer(duration, stepIndexRef.current);
+                return;
+            }
+            case 'exit':
+                requestClose();
+                return;
+        }
+    };
+
+    // Listens for one command after another until voice control is switched off
+    const runVoiceControl = async () => {
+        let quickSilences = 0;
+        while (voiceControlRef.current) {
+            const startedAt = Date.now();
+            let transcript: string;
+            try {
+                transcript = await listen();
+            } catch (error) {
+                console.error('Cook Mode voice control failed', error);
+                setVoiceError(t('voiceInputFailed'));
+                break;
+            }
+            if (!voiceControlRef.current) break;
+
+            if (!transcript) {
+                quickSilences = Date.now() - startedAt < QUICK_SILENCE_MS ? quickSilences + 1 : 0;
+                if (quickSilences >= MAX_QUICK_SILENCES) break;
+                continue;
+            }
+            quickSilences = 0;
+            const command = parseCookModeCommand(transcript, language);
+            if (command) await handleCommandRef.current(command);
+        }
+        voiceControlRef.current = false;
+        setIsVoiceControlOn(false);
+    };
+
+    const toggleVoiceControl = () => {
+        if (isVoiceControlOn) {
+            voiceControlRef.current = false;
+            setIsVoiceControlOn(false);
+            stopListening();
+            cancelSpeech();
+            return;
+        }
+        getAudioContext()?.resume();
+        setVoiceError(null);
+        voiceControlRef.current = true;
+        setIsVoiceControlOn(true);
+        runVoiceControl();
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+            if (event.key === 'ArrowRight' || event.key === 'PageDown') {
+                event.preventDefault();
+                goToStep(stepIndexRef.current + 1);
+            } else if (event.key === 'ArrowLeft' || event.key === 'PageUp') {
+                event.preventDefault();
+                goToStep(stepIndexRef.current - 1);
+            } else if (event.key === 'Escape') {
+                requestClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [goToStep, requestClose]);
+
+    const handleDragEnd = (_event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
+        if (info.offset.x < -SWIPE_THRESHOLD) goToStep(stepIndexRef.current + 1);
+        else if (info.offset.x > SWIPE_THRESHOLD) goToStep(stepIndexRef.current - 1);
+    };
+
+    const ringingTimers = timers.filter(timer => timer.isDone);
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-surface flex flex-col font-sans">
+            <div className="flex items-center justify-between gap-4 px-5 pt-5 pb-3">
+                <div className="min-w-0">
+                    <p className="text-xs font-bold text-brand-primary">{t('cookModeStep', { current: stepIndex + 1, total: steps.length })}</p>
+                    <h2 className="text-lg font-bold text-text-primary truncate">{recipeName}</h2>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    {isRecognitionSupported && (
+                        <button
+                            onClick={toggleVoiceControl}
+                            aria-pressed={isVoiceControlOn}
+                            title={t('cookModeVoiceControl')}
+                            className={`p-2 rounded-full transition-colors ${isVoiceControlOn ? 'bg-brand-primary text-white' : 'bg-gray-100 text-text-secondary hover:text-text-primary'} ${isListening ? 'animate-pulse' : ''}`}
+                        >
+                            <MicIcon className="w-5 h-5" />
+                        </button>
+                    )}
+                    <button onClick={requestClose} aria-label={t('cookModeExit')} title={t('cookModeExit')} className="p-2 text-text-secondary hover:text-text-primary">
+                        <XIcon className="w-6 h-6" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="h-1 bg-line-light mx-5 rounded-full overflow-hidden">
+                <div className="h-full bg-brand-primary transition-all duration-300" style={{ width: `${((stepIndex + 1) / steps.length) * 100}%` }} />
+            </div>
+
+            <p className={`px-5 pt-3 text-sm ${voiceError ? 'text-red-500' : 'text-text-secondary'}`} aria-live="polite">
+                {voiceError ?? (isVoiceControlOn ? t('cookModeVoiceHint') : t('cookModeSwipeHint'))}
+            </p>
+
+            {ringingTimers.length > 0 && (
+                <div className="mx-5 mt-3 space-y-2" role="alert">
+                    {ringingTimers.map(timer => (
+                        <div key={timer.id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-red-500 text-white animate-pulse">
+                            <button onClick={() => goToStep(timer.stepIndex)} className="text-left text-sm font-bold">
+                                ⏰ {t('cookModeTimerAlert', { step: timer.stepIndex + 1, duration: timer.label })}
+                            </button>
+                            <button onClick={() => removeTimer(timer.id)} aria-label={t('cookModeRemoveTimer')} className="p-1 flex-shrink-0">
+                                <XIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex-grow relative overflow-hidden">
+                <AnimatePresence initial={false} custom={direction} mode="popLayout">
+                    <motion.div
+                        key={stepIndex}
+                        custom={direction}
+                        variants={stepVariants}
+                        initial="enter"
+                        animate="center"
+                        exit="exit"
+                        transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+                        drag="x"
+                        dragConstraints={{ left: 0, right: 0 }}
+                        dragElastic={0.4}
+                        onDragEnd={handleDragEnd}
+                        className="absolute inset-0 overflow-y-auto custom-scrollbar px-6 py-8 flex flex-col justify-center select-none touch-pan-y"
+                    >
+                        <p className="text-2xl sm:text-3xl font-semibold text-text-primary leading-relaxed">{steps[stepIndex].text}</p>
+                        <InstructionStepDetails step={steps[stepIndex]} ingredients={ingredients} unitSystem={unitSystem} size="lg" />
+                        {durations[stepIndex].length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-8">
+                                {durations[stepIndex].map((duration, index) => {
+                                    const isRunning = timers.some(timer => !timer.isDone && timer.stepIndex === stepIndex && timer.label === duration.text);
+                                    return (
+                                        <button
+                                            key={index}
+                                            onClick={() => startTimer(duration, stepIndex)}
+                                            disabled={isRunning}
+                                            className="flex items-center gap-2 px-4 py-3 rounded-xl font-bold bg-brand-light/50 text-brand-primary hover:bg-brand-light disabled:opacity-60 transition-colors"
+                                        >
+                                            <ClockIcon className="w-5 h-5" />
+                                            {isRunning ? t('cookModeTimerRunning', { duration: duration.text }) : t('cookModeStartTimer', { duration: duration.text })}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </motion.div>
+                </AnimatePresence>
+            </div>
+
+            {timers.some(timer => !timer.isDone) && (
+                <div className="px-5 pb-2">
+                    <h3 className="text-xs font-bold text-text-secondary mb-2">{t('cookModeTimers')}</h3>
+                    <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+                        {timers.filter(timer => !timer.isDone).map(timer => (
+                            <div key={timer.id} className="flex items-center gap-2 pl-3 pr-1 py-1.5 rounded-xl border border-line-light bg-surface flex-shrink-0">
+                                <button onClick={() => goToStep(timer.stepIndex)} className="text-left">
+                                    <span className="block text-[11px] text-text-secondary">{t('cookModeTimerStep', { step: timer.stepIndex + 1 })} · {timer.label}</span>
+                                    <span className={`block text-lg font-bold tabular-nums ${timer.endsAt === null ? 'text-text-secondary' : 'text-text-primary'}`}>
+                                        {formatTimer(getRemainingSeconds(timer, now))}
+                                    </span>
+                                </button>
+                                <button
+                                    onClick={() => toggleTimer(timer)}
+                                    aria-label={timer.endsAt === null ? t('cookModeResumeTimer') : t('cookModePauseTimer')}
+                                    className="p-2 text-brand-primary"
+                                >
+                                    {timer.endsAt === null ? <PlayIcon className="w-4 h-4" /> : <PauseIcon className="w-4 h-4" />}
+                                </button>
+                                <button onClick={() => removeTimer(timer.id)} aria-label={t('cookModeRemoveTimer')} className="p-2 text-text-secondary hover:text-red-500">
+                                    <XIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="flex items-center gap-3 px-5 pt-2 pb-6">
+                <button
+                    onClick={() => goToStep(stepIndex - 1)}
+                    disabled={stepIndex === 0}
+                    className="flex items-center justify-center gap-1 px-5 py-4 rounded-xl font-bold bg-gray-100 text-text-primary disabled:opacity-40 transition-colors"
+                >
+                    <ChevronLeftIcon className="w-5 h-5" />
+                    {t('cookModePrevious')}
+                </button>
+                <button
+                    onClick={() => (isLastStep ? handleFinish() : goToStep(stepIndex + 1))}
+                    className="flex-grow flex items-center justify-center gap-1 py-4 rounded-xl font-bold bg-brand-primary text-white hover:bg-brand-dark transition-colors"
+                >
+                    {isLastStep ? t('cookModeFinish') : t('cookModeNext')}
+                    {!isLastStep && <ChevronRightIcon className="w-5 h-5" />}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CookMode;
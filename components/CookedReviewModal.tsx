@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Ingredient, Quantity, Recipe } from '../types';
+import { XIcon, CheckCircleIcon, CircleIcon } from './icons';
+import { useLanguage } from '../context/LanguageContext';
+import { getIngredientEmoji, getIngredientTranslation } from '../data/ingredients';
+import { PantryDeduction, planPantryDeductions } from '../utils/pantry';
+import { createQuantity, formatAmount, formatQuantity } from '../utils/quantity';
+import { SERVINGS_EATEN_STEP } from '../utils/foodDiary';
+import QuantityInput from './QuantityInput';
+
+interface CookedReviewModalProps {
+    recipe: Recipe;
+    pantry: Ingredient[];
+    onConfirm: (deductions: PantryDeduction[], servingsEaten: number) => void;
+    onClose: () => void;
+}
+
+// Review sheet shown after "I cooked this": lists the pantry entries the recipe used and what's left of each.
+const CookedReviewModal: React.FC<CookedReviewModalProps> = ({ recipe, pantry, onConfirm, onClose }) => {
+    const { t, language } = useLanguage();
+    const [deductions, setDeductions] = useState<PantryDeduction[]>(() => planPantryDeductions(recipe.ingredients, pantry));
+    const [servingsEaten, setServingsEaten] = useState(1);
+
+    const updateDeduction = (ingredientName: string, changes: Partial<PantryDeduction>) => {
+        setDeductions(prev => prev.map(d => d.ingredientName === ingredientName ? { ...d, ...changes } : d));
+    };
+
+    const handleRemainingChange = (ingredientName: string, remaining: Quantity) => {
+        updateDeduction(ingredientName, { remaining, selected: true });
+    };
+
+    const handleConfirm = () => {
+        onConfirm(deductions.filter(d => d.selected), servingsEaten);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-end sm:items-center z-[60] font-sans">
+            <motion.div
+                initial={{ y: '100%' }}
+                animate={{ y: 0 }}
+                exit={{ y: '100%' }}
+                transition={{ type: "spring", damping: 25, stiffness: 300 }}
+                className="bg-surface rounded-t-2xl sm:rounded-2xl shadow-lg w-full max-w-lg max-h-[85vh] flex flex-col"
+            >
+                <div className="p-6 pb-3 flex justify-between items-start gap-4 border-b border-line-light">
+                    <div>
+                        <h2 className="text-xl font-bold text-text-primary">{t('cookedReviewTitle')}</h2>
+                        <p className="text-sm text-text-secondary mt-1">{t('cookedReviewSubtitle')}</p>
+                    </div>
+                    <button onClick={onClose} className="text-text-secondary hover:text-text-primary">
+                        <XIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-grow custom-scrollbar p-6 space-y-4">
+                    {deductions.length === 0 ? (
+                        <p className="text-center text-text-secondary py-6">{t('cookedNoMatches')}</p>
+                    ) : (
+                        deductions.map(d => {
+                            const pantryItem = pantry.find(ing => ing.name === d.ingredientName);
+                            return (
+                                <div key={d.ingredientName} className={`rounded-xl border p-3 transition-colors ${d.selected ? 'border-brand-primary/40 bg-brand-light/20' : 'border-line-light'}`}>
+                                    <div
+                                        onClick={() => updateDeduction(d.ingredientName, { selected: !d.selected })}
+                                        className="flex items-start gap-3 cursor-pointer select-none"
+                                    >
+                                        <div className={`mt-0.5 ${d.selected ? 'text-brand-primary' : 'text-gray-300'}`}>
+                                            {d.selected ? <CheckCircleIcon className="w-6 h-6" isFilled /> : <CircleIcon className="w-6 h-6" />}
+                                        </div>
+                                        <div className="flex-grow">
+                                            <p className="font-bold text-text-primary">
+                                                {getIngredientEmoji(d.ingredientName)} {getIngredientTranslation(d.ingredientName, language)}
+                                                {pantryItem && pantryItem.quantity.amount !== null && (
+                                                    <span className="ml-2 text-xs font-normal text-text-secondary">
+                                                        {t('cookedHave', { quantity: formatQuantity(pantryItem.quantity, language) })}
+                                                    </span>
+                                                )}
+                                            </p>
+                                            <p className="text-xs text-text-secondary">{t('cookedRecipeUses', { line: d.recipeLine })}</p>
+                                        </div>
+                                    </div>
+                                    <div className="mt-3 flex items-center gap-2">
+                                        <span className="text-xs font-bold text-text-secondary w-12 flex-shrink-0">{t('cookedRemaining')}</span>
+                                        <div className="flex-grow">
+                                            <QuantityInput
+                                                value={d.remaining}
+                                                onChange={(q) => handleRemainingChange(d.ingredientName, q)}
+                                            />
+                                        </div>
+                                        <button
+                                            onClick={() => handleRemainingChange(d.ingredientName, createQuantity(0, d.remaining.unit))}
+                                            className="text-xs font-bold text-brand-primary hover:underline flex-shrink-0"
+                                        >
+                                            {t('cookedUseAll')}
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+
+                <div className="p-6 pt-3 border-t border-line-light space-y-3">
+                    {/* Logged to the food diary */}
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <p className="font-bold text-text-primary">{t('servingsEaten')}</p>
+                            {recipe.calories > 0 && (
+                                <p className="text-xs text-text-secondary">{t('caloriesAmount', { calories: Math.round(recipe.calories * servingsEaten).toLocaleString() })}</p>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-3 flex-shrink-0">
+                            <button
+                                onClick={() => setServingsEaten(value => Math.max(0, value - SERVINGS_EATEN_STEP))}
+                                disabled={servingsEaten <= 0}
+                                aria-label={t('decreaseServings')}
+                                className="w-9 h-9 rounded-full bg-surface border border-line-light font-bold text-xl text-text-primary disabled:opacity-40"
+                            >
+                                -
+                            </button>
+                            <span className="w-8 text-center text-lg font-bold text-text-primary">{formatAmount(servingsEaten)}</span>
+                            <button
+                                onClick={() => setServingsEaten(value => Math.min(recipe.servings || 1, value + SERVINGS_EATEN_STEP))}
+                                disabled={servingsEaten >= (recipe.servings || 1)}
+                                aria-label={t('increaseServings')}
+                                className="w-9 h-9 rounded-full bg-surface border border-line-light font-bold text-xl text-text-primary disabled:opacity-40"
+                            >
+                                +
+                            </button>
+                        </div>
+                    </div>
+                    <button onClick={handleConfirm} className="w-full bg-brand-primary text-white font-bold py-3 px-4 rounded-xl">
+                        {t('cookedConfirm')}
+                    </button>
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default CookedReviewModal;
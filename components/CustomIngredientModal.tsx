@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { CustomIngredient } from '../types';
+import { XIcon } from './icons';
+import { useLanguage } from '../context/LanguageContext';
+import { INGREDIENT_CATEGORIES, IngredientCategory, findIngredientEnglishName } from '../data/ingredients';
+import { hasHangul } from '../utils/text';
+
+interface CustomIngredientModalProps {
+    initialName?: string;
+    onSave: (ingredient: CustomIngredient) => void;
+    onClose: () => void;
+}
+
+const CATEGORY_EMOJI: Record<IngredientCategory, string> = {
+    vegetables: '🥬',
+    fruits: '🍎',
+    meat: '🥩',
+    seafood: '🐟',
+    grainsCarbs: '🍚',
+    dairy: '🧀',
+    seasoning: '🧂',
+    nutsSeeds: '🥜',
+    others: '🥘',
+};
+
+// Form for adding an ingredient that isn't in the built-in catalog.
+const CustomIngredientModal: React.FC<CustomIngredientModalProps> = ({ initialName = '', onSave, onClose }) => {
+    const { t } = useLanguage();
+    const [enName, setEnName] = useState(hasHangul(initialName) ? '' : initialName.trim());
+    const [koName, setKoName] = useState(hasHangul(initialName) ? initialName.trim() : '');
+    const [category, setCategory] = useState<IngredientCategory>('others');
+    const [emoji, setEmoji] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSave = () => {
+        const en = enName.trim() || koName.trim();
+        const ko = koName.trim() || en;
+        if (!en) {
+            setError(t('customIngredientNameRequired'));
+            return;
+        }
+        if (findIngredientEnglishName(en) || findIngredientEnglishName(ko)) {
+            setError(t('customIngredientExists'));
+            return;
+        }
+        onSave({ en, ko, category, emoji: emoji.trim() || CATEGORY_EMOJI[category] });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-[60] p-4 font-sans">
+            <div className="bg-surface rounded-2xl shadow-lg w-full max-w-sm p-6 relative">
+                <button onClick={onClose} className="absolute top-4 right-4 text-text-secondary hover:text-text-primary">
+                    <XIcon className="w-6 h-6" />
+                </button>
+                <h2 className="text-xl font-bold text-text-primary mb-6 text-center">{t('customIngredientTitle')}</h2>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className="text-sm font-bold text-text-secondary block mb-1">{t('customIngredientEnName')}</label>
+                        <input
+                            type="text"
+                            value={enName}
+                            onChange={(e) => { setEnName(e.target.value); setError(null); }}
+                            className="w-full bg-background border border-line-light rounded-xl p-3 focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-sm font-bold text-text-secondary block mb-1">{t('customIngredientKoName')}</label>
+                        <input
+                            type="text"
+                            value={koName}
+                            onChange={(e) => { setKoName(e.target.value); setError(null); }}
+                            className="w-full bg-background border border-line-light rounded-xl p-3 focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+                        />
+                    </div>
+                    <div className="flex gap-2">
+                        <div className="flex-grow">
+                            <label className="text-sm font-bold text-text-secondary block mb-1">{t('category')}</label>
+                            <select
+                                value={category}
+                                onChange={(e) => setCategory(e.target.value as IngredientCategory)}
+                                className="w-full bg-background border border-line-light rounded-xl p-3 focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+                            >
+                                {INGREDIENT_CATEGORIES.map(cat => (
+                                    <option key={cat} value={cat}>{t(cat as any)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="w-20">
+                            <label className="text-sm font-bold text-text-secondary block mb-1">{t('customIngredientEmoji')}</label>
+                            <input
+                                type="text"
+                                value={emoji}
+                                onChange={(e) => setEmoji(e.target.value)}
+                                placeholder={CATEGORY_EMOJI[category]}
+                                className="w-full bg-background border border-line-light rounded-xl p-3 text-center focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+                            />
+                        </div>
+                    </div>
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+                </div>
+
+                <div className="mt-6">
+                    <button onClick={handleSave} className="w-full bg-brand-primary text-white font-bold py-3 px-4 rounded-xl">
+                        {t('save')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CustomIngredientModal;
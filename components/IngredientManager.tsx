@@ -1,33 +1,61 @@
 import React, { useState, useRef } from 'react';
 import { PlusIcon, SearchIcon, XIcon, CameraIcon, SpatulaIcon, ChefHatIcon } from './icons';
-import { Ingredient } from '../types';
+import { CustomIngredient, Ingredient } from '../types';
 import { useLanguage } from '../context/LanguageContext';
-import { getIngredientCategory, getIngredientTranslation, INGREDIENT_CATEGORIES, getIngredientEmoji, ALL_INGREDIENTS, findIngredientEnglishName } from '../data/ingredients';
+import { getIngredientCategory, getIngredientTranslation, INGREDIENT_CATEGORIES, getIngredientEmoji, IngredientInfo } from '../data/ingredients';
+import { searchIngredients } from '../utils/ingredientSearch';
 import MainHeader from './MainHeader';
 import Spinner from './Spinner';
+import PantryItemModal from './PantryItemModal';
+import ScanReviewModal from './ScanReviewModal';
+import CustomIngredientModal from './CustomIngredientModal';
+import { formatQuantity } from '../utils/quantity';
+import { compareByExpiry, createPantryIngredient, getDaysUntilExpiry, getExpiringIngredients, getExpiryUrgency } from '../utils/pantry';
+import { PreparedImage, fitImagesForUpload, prepareImageForUpload } from '../utils/image';
+import { ScanMode, ScanReviewItem, addScannedItemsToPantry, createReviewItemsFromFridge, createReviewItemsFromReceipt, updatePantryFromFridgePhoto } from '../utils/scan';
 
 interface IngredientManagerProps {
   ingredients: Ingredient[];
   setIngredients: React.Dispatch<React.SetStateAction<Ingredient[]>>;
+  onAddCustomIngredient: (ingredient: CustomIngredient) => void;
   onBack?: () => void;
   onGenerateRecipe?: () => void;
   onLogoClick?: () => void;
 }
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve((reader.result as string).split(',')[1]);
-    reader.onerror = error => reject(error);
-  });
+// Long receipts are photographed in parts; more pages than this would make the request too large.
+const MAX_RECEIPT_PAGES = 6;
+
+const ExpiryBadge: React.FC<{ ingredient: Ingredient }> = ({ ingredient }) => {
+  const { t } = useLanguage();
+  const urgency = getExpiryUrgency(ingredient);
+  if (urgency === 'fresh' || urgency === 'unknown') return null;
+
+  const styles = {
+    expired: 'bg-red-500 text-white',
+    today: 'bg-red-100 text-red-700',
+    soon: 'bg-orange-100 text-orange-700',
+  };
+  const label = urgency === 'expired'
+    ? t('expired')
+    : urgency === 'today'
+      ? t('expiresToday')
+      : t('expiresInDays', { days: getDaysUntilExpiry(ingredient) ?? 0 });
+
+  return <span className={`px-1.5 py-0.5 text-[10px] font-bold rounded-full whitespace-nowrap ${styles[urgency]}`}>{label}</span>;
 };
 
-const IngredientManager: React.FC<IngredientManagerProps> = ({ ingredients, setIngredients, onBack, onGenerateRecipe, onLogoClick }) => {
+const IngredientManager: React.FC<IngredientManagerProps> = ({ ingredients, setIngredients, onAddCustomIngredient, onBack, onGenerateRecipe, onLogoClick }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [searchSuggestions, setSearchSuggestions] = useState<(typeof ALL_INGREDIENTS[0])[]>([]);
+  const [searchSuggestions, setSearchSuggestions] = useState<IngredientInfo[]>([]);
   const [isScanning, setIsScanning] = useState(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [receiptPages, setReceiptPages] = useState<PreparedImage[]>([]);
+  const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
+  const [scanReviewItems, setScanReviewItems] = useState<ScanReviewItem[] | null>(null);
+  const [scanMode, setScanMode] = useState<ScanMode>('receipt');
+  const [isScanMenuOpen, setIsScanMenuOpen] = useState(false);
+  const [customIngredientName, setCustomIngredientName] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const { t, language } = useLanguage();
@@ -45,11 +73,20 @@ const IngredientManager: React.FC<IngredientManagerProps> = ({ ingredients, setI
       return;
     }
 
-    setIngredients(prev => [...prev, { name: ingredientName, quantity: '1' }]); // Default quantity
+    setIngredients(prev => [...prev, createPantryIngredient(ingredientName)]);
     setSearchTerm('');
     setSearchSuggestions([]);
   };
 
+  const handleCreateCustomIngredient = (ingredient: CustomIngredient) => {
+    onAddCustomIngredient(ingredient);
+    handleAddIngredient(ingredient.en);
+  };
+
+  const handleUpdateIngredient = (updated: Ingredient) => {
+    setIngredients(prev => prev.map(ing => ing.name === updated.name ? updated : ing));
+  };
+
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setSearchTerm(value);
@@ -59,58 +96,91 @@ const IngredientManager: React.FC<IngredientManagerProps> = ({ ingredients, setI
       return;
     }
 
-    const lowerCaseValue = value.toLowerCase();
-    const currentIngredientNames = new Set(ingredients.map(i => i.name));
-
-    const filtered = ALL_INGREDIENTS.filter(
-      ing => (ing.en.toLowerCase().includes(lowerCaseValue) || ing.ko.toLowerCase().includes(lowerCaseValue)) && !currentIngredientNames.has(ing.en)
-    ).slice(0, 20); // Limit results
+    setSearchSuggestions(searchIngredients(value, { exclude: ingredients.map(i => i.name) }));
+  };
 
-    setSearchSuggestions(filtered);
+  const runScan = async (images: PreparedImage[], mode: ScanMode) => {
+    setIsScanning(true);
+    try {
+      const { analyzeReceipt, analyzeFridgePhoto } = await import('../services/geminiService');
+      if (mode === 'fridge') {
+        setPreviewImage(images[0].previewUrl);
+        const [photo] = await fitImagesForUpload(images.slice(0, 1));
+        const detections = await analyzeFridgePhoto(photo);
+        setScanReviewItems(createReviewItemsFromFridge(detections));
+      } else {
+        const lineItems = await analyzeReceipt(await fitImagesForUpload(images));
+        setScanReviewItems(createReviewItemsFromReceipt(lineItems));
+      }
+    } catch (error) {
+      console.error("Scan failed:", error);
+      alert(t('scanFailed'));
+    } finally {
+      setIsScanning(false);
+    }
   };
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    // Reset input so the same photo can be picked again
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
 
     setIsScanning(true);
+    const images: PreparedImage[] = [];
     try {
-      const { analyzeReceipt } = await import('../services/geminiService');
-      const base64Image = await fileToBase64(file);
-      setPreviewImage(`data:image/jpeg;base64,${base64Image}`);
-      const detectedIngredients = await analyzeReceipt(base64Image);
-
-      if (detectedIngredients.length > 0) {
-        const currentIngredientNames = new Set(ingredients.map(i => i.name));
-        const normalized = detectedIngredients
-          .map(name => name.trim())
-          .filter(Boolean)
-          .map(name => findIngredientEnglishName(name) || findIngredientEnglishName(name.replace(/\s+/g, ' ')) || name.replace(/\s+/g, ' ').replace(/\b\w/g, c => c.toUpperCase()));
-
-        const newIngredients = normalized
-          .filter(name => !currentIngredientNames.has(name))
-          .map(name => ({ name, quantity: '1' }));
-
-        if (newIngredients.length > 0) {
-          setIngredients(prev => [...prev, ...newIngredients]);
-        }
+      // One at a time, to keep memory use low on phones
+      for (const file of files) {
+        images.push(await prepareImageForUpload(file));
       }
     } catch (error) {
-      console.error("Scan failed:", error);
-      // Ideally show error toast
-    } finally {
+      console.error("Could not read image:", error);
+      alert(t('scanFailed'));
       setIsScanning(false);
-      // Reset input
-      if (fileInputRef.current) fileInputRef.current.value = '';
+      return;
+    }
+    setIsScanning(false);
+
+    if (scanMode === 'fridge') {
+      await runScan(images.slice(0, 1), 'fridge');
+    } else {
+      setReceiptPages(prev => [...prev, ...images].slice(0, MAX_RECEIPT_PAGES));
     }
   };
 
+  const handleChooseScanMode = (mode: ScanMode) => {
+    setScanMode(mode);
+    setIsScanMenuOpen(false);
+    setPreviewImage(null);
+    if (mode === 'fridge') setReceiptPages([]);
+    // Set `multiple` directly: the picker has to open within this click, before React re-renders
+    if (fileInputRef.current) {
+      fileInputRef.current.multiple = mode === 'receipt';
+      fileInputRef.current.click();
+    }
+  };
+
+  const handleRemoveReceiptPage = (index: number) => {
+    setReceiptPages(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleConfirmScan = (items: ScanReviewItem[]) => {
+    setIngredients(prev => scanMode === 'fridge' ? updatePantryFromFridgePhoto(prev, items) : addScannedItemsToPantry(prev, items));
+    setPreviewImage(null);
+    setReceiptPages([]);
+  };
+
+  const catalogMatches = new Set(searchIngredients(searchTerm, { limit: Infinity }).map(ing => ing.en));
   const filteredIngredients = ingredients.filter(ing => {
-    const searchMatch = searchTerm === '' ||
-      getIngredientTranslation(ing.name, 'en').toLowerCase().includes(searchTerm.toLowerCase()) ||
-      getIngredientTranslation(ing.name, 'ko').toLowerCase().includes(searchTerm.toLowerCase());
+    const searchMatch = searchTerm === '' || catalogMatches.has(ing.name) ||
+      ing.name.toLowerCase().includes(searchTerm.toLowerCase());
     return searchMatch;
-  });
+  }).sort(compareByExpiry);
+
+  const expiringIngredients = getExpiringIngredients(ingredients);
+
+  // Offer a custom ingredient only when nothing in the catalog resembles the search
+  const canCreateCustomIngredient = searchTerm.trim().length > 0 && catalogMatches.size === 0;
 
   return (
     <div className="flex flex-col h-screen bg-background relative">
@@ -152,32 +222,118 @@ const IngredientManager: React.FC<IngredientManagerProps> = ({ ingredients, setI
                 })}
               </ul>
             )}
+            {canCreateCustomIngredient && (
+              <div className="absolute z-10 w-full mt-1 border border-line-light rounded-lg bg-surface shadow-lg">
+                <button
+                  onClick={() => setCustomIngredientName(searchTerm.trim())}
+                  className="w-full text-left p-3 text-sm text-text-primary hover:bg-brand-light flex items-center gap-2"
+                >
+                  <PlusIcon className="w-4 h-4 text-brand-primary" />
+                  <span>{t('addAsCustomIngredient', { name: searchTerm.trim() })}</span>
+                </button>
+              </div>
+            )}
           </div>
 
-          <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isScanning}
-            className="flex-none w-12 h-12 bg-surface border border-brand-primary text-brand-primary rounded-xl flex items-center justify-center hover:bg-brand-light transition-colors"
-            aria-label={t('scanWithReceipt')}
-          >
-            {isScanning ? <Spinner /> : <CameraIcon className="w-6 h-6" />}
-          </button>
-        </div>
-        {previewImage && (
-          <div className="mb-4 relative rounded-xl overflow-hidden border border-line-light h-40">
-            <img src={previewImage} alt="Receipt Preview" className="w-full h-full object-cover" />
+          <input
+            type="file"
+            accept="image/*,.heic,.heif"
+            multiple={scanMode === 'receipt'}
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <div className="relative flex-none">
             <button
-              onClick={() => setPreviewImage(null)}
-              className="absolute top-2 right-2 bg-black/50 text-white p-1 rounded-full hover:bg-black/70"
+              onClick={() => setIsScanMenuOpen(open => !open)}
+              disabled={isScanning}
+              className="w-12 h-12 bg-surface border border-brand-primary text-brand-primary rounded-xl flex items-center justify-center hover:bg-brand-light transition-colors"
+              aria-label={t('scanIngredients')}
             >
-              <XIcon className="w-4 h-4" />
+              {isScanning ? <Spinner /> : <CameraIcon className="w-6 h-6" />}
             </button>
+            {isScanMenuOpen && (
+              <div className="absolute right-0 mt-1 w-48 bg-surface border border-line-light rounded-xl shadow-lg overflow-hidden">
+                <button onClick={() => handleChooseScanMode('receipt')} className="w-full text-left px-4 py-3 text-sm text-text-primary hover:bg-brand-light flex items-center gap-2">
+                  <span>🧾</span>
+                  <span>{t('scanWithReceipt')}</span>
+                </button>
+                <button onClick={() => handleChooseScanMode('fridge')} className="w-full text-left px-4 py-3 text-sm text-text-primary hover:bg-brand-light flex items-center gap-2 border-t border-line-light">
+                  <span>🧊</span>
+                  <span>{t('scanFridgePhoto')}</span>
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+        {receiptPages.length > 0 && (
+          <div className="mb-4 bg-surface border border-line-light rounded-xl p-3">
+            <p className="text-sm font-bold text-text-primary mb-2">🧾 {t('receiptPages', { count: receiptPages.length })}</p>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {receiptPages.map((page, index) => (
+                <div key={index} className="relative flex-none w-20 h-28 rounded-lg overflow-hidden border border-line-light">
+                  <img src={page.previewUrl} alt={t('receiptPageLabel', { page: index + 1 })} className="w-full h-full object-cover" />
+                  <span className="absolute bottom-1 left-1 bg-black/60 text-white text-[10px] font-bold px-1 rounded">{index + 1}</span>
+                  <button
+                    onClick={() => handleRemoveReceiptPage(index)}
+                    disabled={isScanning}
+                    className="absolute top-1 right-1 bg-black/50 text-white p-0.5 rounded-full hover:bg-black/70"
+                  >
+                    <XIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {receiptPages.length < MAX_RECEIPT_PAGES && (
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isScanning}
+                  className="flex-none w-20 h-28 rounded-lg border-2 border-dashed border-line-light text-text-secondary flex flex-col items-center justify-center gap-1 hover:border-brand-primary hover:text-brand-primary"
+                >
+                  <PlusIcon className="w-5 h-5" />
+                  <span className="text-[10px] font-bold">{t('addReceiptPage')}</span>
+                </button>
+              )}
+            </div>
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => setReceiptPages([])}
+                disabled={isScanning}
+                className="flex-1 py-2 rounded-lg border border-line-light text-sm font-bold text-text-secondary"
+              >
+                {t('cancelScan')}
+              </button>
+              <button
+                onClick={() => runScan(receiptPages, 'receipt')}
+                disabled={isScanning}
+                className="flex-[2] py-2 rounded-lg bg-brand-primary text-white text-sm font-bold disabled:opacity-60"
+              >
+                {isScanning ? t('scanning') : t('scanReceiptPages', { count: receiptPages.length })}
+              </button>
+            </div>
           </div>
         )}
       </div>
 
       <div className="flex-grow p-4 pt-0 overflow-y-auto pb-40">
+        {expiringIngredients.length > 0 && !searchTerm && (
+          <div className="mb-6 bg-orange-50 border border-orange-200 rounded-xl p-4">
+            <p className="font-bold text-orange-700 mb-2">⏰ {t('expiringSoonTitle', { count: expiringIngredients.length })}</p>
+            <div className="flex flex-wrap gap-2">
+              {expiringIngredients.map(ing => (
+                <button
+                  key={ing.name}
+                  onClick={() => setEditingIngredient(ing)}
+                  className="flex items-center gap-1.5 px-2.5 py-1 bg-surface border border-orange-200 rounded-full text-sm text-text-primary"
+                >
+                  <span>{getIngredientEmoji(ing.name)}</span>
+                  <span>{getIngredientTranslation(ing.name, language)}</span>
+                  <ExpiryBadge ingredient={ing} />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {filteredIngredients.length === 0 ? (
           <div className="text-center text-text-secondary mt-10">
             <span className="text-6xl block mb-3 grayscale opacity-50">🥗</span>
@@ -197,10 +353,16 @@ const IngredientManager: React.FC<IngredientManagerProps> = ({ ingredients, setI
                   <div className="flex flex-wrap gap-2">
                     {categoryIngredients.map(ing => (
                       <div key={ing.name} className="bg-surface border border-line-light rounded-full pl-3 pr-2 py-2 shadow-sm flex items-center gap-2">
-                        <span className="text-lg leading-none">{getIngredientEmoji(ing.name)}</span>
-                        <span className="font-semibold text-text-primary text-sm whitespace-nowrap">
-                          {getIngredientTranslation(ing.name, language)}
-                        </span>
+                        <button onClick={() => setEditingIngredient(ing)} className="flex items-center gap-2">
+                          <span className="text-lg leading-none">{getIngredientEmoji(ing.name)}</span>
+                          <span className="font-semibold text-text-primary text-sm whitespace-nowrap">
+                            {getIngredientTranslation(ing.name, language)}
+                          </span>
+                          <span className="text-xs text-text-secondary whitespace-nowrap">
+                            {formatQuantity(ing.quantity, language) || t('basicUnit')}
+                          </span>
+                          <ExpiryBadge ingredient={ing} />
+                        </button>
                         <button
                           onClick={() => handleRemoveIngredient(ing.name)}
                           className="ml-1 p-1 text-text-secondary hover:text-red-500 rounded-full hover:bg-gray-100 transition-colors"
@@ -217,6 +379,33 @@ const IngredientManager: React.FC<IngredientManagerProps> = ({ ingredients, setI
         )}
       </div>
 
+      {editingIngredient && (
+        <PantryItemModal
+          ingredient={editingIngredient}
+          onSave={handleUpdateIngredient}
+          onClose={() => setEditingIngredient(null)}
+        />
+      )}
+
+      {scanReviewItems && (
+        <ScanReviewModal
+          title={scanMode === 'fridge' ? t('scanReviewFridgeTitle') : t('scanReviewReceiptTitle')}
+          items={scanReviewItems}
+          image={previewImage ?? undefined}
+          onCreateCustomIngredient={onAddCustomIngredient}
+          onConfirm={handleConfirmScan}
+          onClose={() => setScanReviewItems(null)}
+        />
+      )}
+
+      {customIngredientName !== null && (
+        <CustomIngredientModal
+          initialName={customIngredientName}
+          onSave={handleCreateCustomIngredient}
+          onClose={() => setCustomIngredientName(null)}
+        />
+      )}
+
       <div className="fixed bottom-36 right-4 z-30">
         <button
           onClick={() => {
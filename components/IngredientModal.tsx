@@ -1,31 +1,38 @@
 
 import React, { useState } from 'react';
-import { Ingredient } from '../types';
+import { CustomIngredient, Ingredient } from '../types';
 import { XIcon } from './icons';
 import { useLanguage } from '../context/LanguageContext';
-import { INGREDIENT_CATEGORIES, findIngredientEnglishName, ALL_INGREDIENTS, getIngredientTranslation } from '../data/ingredients';
+import { INGREDIENT_CATEGORIES, findIngredientEnglishName, IngredientInfo, getIngredientTranslation } from '../data/ingredients';
+import { searchIngredients } from '../utils/ingredientSearch';
+import { createPantryIngredient } from '../utils/pantry';
+import { DEFAULT_QUANTITY } from '../utils/quantity';
+import QuantityInput from './QuantityInput';
+import CustomIngredientModal from './CustomIngredientModal';
 
 interface IngredientModalProps {
     isOpen: boolean;
     onClose: () => void;
     onAdd: (newIngredients: Ingredient[]) => void;
+    onCreateCustomIngredient?: (ingredient: CustomIngredient) => void;
 }
 
-type Suggestions = Record<string, typeof ALL_INGREDIENTS>;
+type Suggestions = Record<string, IngredientInfo[]>;
 
 
-const IngredientModal: React.FC<IngredientModalProps> = ({ isOpen, onClose, onAdd }) => {
+const IngredientModal: React.FC<IngredientModalProps> = ({ isOpen, onClose, onAdd, onCreateCustomIngredient }) => {
     const { t, language } = useLanguage();
     const [name, setName] = useState('');
     const [category, setCategory] = useState(INGREDIENT_CATEGORIES[0]);
-    const [quantity, setQuantity] = useState('');
+    const [quantity, setQuantity] = useState(DEFAULT_QUANTITY);
     const [suggestions, setSuggestions] = useState<Suggestions>({});
+    const [isCustomIngredientOpen, setIsCustomIngredientOpen] = useState(false);
 
     if (!isOpen) return null;
 
     const resetForm = () => {
         setName('');
-        setQuantity('');
+        setQuantity(DEFAULT_QUANTITY);
         setCategory(INGREDIENT_CATEGORIES[0]);
         setSuggestions({});
     };
@@ -44,10 +51,7 @@ const IngredientModal: React.FC<IngredientModalProps> = ({ isOpen, onClose, onAd
             return;
         }
 
-        const lowerCaseValue = value.toLowerCase();
-        const filtered = ALL_INGREDIENTS.filter(
-            ing => ing.en.toLowerCase().includes(lowerCaseValue) || ing.ko.toLowerCase().includes(lowerCaseValue)
-        );
+        const filtered = searchIngredients(value, { limit: Infinity });
 
         const grouped = filtered.reduce((acc: Suggestions, ing) => {
             const cat = ing.category;
@@ -61,7 +65,7 @@ const IngredientModal: React.FC<IngredientModalProps> = ({ isOpen, onClose, onAd
         setSuggestions(grouped);
     };
 
-    const handleSuggestionClick = (ingredient: typeof ALL_INGREDIENTS[0]) => {
+    const handleSuggestionClick = (ingredient: IngredientInfo) => {
         setName(getIngredientTranslation(ingredient.en, language));
         setCategory(ingredient.category);
         setSuggestions({}); // Hide suggestions
@@ -70,10 +74,21 @@ const IngredientModal: React.FC<IngredientModalProps> = ({ isOpen, onClose, onAd
     const handleAdd = () => {
         const englishName = findIngredientEnglishName(name);
         if (!englishName) {
-            alert('Please select a valid ingredient from the list.');
+            if (onCreateCustomIngredient) {
+                setIsCustomIngredientOpen(true);
+            } else {
+                alert('Please select a valid ingredient from the list.');
+            }
             return;
         }
-        onAdd([{ name: englishName, quantity }]);
+        onAdd([createPantryIngredient(englishName, quantity)]);
+        resetForm();
+        onClose();
+    };
+
+    const handleCustomIngredientSaved = (ingredient: CustomIngredient) => {
+        onCreateCustomIngredient?.(ingredient);
+        onAdd([createPantryIngredient(ingredient.en, quantity)]);
         resetForm();
         onClose();
     };
@@ -137,13 +152,7 @@ const IngredientModal: React.FC<IngredientModalProps> = ({ isOpen, onClose, onAd
 
                     <div>
                         <label className="text-sm font-bold text-text-secondary block mb-1">{t('quantity')}</label>
-                        <input
-                            type="text"
-                            value={quantity}
-                            onChange={(e) => setQuantity(e.target.value)}
-                            placeholder={t('quantityPlaceholder')}
-                            className="w-full bg-background border border-line-light rounded-xl p-3 focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
-                        />
+                        <QuantityInput value={quantity} onChange={setQuantity} />
                     </div>
                 </div>
 
@@ -153,6 +162,14 @@ const IngredientModal: React.FC<IngredientModalProps> = ({ isOpen, onClose, onAd
                     </button>
                 </div>
             </div>
+
+            {isCustomIngredientOpen && (
+                <CustomIngredientModal
+                    initialName={name}
+                    onSave={handleCustomIngredientSaved}
+                    onClose={() => setIsCustomIngredientOpen(false)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,65 @@
+import React from 'react';
+import { HeatLevel, InstructionStep, UnitSystem } from '../types';
+import { ClockIcon, FireIcon } from './icons';
+import { useLanguage } from '../context/LanguageContext';
+import { getStepIngredients } from '../utils/recipeSteps';
+import { DEFAULT_UNIT_SYSTEM, formatTemperature } from '../utils/unitConversion';
+
+interface InstructionStepDetailsProps {
+    step: InstructionStep;
+    ingredients: string[];
+    size?: 'sm' | 'lg';
+    unitSystem?: UnitSystem;
+}
+
+// The time, heat, tools and ingredients of a structured step. Renders nothing for plain-text steps.
+const InstructionStepDetails: React.FC<InstructionStepDetailsProps> = ({ step, ingredients, size = 'sm', unitSystem = DEFAULT_UNIT_SYSTEM }) => {
+    const { t } = useLanguage();
+    const stepIngredients = getStepIngredients(step, ingredients);
+    const heatLabels: { [level in HeatLevel]: string } = {
+        low: t('heatLow'),
+        'medium-low': t('heatMediumLow'),
+        medium: t('heatMedium'),
+        'medium-high': t('heatMediumHigh'),
+        high: t('heatHigh'),
+    };
+    const chipClassName = `inline-flex items-center gap-1 rounded-full bg-gray-100 text-text-secondary ${size === 'lg' ? 'px-3 py-1.5 text-sm' : 'px-2 py-0.5 text-xs'}`;
+    const iconClassName = size === 'lg' ? 'w-4 h-4' : 'w-3.5 h-3.5';
+
+    const hasChips = !!(step.durationMinutes || step.heat || step.temperatureCelsius || step.tools?.length);
+    if (!hasChips && stepIngredients.length === 0) return null;
+
+    return (
+        <div className={size === 'lg' ? 'mt-6 space-y-3' : 'mt-2 space-y-1.5'}>
+            {hasChips && (
+                <div className="flex flex-wrap gap-1.5">
+                    {!!step.durationMinutes && (
+                        <span className={chipClassName}>
+                            <ClockIcon className={iconClassName} />
+                            {t('stepDurationMinutes', { count: step.durationMinutes })}
+                        </span>
+                    )}
+                    {step.heat && (
+                        <span className={chipClassName}>
+                            <FireIcon className={`${iconClassName} text-red-500`} isFilled />
+                            {heatLabels[step.heat]}
+                        </span>
+                    )}
+                    {!!step.temperatureCelsius && (
+                        <span className={chipClassName}>🌡️ {formatTemperature(step.temperatureCelsius, unitSystem)}</span>
+                    )}
+                    {step.tools?.map(tool => (
+                        <span key={tool} className={chipClassName}>{tool}</span>
+                    ))}
+                </div>
+            )}
+            {stepIngredients.length > 0 && (
+                <p className={`text-text-secondary ${size === 'lg' ? 'text-base' : 'text-xs'}`}>
+                    <span className="font-semibold">{t('stepUses')}</span> {stepIngredients.join(', ')}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default InstructionStepDetails;
@@ -0,0 +1,358 @@
+import React, { useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { CookingHistoryEntry, FilteredRecipe, Ingredient, MealPlan, MealSlot, Quantity, Recipe, ShoppingListItem, UserSettings } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import MainHeader from './MainHeader';
+import ImageWithFallback from './ImageWithFallback';
+import { RecipeDetailModal } from './RecipeCard';
+import { Spinner } from './Spinner';
+import { ChevronLeftIcon, ChevronRightIcon, SparklesIcon, StoveIcon, XIcon } from './icons';
+import { getAllergenLabel } from '../utils/allergens';
+import { MEAL_SLOTS, MealSlotRef, fillOpenSlots, getOpenSlots, getPlanDates, getPlannedMeals, getPlannedRecipe, isSameSlot, movePlannedRecipe, setPlannedRecipe } from '../utils/mealPlan';
+import { PantryDeduction, addDays, getExpiringIngredients, toISODate } from '../utils/pantry';
+
+interface MealPlannerProps {
+    mealPlan: MealPlan;
+    onMealPlanChange: (update: (prev: MealPlan) => MealPlan) => void;
+    savedRecipes: Recipe[];
+    recommendedRecipes: Recipe[];
+    ingredients: Ingredient[];
+    settings: UserSettings;
+    cookingHistory: CookingHistoryEntry[];
+    shoppingList: ShoppingListItem[];
+    onToggleShoppingListItem: (itemName: string, quantity?: Quantity) => void;
+    onToggleSaveRecipe: (recipe: Recipe) => void;
+    onStartChat: (recipe: Recipe) => void;
+    onRecipeCooked: (recipe: Recipe, deductions: PantryDeduction[], servingsEaten: number) => void;
+    onLogoClick?: () => void;
+}
+
+type TraySource = 'saved' | 'recommended';
+
+// What is being dragged, or picked up with a tap on touch screens: a recipe from the tray or a planned meal
+type PickedRecipe = { recipe: Recipe; from?: MealSlotRef };
+
+// How far back the week can be paged; older days are dropped from the plan
+const MIN_WEEK_OFFSET = -2;
+
+const MealThumbnail: React.FC<{ recipe: Recipe; className: string }> = ({ recipe, className }) => (
+    recipe.imageUrl
+        ? <ImageWithFallback src={recipe.imageUrl} alt={recipe.recipeName} className={`${className} object-cover`} />
+        : (
+            <div className={`${className} bg-line-light flex items-center justify-center`}>
+                <StoveIcon className="w-1/2 h-1/2 text-line-dark" />
+            </div>
+        )
+);
+
+// The Plan tab: a week of breakfast, lunch and dinner slots. Saved and recommended recipes are dragged
+// (or tapped, then a slot tapped) into the slots, and the AI can fill the open ones around the pantry.
+const MealPlanner: React.FC<MealPlannerProps> = ({
+    mealPlan,
+    onMealPlanChange,
+    savedRecipes,
+    recommendedRecipes,
+    ingredients,
+    settings,
+    cookingHistory,
+    shoppingList,
+    onToggleShoppingListItem,
+    onToggleSaveRecipe,
+    onStartChat,
+    onRecipeCooked,
+    onLogoClick,
+}) => {
+    const { t, language } = useLanguage();
+    const locale = language === 'ko' ? 'ko-KR' : 'en-US';
+    const [weekOffset, setWeekOffset] = useState(0);
+    const [traySource, setTraySource] = useState<TraySource>(savedRecipes.length > 0 ? 'saved' : 'recommended');
+    const [picked, setPicked] = useState<PickedRecipe | null>(null);
+    const [dropTarget, setDropTarget] = useState<MealSlotRef | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [filteredRecipes, setFilteredRecipes] = useState<FilteredRecipe[]>([]);
+    const [selectedMeal, setSelectedMeal] = useState<{ ref: MealSlotRef; recipe: Recipe } | null>(null);
+
+    const slotLabels: { [key in MealSlot]: string } = {
+        breakfast: t('mealSlotBreakfast'),
+        lunch: t('mealSlotLunch'),
+        dinner: t('mealSlotDinner'),
+    };
+
+    const today = toISODate(new Date());
+    const dates = getPlanDates(addDays(today, weekOffset * 7));
+    const openSlots = getOpenSlots(mealPlan, dates).filter(ref => ref.date >= today);
+    const trayRecipes = traySource === 'saved' ? savedRecipes : recommendedRecipes;
+
+    const formatDate = (date: string, options: Intl.DateTimeFormatOptions) => new Date(`${date}T00:00:00`).toLocaleDateString(locale, options);
+
+    const placeRecipe = (item: PickedRecipe, target: MealSlotRef) => {
+        onMealPlanChange(prev => item.from
+            ? movePlannedRecipe(prev, item.from, target)
+            : setPlannedRecipe(prev, target, item.recipe));
+        setPicked(null);
+        setDropTarget(null);
+    };
+
+    const handleDrop = (event: React.DragEvent, target: MealSlotRef) => {
+        event.preventDefault();
+        if (picked) placeRecipe(picked, target);
+    };
+
+    const handleDragOver = (event: React.DragEvent, target: MealSlotRef) => {
+        if (!picked) return;
+        event.preventDefault();
+        if (!dropTarget || !isSameSlot(dropTarget, target)) setDropTarget(target);
+    };
+
+    const startDrag = (event: React.DragEvent, item: PickedRecipe) => {
+        // Firefox only starts a drag when some data is set
+        event.dataTransfer.setData('text/plain', item.recipe.recipeName);
+        event.dataTransfer.effectAllowed = 'move';
+        setPicked(item);
+    };
+
+    const handleOpenMeal = async (ref: MealSlotRef, recipe: Recipe) => {
+        setSelectedMeal({ ref, recipe });
+        if (recipe.isDetailsLoaded !== false) return;
+
+        try {
+            const { getRecipeDetails } = await import('../services/geminiService');
+            const details = await getRecipeDetails(recipe.recipeName, ingredients.map(ing => ing.name), language, settings);
+            const updatedRecipe = { ...recipe, ...details, isDetailsLoaded: true };
+            setSelectedMeal(prev => prev && isSameSlot(prev.ref, ref) ? { ref, recipe: updatedRecipe } : prev);
+            // Kept in the plan, so the details are only generated once and reach the user's other devices
+            onMealPlanChange(prev => getPlannedRecipe(prev, ref)?.recipeName === recipe.recipeName
+                ? setPlannedRecipe(prev, ref, updatedRecipe)
+                : prev);
+        } catch (error) {
+            console.error("Failed to fetch recipe details", error);
+        }
+    };
+
+    const handleSlotClick = (ref: MealSlotRef) => {
+        if (picked) {
+            placeRecipe(picked, ref);
+            return;
+        }
+        const recipe = getPlannedRecipe(mealPlan, ref);
+        if (recipe) handleOpenMeal(ref, recipe);
+    };
+
+    const handleGenerate = async () => {
+        if (openSlots.length === 0) {
+            setError(t('mealPlanFull'));
+            return;
+        }
+        setIsGenerating(true);
+        setError(null);
+        setFilteredRecipes([]);
+        try {
+            const { generateMealPlan } = await import('../services/geminiService');
+            const recentSince = addDays(today, -7);
+            const result = await generateMealPlan({
+                ingredients: ingredients.map(ing => ing.name),
+                priorityIngredients: getExpiringIngredients(ingredients).map(ing => ing.name),
+                slots: openSlots,
+                plannedMeals: getPlannedMeals(mealPlan, dates).map(({ date, slot, recipe }) => ({ date, slot, recipeName: recipe.recipeName })),
+                recentRecipes: Array.from(new Set(cookingHistory
+                    .filter(entry => toISODate(new Date(entry.cookedAt)) >= recentSince)
+                    .map(entry => entry.recipeName))),
+                calorieGoal: settings.nutritionGoals.calories || undefined,
+            }, language, settings);
+            onMealPlanChange(prev => fillOpenSlots(prev, result.meals));
+            setFilteredRecipes(result.filtered);
+        } catch (err) {
+            console.error("Failed to generate meal plan", err);
+            setError(t('mealPlanFailed'));
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-background pb-24">
+            <MainHeader onLogoClick={onLogoClick} />
+
+            <div className="p-4 space-y-4 overflow-y-auto">
+                <div>
+                    <h2 className="text-2xl font-bold text-text-primary">{t('mealPlanTitle')}</h2>
+                    <p className="text-sm text-text-secondary">{t('mealPlanSubtitle')}</p>
+                </div>
+
+                <button
+                    onClick={handleGenerate}
+                    disabled={isGenerating || weekOffset < 0}
+                    className="w-full flex items-center justify-center gap-2 bg-brand-primary text-white font-bold py-3 rounded-xl shadow-md hover:bg-brand-dark transition-colors disabled:opacity-50"
+                >
+                    {isGenerating ? <Spinner size="sm" /> : <SparklesIcon className="w-5 h-5" />}
+                    {isGenerating ? t('generatingMealPlan') : t('generateMealPlan')}
+                </button>
+
+                {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+
+                {filteredRecipes.length > 0 && (
+                    <div className="p-4 rounded-xl bg-yellow-50 border border-yellow-200 text-sm">
+                        <p className="font-bold text-yellow-800 mb-1">🛡️ {t('recipesFilteredForAllergies', { count: filteredRecipes.length })}</p>
+                        <ul className="text-yellow-800 space-y-0.5">
+                            {filteredRecipes.map((filtered, index) => (
+                                <li key={index}>
+                                    {t('recipeFilteredReason', { name: filtered.recipeName, allergens: filtered.allergens.map(allergen => getAllergenLabel(allergen, language)).join(', ') })}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {/* Recipe tray */}
+                <div className="bg-surface p-4 rounded-2xl shadow-sm border border-line-light">
+                    <div className="flex bg-background rounded-full p-0.5 text-xs font-bold w-fit mb-3">
+                        {(['saved', 'recommended'] as const).map(source => (
+                            <button
+                                key={source}
+                                onClick={() => setTraySource(source)}
+                                className={`px-3 py-1 rounded-full transition-colors ${traySource === source ? 'bg-brand-primary text-white' : 'text-text-secondary'}`}
+                            >
+                                {source === 'saved' ? t('mealPlanTraySaved') : t('mealPlanTrayRecommended')}
+                            </button>
+                        ))}
+                    </div>
+                    {trayRecipes.length === 0 ? (
+                        <p className="text-sm text-text-secondary">{t('mealPlanTrayEmpty')}</p>
+                    ) : (
+                        <div className="flex gap-3 overflow-x-auto pb-1 -mx-1 px-1">
+                            {trayRecipes.map(recipe => {
+                                const isPicked = !picked?.from && picked?.recipe.recipeName === recipe.recipeName;
+                                return (
+                                    <button
+                                        key={recipe.recipeName}
+                                        draggable
+                                        onDragStart={e => startDrag(e, { recipe })}
+                                        onDragEnd={() => { setPicked(null); setDropTarget(null); }}
+                                        onClick={() => setPicked(isPicked ? null : { recipe })}
+                                        className={`w-24 flex-shrink-0 text-left rounded-xl overflow-hidden border-2 transition-colors cursor-grab ${isPicked ? 'border-brand-primary' : 'border-transparent'}`}
+                                    >
+                                        <MealThumbnail recipe={recipe} className="w-full h-16" />
+                                        <p className="text-xs font-semibold text-text-primary line-clamp-2 p-1">{recipe.recipeName}</p>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                    <p className="text-xs text-text-secondary mt-2">
+                        {picked ? t('mealPlanPickedHint', { name: picked.recipe.recipeName }) : t('mealPlanTrayHint')}
+                    </p>
+                </div>
+
+                {/* Week */}
+                <div className="flex items-center justify-between">
+                    <button
+                        onClick={() => setWeekOffset(offset => offset - 1)}
+                        disabled={weekOffset <= MIN_WEEK_OFFSET}
+                        aria-label={t('mealPlanPreviousWeek')}
+                        className="p-2 text-text-secondary hover:text-brand-primary disabled:opacity-30"
+                    >
+                        <ChevronLeftIcon className="w-5 h-5" />
+                    </button>
+                    <span className="text-sm font-bold text-text-primary">
+                        {formatDate(dates[0], { month: 'short', day: 'numeric' })} – {formatDate(dates[dates.length - 1], { month: 'short', day: 'numeric' })}
+                    </span>
+                    <button
+                        onClick={() => setWeekOffset(offset => offset + 1)}
+                        aria-label={t('mealPlanNextWeek')}
+                        className="p-2 text-text-secondary hover:text-brand-primary"
+                    >
+                        <ChevronRightIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-3">
+                    <div className="grid grid-cols-3 gap-2 px-3 -mb-1">
+                        {MEAL_SLOTS.map(slot => (
+                            <span key={slot} className="text-center text-xs font-bold text-text-secondary">{slotLabels[slot]}</span>
+                        ))}
+                    </div>
+                    {dates.map(date => {
+                        const dayCalories = MEAL_SLOTS.reduce((sum, slot) => sum + (mealPlan.days[date]?.[slot]?.calories || 0), 0);
+                        return (
+                            <div key={date} className={`bg-surface p-3 rounded-2xl shadow-sm border ${date === today ? 'border-brand-primary/60' : 'border-line-light'}`}>
+                                <div className="flex items-center justify-between mb-2">
+                                    <p className="text-sm font-bold text-text-primary">
+                                        {formatDate(date, { weekday: 'short', month: 'short', day: 'numeric' })}
+                                        {date === today && <span className="ml-2 text-xs text-brand-primary">{t('diaryToday')}</span>}
+                                    </p>
+                                    {dayCalories > 0 && (
+                                        <span className="text-xs text-text-secondary">{t('caloriesAmount', { calories: dayCalories.toLocaleString() })}</span>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {MEAL_SLOTS.map(slot => {
+                                        const ref = { date, slot };
+                                        const recipe = getPlannedRecipe(mealPlan, ref);
+                                        const isDropTarget = dropTarget !== null && isSameSlot(dropTarget, ref);
+                                        return (
+                                            <div
+                                                key={slot}
+                                                onDragOver={e => handleDragOver(e, ref)}
+                                                onDragLeave={() => setDropTarget(null)}
+                                                onDrop={e => handleDrop(e, ref)}
+                                                onClick={() => handleSlotClick(ref)}
+                                                className={`relative h-24 rounded-xl overflow-hidden cursor-pointer transition-colors border-2 ${recipe
+                                                    ? `bg-background ${isDropTarget ? 'border-brand-primary' : 'border-transparent'}`
+                                                    : `border-dashed ${isDropTarget || picked ? 'border-brand-primary bg-brand-light' : 'border-line-light'}`}`}
+                                            >
+                                                {recipe ? (
+                                                    <div
+                                                        draggable
+                                                        onDragStart={e => startDrag(e, { recipe, from: ref })}
+                                                        onDragEnd={() => { setPicked(null); setDropTarget(null); }}
+                                                        className={`h-full flex flex-col ${isDropTarget ? 'opacity-60' : ''}`}
+                                                    >
+                                                        <MealThumbnail recipe={recipe} className="w-full h-12" />
+                                                        <p className="text-[11px] font-semibold text-text-primary line-clamp-2 px-1 pt-0.5">{recipe.recipeName}</p>
+                                                        <button
+                                                            onClick={e => { e.stopPropagation(); onMealPlanChange(prev => setPlannedRecipe(prev, ref, null)); }}
+                                                            aria-label={t('removeFromMealPlan')}
+                                                            className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/50 text-white flex items-center justify-center"
+                                                        >
+                                                            <XIcon className="w-3 h-3" />
+                                                        </button>
+                                                    </div>
+                                                ) : (
+                                                    <div className="h-full flex items-center justify-center text-xs font-semibold text-text-secondary">
+                                                        {slotLabels[slot]}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <AnimatePresence>
+                {selectedMeal && (
+                    <RecipeDetailModal
+                        recipe={selectedMeal.recipe}
+                        onClose={() => setSelectedMeal(null)}
+                        shoppingList={shoppingList}
+                        onToggleShoppingListItem={onToggleShoppingListItem}
+                        isSaved={savedRecipes.some(r => r.recipeName === selectedMeal.recipe.recipeName)}
+                        onToggleSaveRecipe={onToggleSaveRecipe}
+                        onStartChat={onStartChat}
+                        pantry={ingredients}
+                        cookingHistory={cookingHistory}
+                        onCooked={onRecipeCooked}
+                        unitSystem={settings.unitSystem}
+                        key="meal-plan-recipe-modal"
+                    />
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
+export default MealPlanner;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { CookingHistoryEntry, NutritionGoals } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import { PencilIcon } from './icons';
+import { DIARY_DAYS_PER_WEEK, SERVINGS_EATEN_STEP, getDiaryDay, getDiaryWeek, getEntryTotals, getServingsEaten } from '../utils/foodDiary';
+import { toISODate } from '../utils/pantry';
+import { formatAmount } from '../utils/quantity';
+
+interface NutritionDashboardProps {
+    cookingHistory: CookingHistoryEntry[];
+    goals: NutritionGoals;
+    useRemainingCalories: boolean;
+    onUpdateServingsEaten: (entryId: string, servingsEaten: number) => void;
+    onToggleRemainingCalories: () => void;
+    onEditGoals: () => void;
+}
+
+type Period = 'today' | 'week';
+
+const MACROS: (keyof Omit<NutritionGoals, 'calories'>)[] = ['protein', 'carbs', 'fat'];
+
+const GoalBar: React.FC<{ label: string; value: number; goal: number; unit: string }> = ({ label, value, goal, unit }) => {
+    const percent = goal > 0 ? Math.min(100, (value / goal) * 100) : 0;
+    const isOver = goal > 0 && value > goal;
+    return (
+        <div>
+            <div className="flex justify-between text-xs mb-1">
+                <span className="font-semibold text-text-secondary">{label}</span>
+                <span className={isOver ? 'font-bold text-red-500' : 'text-text-secondary'}>
+                    {Math.round(value).toLocaleString()} / {goal.toLocaleString()}{unit}
+                </span>
+            </div>
+            <div className="w-full bg-line-light rounded-full h-1.5">
+                <div className={`h-1.5 rounded-full transition-all duration-300 ${isOver ? 'bg-red-500' : 'bg-brand-primary'}`} style={{ width: `${percent}%` }}></div>
+            </div>
+        </div>
+    );
+};
+
+// The food diary on the Profile tab: today's and the last seven days' totals against the user's goals,
+// and the portions logged today.
+const NutritionDashboard: React.FC<NutritionDashboardProps> = ({ cookingHistory, goals, useRemainingCalories, onUpdateServingsEaten, onToggleRemainingCalories, onEditGoals }) => {
+    const { t, language } = useLanguage();
+    const [period, setPeriod] = useState<Period>('today');
+    const locale = language === 'ko' ? 'ko-KR' : 'en-US';
+    const macroLabels: { [key in typeof MACROS[number]]: string } = {
+        protein: t('nutrientProtein'),
+        carbs: t('nutrientCarbs'),
+        fat: t('nutrientFat'),
+    };
+
+    const today = getDiaryDay(cookingHistory, toISODate(new Date()));
+    const week = getDiaryWeek(cookingHistory);
+    const weekTotals = week.reduce((acc, day) => ({
+        calories: acc.calories + day.totals.calories,
+        protein: acc.protein + day.totals.protein,
+        carbs: acc.carbs + day.totals.carbs,
+        fat: acc.fat + day.totals.fat,
+    }), { calories: 0, protein: 0, carbs: 0, fat: 0 });
+    const chartMax = Math.max(goals.calories, ...week.map(day => day.totals.calories), 1);
+    const remaining = Math.round(goals.calories - today.totals.calories);
+
+    return (
+        <div className="bg-surface p-5 rounded-2xl shadow-sm border border-line-light space-y-4">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="text-lg font-bold text-text-primary">{t('foodDiaryTitle')}</h3>
+                <div className="flex items-center gap-2">
+                    <div className="flex bg-background rounded-full p-0.5 text-xs font-bold">
+                        {(['today', 'week'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setPeriod(option)}
+                                className={`px-3 py-1 rounded-full transition-colors ${period === option ? 'bg-brand-primary text-white' : 'text-text-secondary'}`}
+                            >
+                                {option === 'today' ? t('diaryToday') : t('diaryLast7Days')}
+                            </button>
+                        ))}
+                    </div>
+                    <button onClick={onEditGoals} aria-label={t('editNutritionGoals')} className="text-text-secondary hover:text-brand-primary transition-colors p-1">
+                        <PencilIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            {period === 'today' ? (
+                <>
+                    <div>
+                        <p className="text-2xl font-bold text-text-primary">
+                            {Math.round(today.totals.calories).toLocaleString()}
+                            <span className="text-sm font-medium text-text-secondary"> / {goals.calories.toLocaleString()} kcal</span>
+                        </p>
+                        <p className={`text-sm font-semibold ${remaining < 0 ? 'text-red-500' : 'text-brand-primary'}`}>
+                            {remaining >= 0
+                                ? t('caloriesLeft', { calories: remaining.toLocaleString() })
+                                : t('caloriesOver', { calories: (-remaining).toLocaleString() })}
+                        </p>
+                    </div>
+                    <div className="space-y-3">
+                        {MACROS.map(macro => (
+                            <GoalBar key={macro} label={macroLabels[macro]} value={today.totals[macro]} goal={goals[macro]} unit="g" />
+                        ))}
+                    </div>
+                    {today.entries.length === 0 ? (
+                        <p className="text-sm text-text-secondary">{t('diaryEmpty')}</p>
+                    ) : (
+                        <ul className="divide-y divide-line-light">
+                            {today.entries.map(entry => {
+                                const servingsEaten = getServingsEaten(entry);
+                                return (
+                                    <li key={entry.id} className="flex items-center justify-between gap-3 py-2">
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-text-primary truncate">{entry.recipeName}</p>
+                                            <p className="text-xs text-text-secondary">
+                                                {new Date(entry.cookedAt).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' })}
+                                                {entry.calories > 0 && ` · ${t('caloriesAmount', { calories: Math.round(getEntryTotals(entry).calories).toLocaleString() })}`}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-2 flex-shrink-0">
+                                            <button
+                                                onClick={() => onUpdateServingsEaten(entry.id, Math.max(0, servingsEaten - SERVINGS_EATEN_STEP))}
+                                                disabled={servingsEaten <= 0}
+                                                aria-label={t('decreaseServings')}
+                                                className="w-7 h-7 rounded-full bg-background border border-line-light font-bold text-text-primary disabled:opacity-40"
+                                            >
+                                                -
+                                            </button>
+                                            <span className="w-16 text-center text-xs font-bold text-text-primary">{t('servingsEatenCount', { count: formatAmount(servingsEaten) })}</span>
+                                            <button
+                                                onClick={() => onUpdateServingsEaten(entry.id, servingsEaten + SERVINGS_EATEN_STEP)}
+                                                aria-label={t('increaseServings')}
+                                                className="w-7 h-7 rounded-full bg-background border border-line-light font-bold text-text-primary"
+                                            >
+                                                +
+                                            </button>
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </>
+            ) : (
+                <>
+                    <div className="relative h-32 flex items-end gap-2">
+                        <div
+                            className="absolute left-0 right-0 border-t border-dashed border-brand-primary/60 pointer-events-none"
+                            style={{ bottom: `${(goals.calories / chartMax) * 100}%` }}
+                        ></div>
+                        {week.map(day => {
+                            const isOver = goals.calories > 0 && day.totals.calories > goals.calories;
+                            return (
+                                <div key={day.date} className="flex-1 h-full flex flex-col justify-end items-center gap-1">
+                                    <div
+                                        className={`w-full rounded-t-md ${isOver ? 'bg-red-400' : 'bg-brand-primary/80'}`}
+                                        style={{ height: `${(day.totals.calories / chartMax) * 100}%` }}
+                                        title={`${Math.round(day.totals.calories).toLocaleString()} kcal`}
+                                    ></div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <div className="flex gap-2 -mt-2">
+                        {week.map(day => (
+                            <span key={day.date} className="flex-1 text-center text-[11px] text-text-secondary">
+                                {new Date(`${day.date}T00:00:00`).toLocaleDateString(locale, { weekday: 'short' })}
+                            </span>
+                        ))}
+                    </div>
+                    <p className="text-sm text-text-secondary">
+                        {t('diaryDailyAverage', { calories: Math.round(weekTotals.calories / DIARY_DAYS_PER_WEEK).toLocaleString() })}
+                    </p>
+                    <div className="space-y-3">
+                        <GoalBar label={t('nutrientCalories')} value={weekTotals.calories} goal={goals.calories * DIARY_DAYS_PER_WEEK} unit="kcal" />
+                        {MACROS.map(macro => (
+                            <GoalBar key={macro} label={macroLabels[macro]} value={weekTotals[macro]} goal={goals[macro] * DIARY_DAYS_PER_WEEK} unit="g" />
+                        ))}
+                    </div>
+                </>
+            )}
+
+            <button
+                onClick={onToggleRemainingCalories}
+                className="w-full flex items-center justify-between gap-3 pt-3 border-t border-line-light text-left"
+            >
+                <span className="text-sm text-text-primary">{t('useRemainingCaloriesLabel')}</span>
+                <span className={`w-10 h-6 rounded-full p-0.5 flex-shrink-0 transition-colors ${useRemainingCalories ? 'bg-brand-primary' : 'bg-line-light'}`}>
+                    <span className={`block w-5 h-5 rounded-full bg-white shadow transition-transform ${useRemainingCalories ? 'translate-x-4' : ''}`}></span>
+                </span>
+            </button>
+        </div>
+    );
+};
+
+export default NutritionDashboard;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { NutritionGoals } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import { suggestMacroGoals } from '../utils/foodDiary';
+
+interface NutritionGoalsEditorProps {
+    goals: NutritionGoals;
+    onChange: (goals: NutritionGoals) => void;
+}
+
+const CALORIE_PRESETS = [1500, 1800, 2000, 2500];
+const MACROS: (keyof Omit<NutritionGoals, 'calories'>)[] = ['protein', 'carbs', 'fat'];
+
+const parseGoal = (value: string) => Math.max(0, Math.round(Number(value) || 0));
+
+// Daily calorie and macro goals. Picking a calorie goal fills in a balanced macro split,
+// which can then be adjusted by hand.
+const NutritionGoalsEditor: React.FC<NutritionGoalsEditorProps> = ({ goals, onChange }) => {
+    const { t } = useLanguage();
+    const macroLabels: { [key in typeof MACROS[number]]: string } = {
+        protein: t('nutrientProtein'),
+        carbs: t('nutrientCarbs'),
+        fat: t('nutrientFat'),
+    };
+    const inputClassName = 'w-full bg-background border border-line-light rounded-xl p-3 text-text-primary focus:outline-none focus:ring-2 focus:ring-brand-primary/50';
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label htmlFor="calorieGoal" className="text-sm font-bold text-text-secondary block mb-2">{t('calorieGoalLabel')}</label>
+                <div className="flex flex-wrap gap-2 mb-3">
+                    {CALORIE_PRESETS.map(calories => (
+                        <button
+                            key={calories}
+                            type="button"
+                            onClick={() => onChange(suggestMacroGoals(calories))}
+                            className={`px-4 py-2 border rounded-full text-sm font-medium transition-colors ${goals.calories === calories ? 'border-brand-primary bg-brand-light' : 'border-line-light bg-surface'}`}
+                        >
+                            {calories.toLocaleString()} kcal
+                        </button>
+                    ))}
+                </div>
+                <input
+                    id="calorieGoal"
+                    type="number"
+                    inputMode="numeric"
+                    min={0}
+                    step={50}
+                    value={goals.calories || ''}
+                    onChange={e => onChange(suggestMacroGoals(parseGoal(e.target.value)))}
+                    className={inputClassName}
+                />
+            </div>
+            <div>
+                <p className="text-sm font-bold text-text-secondary mb-2">{t('macroGoalsLabel')}</p>
+                <div className="grid grid-cols-3 gap-2">
+                    {MACROS.map(macro => (
+                        <label key={macro} className="block">
+                            <span className="text-xs text-text-secondary">{macroLabels[macro]} (g)</span>
+                            <input
+                                type="number"
+                                inputMode="numeric"
+                                min={0}
+                                value={goals[macro] || ''}
+                                onChange={e => onChange({ ...goals, [macro]: parseGoal(e.target.value) })}
+                                className={inputClassName}
+                            />
+                        </label>
+                    ))}
+                </div>
+                <p className="text-xs text-text-secondary mt-2">{t('macroGoalsHint')}</p>
+            </div>
+        </div>
+    );
+};
+
+export default NutritionGoalsEditor;
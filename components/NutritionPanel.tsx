@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { Recipe } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import { getServingsBase } from '../utils/recipeScaling';
+import { NUTRIENTS, Nutrient, NutritionEstimate, computeRecipeNutrition, findNutritionMismatches } from '../utils/nutrition';
+
+const NUTRIENT_UNITS: { [key in Nutrient]: string } = {
+    calories: 'kcal',
+    protein: 'g',
+    carbs: 'g',
+    fat: 'g',
+    fiber: 'g',
+    sugar: 'g',
+    sodium: 'mg',
+};
+
+// Per-serving nutrition: the model's estimate when there is one, next to the value calculated
+// from the ingredients with the local nutrient table, with wide disagreements flagged.
+const NutritionPanel: React.FC<{ recipe: Recipe }> = ({ recipe }) => {
+    const { t } = useLanguage();
+    const labels: { [key in Nutrient]: string } = {
+        calories: t('nutrientCalories'),
+        protein: t('nutrientProtein'),
+        carbs: t('nutrientCarbs'),
+        fat: t('nutrientFat'),
+        fiber: t('nutrientFiber'),
+        sugar: t('nutrientSugar'),
+        sodium: t('nutrientSodium'),
+    };
+
+    const computed = useMemo(
+        () => computeRecipeNutrition(recipe.ingredients, getServingsBase(recipe)),
+        [recipe.ingredients, recipe.servings]
+    );
+    const estimate: Partial<NutritionEstimate> | null = recipe.nutrition
+        ? { ...recipe.nutrition, calories: recipe.calories > 0 ? recipe.calories : undefined }
+        : null;
+    const mismatches = estimate ? findNutritionMismatches(estimate, computed) : [];
+    const totalIngredients = computed.countedIngredients.length + computed.skippedIngredients.length;
+    const hasComputed = computed.countedIngredients.length > 0;
+
+    if (!estimate && !hasComputed) return null;
+
+    const formatValue = (nutrient: Nutrient, value: number) => `${value.toLocaleString()}${NUTRIENT_UNITS[nutrient]}`;
+
+    return (
+        <div>
+            <h3 className="text-lg font-bold text-text-primary mb-2 border-b pb-1">{t('nutritionPerServing')}</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {NUTRIENTS.map(nutrient => {
+                    const estimated = estimate?.[nutrient];
+                    const isMismatch = mismatches.includes(nutrient);
+                    const value = estimated ?? computed.perServing[nutrient];
+                    return (
+                        <div
+                            key={nutrient}
+                            className={`p-3 rounded-xl ${isMismatch ? 'bg-yellow-50 border border-yellow-200' : 'bg-background'}`}
+                        >
+                            <p className="text-xs font-semibold text-text-secondary">{labels[nutrient]}</p>
+                            <p className={`text-lg font-bold ${isMismatch ? 'text-yellow-700' : 'text-text-primary'}`}>
+                                {isMismatch && '⚠️ '}{formatValue(nutrient, value)}
+                            </p>
+                            {estimated !== undefined && hasComputed && (
+                                <p className="text-[11px] text-text-tertiary">
+                                    {t('nutritionCalculatedValue', { value: formatValue(nutrient, computed.perServing[nutrient]) })}
+                                </p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+            {mismatches.length > 0 && (
+                <p className="mt-3 p-3 rounded-xl bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+                    {t('nutritionMismatchWarning', { nutrients: mismatches.map(nutrient => labels[nutrient]).join(', ') })}
+                </p>
+            )}
+            {hasComputed && (
+                <p className="mt-2 text-xs text-text-tertiary">
+                    {!estimate && `${t('nutritionCalculatedOnly')} `}
+                    {t('nutritionCoverage', { counted: computed.countedIngredients.length, total: totalIngredients })}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default NutritionPanel;
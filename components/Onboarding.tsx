@@ -4,7 +4,9 @@ import React, { useRef, useState } from 'react';
 import { UserSettings } from '../types';
 import { useLanguage } from '../context/LanguageContext';
 import { FireIcon, XIcon, SearchIcon, MicrowaveIcon, InductionIcon, GasStoveIcon, AirFryerIcon, OvenIcon, BlenderIcon } from './icons';
-import { COMMON_INGREDIENTS, getIngredientCategory, getIngredientTranslation, ALL_INGREDIENTS, INGREDIENT_CATEGORIES, getIngredientEmoji, findIngredientEnglishName } from '../data/ingredients';
+import { COMMON_INGREDIENTS, getIngredientCategory, getIngredientTranslation, getAllIngredients, INGREDIENT_CATEGORIES, getIngredientEmoji, findIngredientEnglishName, IngredientInfo } from '../data/ingredients';
+import { searchIngredients } from '../utils/ingredientSearch';
+import NutritionGoalsEditor from './NutritionGoalsEditor';
 
 interface OnboardingProps {
   initialSettings: UserSettings;
@@ -37,13 +39,13 @@ const Onboarding: React.FC<OnboardingProps> = ({ initialSettings, onSave, onBack
   const [settings, setSettings] = useState<UserSettings>(mergedSettings);
   const [selectedInitialIngredients, setSelectedInitialIngredients] = useState<string[]>([]);
   const { t, language } = useLanguage();
-  const totalSteps = includeProfileStep ? 6 : 5;
+  const totalSteps = includeProfileStep ? 7 : 6;
 
   const [customIngredientSearch, setCustomIngredientSearch] = useState('');
-  const [searchSuggestions, setSearchSuggestions] = useState<(typeof ALL_INGREDIENTS[0])[]>([]);
+  const [searchSuggestions, setSearchSuggestions] = useState<IngredientInfo[]>([]);
 
   const [allergySearch, setAllergySearch] = useState('');
-  const [allergySuggestions, setAllergySuggestions] = useState<(typeof ALL_INGREDIENTS[0])[]>([]);
+  const [allergySuggestions, setAllergySuggestions] = useState<IngredientInfo[]>([]);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const handleNext = () => setStep(prev => Math.min(prev + 1, totalSteps));
@@ -87,11 +89,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ initialSettings, onSave, onBack
       return;
     }
 
-    const lowerCaseValue = value.toLowerCase();
-    const filtered = ALL_INGREDIENTS.filter(
-      ing => (ing.en.toLowerCase().includes(lowerCaseValue) || ing.ko.toLowerCase().includes(lowerCaseValue)) && !selectedInitialIngredients.includes(ing.en)
-    ).slice(0, 20);
-    setSearchSuggestions(filtered);
+    setSearchSuggestions(searchIngredients(value, { exclude: selectedInitialIngredients }));
   };
 
   const handleSuggestionSelect = (ingredientName: string) => {
@@ -157,11 +155,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ initialSettings, onSave, onBack
             return;
           }
 
-          const lowerCaseValue = value.toLowerCase();
-          const filtered = ALL_INGREDIENTS.filter(
-            ing => (ing.en.toLowerCase().includes(lowerCaseValue) || ing.ko.toLowerCase().includes(lowerCaseValue)) && !settings.allergies.includes(ing.en)
-          ).slice(0, 10);
-          setAllergySuggestions(filtered);
+          setAllergySuggestions(searchIngredients(value, { exclude: settings.allergies, limit: 10 }));
         };
 
         const handleAllergySelect = (englishName: string) => {
@@ -214,7 +208,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ initialSettings, onSave, onBack
 
               {/* Render selected allergies that are NOT in default list */}
               {settings.allergies.filter(a => !defaultAllergies.some(d => d.name === a)).map(allergyName => {
-                const foundIng = ALL_INGREDIENTS.find(i => i.en === allergyName);
+                const foundIng = getAllIngredients().find(i => i.en === allergyName);
                 const emoji = foundIng ? foundIng.emoji : '⚠️';
                 const label = foundIng ? getIngredientTranslation(foundIng.en, language) : allergyName;
 
@@ -314,7 +308,18 @@ const Onboarding: React.FC<OnboardingProps> = ({ initialSettings, onSave, onBack
             </div>
           </div>
         );
-      case 6: // Profile Setup Only (Ingredients removed)
+      case 6: // Nutrition Goals
+        return (
+          <div>
+            <h2 className="text-xl font-bold mb-1">{t('nutritionGoalsTitle')}</h2>
+            <p className="text-text-secondary mb-6">{t('nutritionGoalsSubtitle')}</p>
+            <NutritionGoalsEditor
+              goals={settings.nutritionGoals}
+              onChange={nutritionGoals => setSettings(prev => ({ ...prev, nutritionGoals }))}
+            />
+          </div>
+        );
+      case 7: // Profile Setup Only (Ingredients removed)
         if (!includeProfileStep) return null;
         return (
           <div className="flex flex-col h-full space-y-4">
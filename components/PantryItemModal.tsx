@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Ingredient } from '../types';
+import { XIcon } from './icons';
+import { useLanguage } from '../context/LanguageContext';
+import { getIngredientEmoji, getIngredientTranslation } from '../data/ingredients';
+import { estimateExpiryDate, toISODate } from '../utils/pantry';
+import QuantityInput from './QuantityInput';
+
+interface PantryItemModalProps {
+    ingredient: Ingredient;
+    onSave: (updated: Ingredient) => void;
+    onClose: () => void;
+}
+
+const PantryItemModal: React.FC<PantryItemModalProps> = ({ ingredient, onSave, onClose }) => {
+    const { t, language } = useLanguage();
+    const [quantity, setQuantity] = useState(ingredient.quantity);
+    const [purchasedAt, setPurchasedAt] = useState(ingredient.purchasedAt || toISODate(new Date()));
+    const [expiresAt, setExpiresAt] = useState(ingredient.expiresAt || estimateExpiryDate(ingredient.name, purchasedAt));
+
+    const handlePurchaseDateChange = (value: string) => {
+        setPurchasedAt(value);
+        // Keep the estimate in step with the purchase date until the user picks an expiry date themselves
+        if (expiresAt === estimateExpiryDate(ingredient.name, purchasedAt)) {
+            setExpiresAt(estimateExpiryDate(ingredient.name, value));
+        }
+    };
+
+    const handleSave = () => {
+        onSave({ ...ingredient, quantity, purchasedAt, expiresAt });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4 font-sans">
+            <div className="bg-surface rounded-2xl shadow-lg w-full max-w-sm p-6 relative">
+                <button onClick={onClose} className="absolute top-4 right-4 text-text-secondary hover:text-text-primary">
+                    <XIcon className="w-6 h-6" />
+                </button>
+                <h2 className="text-xl font-bold text-text-primary mb-6 text-center flex items-center justify-center gap-2">
+                    <span>{getIngredientEmoji(ingredient.name)}</span>
+                    <span>{getIngredientTranslation(ingredient.name, language)}</span>
+                </h2>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className="text-sm font-bold text-text-secondary block mb-1">{t('quantity')}</label>
+                        <QuantityInput value={quantity} onChange={setQuantity} />
+                    </div>
+                    <div>
+                        <label className="text-sm font-bold text-text-secondary block mb-1">{t('purchaseDate')}</label>
+                        <input
+                            type="date"
+                            value={purchasedAt}
+                            onChange={(e) => handlePurchaseDateChange(e.target.value)}
+                            className="w-full bg-background border border-line-light rounded-xl p-3 focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+                        />
+                    </div>
+                    <div>
+                        <div className="flex items-center justify-between mb-1">
+                            <label className="text-sm font-bold text-text-secondary">{t('expiryDate')}</label>
+                            <button
+                                onClick={() => setExpiresAt(estimateExpiryDate(ingredient.name, purchasedAt))}
+                                className="text-xs font-bold text-brand-primary hover:underline"
+                            >
+                                {t('useEstimatedExpiry')}
+                            </button>
+                        </div>
+                        <input
+                            type="date"
+                            value={expiresAt}
+                            onChange={(e) => setExpiresAt(e.target.value)}
+                            className="w-full bg-background border border-line-light rounded-xl p-3 focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+                        />
+                    </div>
+                </div>
+
+                <div className="mt-6">
+                    <button onClick={handleSave} className="w-full bg-brand-primary text-white font-bold py-3 px-4 rounded-xl">
+                        {t('save')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PantryItemModal;
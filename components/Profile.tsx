@@ -1,10 +1,12 @@
 
 import React, { useState, useRef } from 'react';
 import { useLanguage } from '../context/LanguageContext';
-import { User, UserSettings } from '../types';
+import { CookingHistoryEntry, NutritionGoals, UnitSystem, User, UserSettings } from '../types';
 import MainHeader from './MainHeader';
 import { ProfileIcon, BookmarkIcon, ShoppingCartIcon, CheckIcon, PencilIcon } from './icons';
 import Onboarding from './Onboarding';
+import NutritionDashboard from './NutritionDashboard';
+import NutritionGoalsEditor from './NutritionGoalsEditor';
 
 interface ProfileProps {
     user: User | null;
@@ -13,13 +15,16 @@ interface ProfileProps {
     onNavigate: (view: any) => void;
     onUpdateSettings: (settings: UserSettings, initialIngredients?: string[], options?: { stayOnCurrentTab?: boolean }) => void;
     onLogoClick?: () => void;
+    cookingHistory: CookingHistoryEntry[];
+    onUpdateServingsEaten: (entryId: string, servingsEaten: number) => void;
 }
 
-const Profile: React.FC<ProfileProps> = ({ user, settings, onLogout, onNavigate, onUpdateSettings, onLogoClick }) => {
+const Profile: React.FC<ProfileProps> = ({ user, settings, onLogout, onNavigate, onUpdateSettings, onLogoClick, cookingHistory, onUpdateServingsEaten }) => {
     const { t, language, setLanguage } = useLanguage();
     const [showSettings, setShowSettings] = useState(false);
     const [isEditingNickname, setIsEditingNickname] = useState(false);
     const [editNicknameValue, setEditNicknameValue] = useState(settings.nickname || '');
+    const [goalsDraft, setGoalsDraft] = useState<NutritionGoals | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const displayName = settings.nickname?.trim() || (user ? user.email.split('@')[0] : 'Guest');
 
@@ -35,6 +40,25 @@ const Profile: React.FC<ProfileProps> = ({ user, settings, onLogout, onNavigate,
         reader.readAsDataURL(file);
     };
 
+    const unitSystems: UnitSystem[] = ['metric', 'us', 'korean'];
+    const unitSystemLabels: { [system in UnitSystem]: string } = {
+        metric: t('unitSystemMetric'),
+        us: t('unitSystemUS'),
+        korean: t('unitSystemKorean'),
+    };
+
+    const handleCycleUnitSystem = () => {
+        const next = unitSystems[(unitSystems.indexOf(settings.unitSystem) + 1) % unitSystems.length];
+        onUpdateSettings({ ...settings, unitSystem: next }, [], { stayOnCurrentTab: true });
+    };
+
+    const handleSaveGoals = () => {
+        if (goalsDraft) {
+            onUpdateSettings({ ...settings, nutritionGoals: goalsDraft }, [], { stayOnCurrentTab: true });
+        }
+        setGoalsDraft(null);
+    };
+
     const handleSaveNickname = () => {
         if (editNicknameValue.trim()) {
             onUpdateSettings({ ...settings, nickname: editNicknameValue.trim() }, [], { stayOnCurrentTab: true });
@@ -145,6 +169,31 @@ const Profile: React.FC<ProfileProps> = ({ user, settings, onLogout, onNavigate,
                     </button>
                 </div>
 
+                {/* Food Diary */}
+                {goalsDraft ? (
+                    <div className="bg-surface p-5 rounded-2xl shadow-sm border border-line-light space-y-4">
+                        <h3 className="text-lg font-bold text-text-primary">{t('editNutritionGoals')}</h3>
+                        <NutritionGoalsEditor goals={goalsDraft} onChange={setGoalsDraft} />
+                        <div className="flex gap-3">
+                            <button onClick={() => setGoalsDraft(null)} className="flex-1 py-3 rounded-xl border border-line-light font-bold text-text-secondary">
+                                {t('cancelEditGoals')}
+                            </button>
+                            <button onClick={handleSaveGoals} className="flex-1 py-3 rounded-xl bg-brand-primary text-white font-bold">
+                                {t('save')}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <NutritionDashboard
+                        cookingHistory={cookingHistory}
+                        goals={settings.nutritionGoals}
+                        useRemainingCalories={settings.useRemainingCalories}
+                        onUpdateServingsEaten={onUpdateServingsEaten}
+                        onToggleRemainingCalories={() => onUpdateSettings({ ...settings, useRemainingCalories: !settings.useRemainingCalories }, [], { stayOnCurrentTab: true })}
+                        onEditGoals={() => setGoalsDraft(settings.nutritionGoals)}
+                    />
+                )}
+
                 {/* Settings Section */}
                 <div className="space-y-3">
                     <div className="bg-surface rounded-xl border border-line-light overflow-hidden">
@@ -158,6 +207,16 @@ const Profile: React.FC<ProfileProps> = ({ user, settings, onLogout, onNavigate,
                             </span>
                         </button>
 
+                        <button
+                            onClick={handleCycleUnitSystem}
+                            className="w-full flex items-center justify-between p-4 hover:bg-gray-50 border-b border-line-light last:border-0"
+                        >
+                            <span className="font-medium text-text-primary">{t('unitSystem')}</span>
+                            <span className="text-sm font-bold text-brand-primary bg-brand-light px-3 py-1 rounded-full">
+                                {unitSystemLabels[settings.unitSystem]}
+                            </span>
+                        </button>
+
                         <button
                             onClick={() => setShowSettings(true)}
                             className="w-full flex items-center justify-between p-4 hover:bg-gray-50 border-b border-line-light last:border-0"
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Quantity, QuantityUnit } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import { UNIT_FAMILIES, UNITS_BY_FAMILY, createQuantity, formatAmount, getUnitLabel, parseQuantity } from '../utils/quantity';
+
+interface QuantityInputProps {
+    value: Quantity;
+    onChange: (quantity: Quantity) => void;
+}
+
+const FAMILY_LABEL_KEYS = {
+    count: 'unitFamilyCount',
+    mass: 'unitFamilyMass',
+    volume: 'unitFamilyVolume',
+} as const;
+
+// Amount field plus a unit picker. The amount accepts fractions ("1/2") as well as decimals.
+const QuantityInput: React.FC<QuantityInputProps> = ({ value, onChange }) => {
+    const { t, language } = useLanguage();
+    const [amountText, setAmountText] = useState(value.amount !== null ? formatAmount(value.amount) : '');
+
+    // Reflect amounts set from outside (e.g. a "use all" button) without fighting the user's typing
+    useEffect(() => {
+        const typedAmount = amountText.trim() ? parseQuantity(amountText).amount : null;
+        if (typedAmount !== value.amount) {
+            setAmountText(value.amount !== null ? formatAmount(value.amount) : '');
+        }
+    }, [value.amount]);
+
+    const handleAmountChange = (text: string) => {
+        setAmountText(text);
+        if (!text.trim()) {
+            onChange(createQuantity(null, value.unit));
+            return;
+        }
+        // Let people type a whole quantity like "2 cups" straight into the amount field
+        const parsed = parseQuantity(text);
+        if (parsed.amount === null) return;
+        const typedUnit = /[^\d\s./½⅓⅔¼¾⅛]/.test(text);
+        onChange(typedUnit ? parsed : createQuantity(parsed.amount, value.unit));
+    };
+
+    return (
+        <div className="flex gap-2">
+            <input
+                type="text"
+                inputMode="decimal"
+                value={amountText}
+                onChange={(e) => handleAmountChange(e.target.value)}
+                placeholder={t('quantityPlaceholder')}
+                className="flex-1 min-w-0 bg-background border border-line-light rounded-xl p-3 focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+            />
+            <select
+                value={value.unit}
+                onChange={(e) => onChange(createQuantity(value.amount, e.target.value as QuantityUnit))}
+                className="w-28 bg-background border border-line-light rounded-xl p-3 focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+            >
+                {UNIT_FAMILIES.map(family => (
+                    <optgroup key={family} label={t(FAMILY_LABEL_KEYS[family])}>
+                        {UNITS_BY_FAMILY[family].map(unit => (
+                            <option key={unit} value={unit}>{getUnitLabel(unit, language)}</option>
+                        ))}
+                    </optgroup>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+export default QuantityInput;
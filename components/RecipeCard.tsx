@@ -1,15 +1,25 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Recipe, ShoppingListItem } from '../types';
-import { ClockIcon, FireIcon, XIcon, BookmarkIcon, ChatBubbleIcon, CheckCircleIcon, CircleIcon, ShoppingCartIcon } from './icons';
+import { CookingHistoryEntry, Ingredient, Quantity, Recipe, ShoppingListItem, UnitSystem } from '../types';
+import { ClockIcon, FireIcon, XIcon, BookmarkIcon, ChatBubbleIcon, CheckCircleIcon, CircleIcon, ShoppingCartIcon, PlayIcon } from './icons';
 import { useLanguage } from '../context/LanguageContext';
 import ImageWithFallback from './ImageWithFallback';
 import Spinner from './Spinner';
+import CookedReviewModal from './CookedReviewModal';
+import CookMode from './CookMode';
+import InstructionStepDetails from './InstructionStepDetails';
+import NutritionPanel from './NutritionPanel';
+import { PantryDeduction } from '../utils/pantry';
+import { toInstructionStep } from '../utils/recipeSteps';
+import { getAllergenLabel } from '../utils/allergens';
+import { MAX_SERVINGS, MIN_SERVINGS, findIngredientQuantity, getServingsBase, scaleRecipe } from '../utils/recipeScaling';
+import { DEFAULT_UNIT_SYSTEM, convertIngredientLine, convertTemperaturesInText } from '../utils/unitConversion';
 
 interface RecipeCardProps {
     recipe: Recipe;
     onSelect: () => void;
+    isImageLoading?: boolean; // The image is still being looked up while recommendations stream in
 }
 
 const Tag: React.FC<{ children: React.ReactNode; color: 'red' | 'green' | 'yellow' | 'blue' | 'purple' }> = ({ children, color }) => {
@@ -24,7 +34,7 @@ const Tag: React.FC<{ children: React.ReactNode; color: 'red' | 'green' | 'yello
 }
 
 
-const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, onSelect }) => {
+const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, onSelect, isImageLoading }) => {
     const { t } = useLanguage();
     const isLoadingDetails = recipe.isDetailsLoaded === false;
 
@@ -56,7 +66,11 @@ const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, onSelect }) => {
             onClick={onSelect} 
             className="bg-surface rounded-2xl shadow-subtle overflow-hidden flex cursor-pointer hover:shadow-lg transition-shadow relative"
         >
-            <ImageWithFallback src={imageUrl} alt={recipe.recipeName} className="w-28 h-auto object-cover" />
+            {isImageLoading ? (
+                <div className="w-28 flex-shrink-0 bg-line-light animate-pulse" />
+            ) : (
+                <ImageWithFallback src={imageUrl} alt={recipe.recipeName} className="w-28 h-auto object-cover" />
+            )}
             <div className="p-4 flex flex-col justify-between flex-grow">
                 <div>
                     <h4 className="font-bold text-text-primary mb-2 line-clamp-1">{recipe.recipeName}</h4>
@@ -90,20 +104,46 @@ export const RecipeDetailModal: React.FC<{
     recipe: Recipe;
     onClose: () => void;
     shoppingList: ShoppingListItem[];
-    onToggleShoppingListItem: (itemName: string) => void;
+    onToggleShoppingListItem: (itemName: string, quantity?: Quantity) => void;
     isSaved: boolean;
     onToggleSaveRecipe: (recipe: Recipe) => void;
     onStartChat: (recipe: Recipe) => void;
-}> = ({ recipe, onClose, shoppingList, onToggleShoppingListItem, isSaved, onToggleSaveRecipe, onStartChat }) => {
-    const { t } = useLanguage();
-    const [checkedIngredients, setCheckedIngredients] = useState<Set<string>>(new Set());
+    pantry?: Ingredient[];
+    cookingHistory?: CookingHistoryEntry[];
+    onCooked?: (recipe: Recipe, deductions: PantryDeduction[], servingsEaten: number) => void;
+    unitSystem?: UnitSystem;
+}> = ({ recipe, onClose, shoppingList, onToggleShoppingListItem, isSaved, onToggleSaveRecipe, onStartChat, pantry = [], cookingHistory = [], onCooked, unitSystem = DEFAULT_UNIT_SYSTEM }) => {
+    const { t, language } = useLanguage();
+    const [checkedIngredients, setCheckedIngredients] = useState<Set<number>>(new Set());
+    const [servings, setServings] = useState(() => getServingsBase(recipe));
+    const [isCookedReviewOpen, setIsCookedReviewOpen] = useState(false);
+    const [showCookedFeedback, setShowCookedFeedback] = useState(false);
+    const [isCookModeOpen, setIsCookModeOpen] = useState(false);
+
+    // Everything that leaves this modal (chat, shopping list, cooking log) uses the recipe at the chosen servings
+    const scaledRecipe = useMemo(() => scaleRecipe(recipe, servings), [recipe, servings]);
+    // Only what is shown is converted to the user's units; the recipe itself keeps the units it was written in
+    const displayIngredients = useMemo(
+        () => scaledRecipe.ingredients.map(line => convertIngredientLine(line, unitSystem, language)),
+        [scaledRecipe.ingredients, unitSystem, language]
+    );
+    const steps = useMemo(
+        () => recipe.instructions.map(toInstructionStep).map(step => ({ ...step, text: convertTemperaturesInText(step.text, unitSystem) })),
+        [recipe.instructions, unitSystem]
+    );
+    const baseServings = getServingsBase(recipe);
+
+    useEffect(() => {
+        setServings(getServingsBase(recipe));
+    }, [recipe.recipeName, recipe.servings]);
+    const timesCooked = cookingHistory.filter(entry => entry.recipeName === recipe.recipeName);
 
-    const toggleIngredient = (ingredient: string) => {
+    const toggleIngredient = (index: number) => {
         const newSet = new Set(checkedIngredients);
-        if (newSet.has(ingredient)) {
-            newSet.delete(ingredient);
+        if (newSet.has(index)) {
+            newSet.delete(index);
         } else {
-            newSet.add(ingredient);
+            newSet.add(index);
         }
         setCheckedIngredients(newSet);
     };
@@ -128,13 +168,25 @@ export const RecipeDetailModal: React.FC<{
     const [feedbackItem, setFeedbackItem] = useState<string | null>(null);
 
     const handleAddToList = (ing: string, isAdded: boolean) => {
-        onToggleShoppingListItem(ing);
+        onToggleShoppingListItem(ing, isAdded ? undefined : findIngredientQuantity(ing, scaledRecipe.ingredients));
         if (!isAdded) {
             setFeedbackItem(ing);
             setTimeout(() => setFeedbackItem(null), 2000);
         }
     };
 
+    const handleCookedConfirm = (deductions: PantryDeduction[], servingsEaten: number) => {
+        onCooked?.(scaledRecipe, deductions, servingsEaten);
+        setShowCookedFeedback(true);
+        setTimeout(() => setShowCookedFeedback(false), 2000);
+    };
+
+    // Finishing the last step goes straight to logging the dish when cooking can be recorded here
+    const handleCookModeFinish = () => {
+        setIsCookModeOpen(false);
+        if (onCooked) setIsCookedReviewOpen(true);
+    };
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4 font-sans">
             <motion.div
@@ -175,7 +227,57 @@ export const RecipeDetailModal: React.FC<{
 
                     <p className="text-text-secondary mb-6">{recipe.description}</p>
 
+                    {timesCooked.length > 0 && (
+                        <p className="text-sm text-text-secondary -mt-4 mb-6">
+                            {t('cookedTimes', {
+                                count: timesCooked.length,
+                                date: new Date(timesCooked[0].cookedAt).toLocaleDateString(language === 'ko' ? 'ko-KR' : 'en-US'),
+                            })}
+                        </p>
+                    )}
+
+                    {!isLoadingDetails && recipe.allergenWarnings && recipe.allergenWarnings.length > 0 && (
+                        <div className="mb-4 p-3 rounded-xl bg-red-50 border border-red-200 text-sm font-semibold text-red-700">
+                            ⚠️ {t('recipeAllergenWarning', { allergens: recipe.allergenWarnings.map(allergen => getAllergenLabel(allergen, language)).join(', ') })}
+                        </div>
+                    )}
+
                     <div className="space-y-6 pb-16">
+                        <div className="flex items-center justify-between gap-4 p-4 rounded-xl bg-background">
+                            <div>
+                                <p className="font-bold text-text-primary">{t('servingsUnit', { count: servings })}</p>
+                                {recipe.calories > 0 && (
+                                    <p className="text-xs text-text-secondary">
+                                        {t('caloriesPerServingAndTotal', { perServing: recipe.calories, total: (recipe.calories * servings).toLocaleString() })}
+                                    </p>
+                                )}
+                                {servings !== baseServings && (
+                                    <button onClick={() => setServings(baseServings)} className="text-xs font-semibold text-brand-primary hover:underline">
+                                        {t('resetServings', { count: baseServings })}
+                                    </button>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-3 flex-shrink-0">
+                                <button
+                                    onClick={() => setServings(value => Math.max(MIN_SERVINGS, value - 1))}
+                                    disabled={servings <= MIN_SERVINGS}
+                                    aria-label={t('decreaseServings')}
+                                    className="w-9 h-9 rounded-full bg-surface border border-line-light font-bold text-xl text-text-primary disabled:opacity-40"
+                                >
+                                    -
+                                </button>
+                                <span className="w-6 text-center text-lg font-bold text-text-primary">{servings}</span>
+                                <button
+                                    onClick={() => setServings(value => Math.min(MAX_SERVINGS, value + 1))}
+                                    disabled={servings >= MAX_SERVINGS}
+                                    aria-label={t('increaseServings')}
+                                    className="w-9 h-9 rounded-full bg-surface border border-line-light font-bold text-xl text-text-primary disabled:opacity-40"
+                                >
+                                    +
+                                </button>
+                            </div>
+                        </div>
+
                         <div>
                             <h3 className="text-lg font-bold text-text-primary mb-2 border-b pb-1">{t('ingredients')}</h3>
                             {isLoadingDetails ? (
@@ -185,12 +287,12 @@ export const RecipeDetailModal: React.FC<{
                                 </div>
                             ) : (
                                 <ul className="space-y-3">
-                                    {recipe.ingredients.map(ing => {
-                                        const isChecked = checkedIngredients.has(ing);
+                                    {displayIngredients.map((ing, index) => {
+                                        const isChecked = checkedIngredients.has(index);
                                         return (
                                             <li
-                                                key={ing}
-                                                onClick={() => toggleIngredient(ing)}
+                                                key={index}
+                                                onClick={() => toggleIngredient(index)}
                                                 className="flex items-start gap-3 cursor-pointer group select-none"
                                             >
                                                 <div className={`mt-0.5 transition-colors ${isChecked ? 'text-brand-primary' : 'text-gray-300 group-hover:text-text-secondary'}`}>
@@ -253,6 +355,8 @@ export const RecipeDetailModal: React.FC<{
                             )}
                         </div>
 
+                        {!isLoadingDetails && <NutritionPanel recipe={recipe} />}
+
                         <div>
                             <h3 className="text-lg font-bold text-text-primary mb-2 border-b pb-1">{t('instructions')}</h3>
                             {isLoadingDetails ? (
@@ -262,29 +366,70 @@ export const RecipeDetailModal: React.FC<{
                                 </div>
                             ) : (
                                 <div className="space-y-4">
-                                    {recipe.instructions.map((step, index) => (
+                                    {steps.length > 0 && (
+                                        <button
+                                            onClick={() => setIsCookModeOpen(true)}
+                                            className="w-full flex items-center justify-center gap-2 bg-brand-primary text-white font-bold py-3 px-4 rounded-xl hover:bg-brand-dark transition-colors"
+                                        >
+                                            <PlayIcon className="w-4 h-4" />
+                                            {t('startCookMode')}
+                                        </button>
+                                    )}
+                                    {steps.map((step, index) => (
                                         <div key={index} className="flex gap-4">
                                             <div className="flex-shrink-0 w-8 h-8 rounded-full bg-orange-100 flex items-center justify-center text-orange-600 font-bold text-sm">
                                                 {index + 1}
                                             </div>
-                                            <p className="text-text-primary flex-grow pt-1 leading-relaxed">{step}</p>
+                                            <div className="flex-grow pt-1">
+                                                <p className="text-text-primary leading-relaxed">{step.text}</p>
+                                                <InstructionStepDetails step={step} ingredients={displayIngredients} unitSystem={unitSystem} />
+                                            </div>
                                         </div>
                                     ))}
                                 </div>
                             )}
                         </div>
+
+                        {onCooked && !isLoadingDetails && (
+                            <button
+                                onClick={() => setIsCookedReviewOpen(true)}
+                                className="w-full bg-brand-light/50 text-brand-primary font-bold py-3 px-4 rounded-xl hover:bg-brand-light transition-colors"
+                            >
+                                {showCookedFeedback ? t('cookedSaved') : t('iCookedThis')}
+                            </button>
+                        )}
                     </div>
                     </div>
                 </div>
 
                 <button
-                    onClick={() => onStartChat(recipe)}
+                    onClick={() => onStartChat(scaledRecipe)}
                     className="absolute bottom-6 right-5 bg-brand-primary text-white p-3 rounded-full shadow-lg hover:scale-110 transition-transform z-30"
                     title={t('askAIChef')}
                 >
                     <ChatBubbleIcon className="w-6 h-6" />
                 </button>
             </motion.div>
+
+            {isCookModeOpen && (
+                <CookMode
+                    recipeName={recipe.recipeName}
+                    steps={steps}
+                    ingredients={displayIngredients}
+                    unitSystem={unitSystem}
+                    onClose={() => setIsCookModeOpen(false)}
+                    onFinish={handleCookModeFinish}
+                />
+            )}
+
+            {isCookedReviewOpen && (
+                <CookedReviewModal
+                    recipe={scaledRecipe}
+                    pantry={pantry}
+                    onConfirm={handleCookedConfirm}
+                    onClose={() => setIsCookedReviewOpen(false)}
+                />
+            )}
         </div>
     );
 };
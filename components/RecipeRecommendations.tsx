@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { AnimatePresence } from 'framer-motion';
-import { Recipe, Ingredient, RecipeFilters, ShoppingListItem } from '../types';
+import { Recipe, Ingredient, RecipeFilters, ShoppingListItem, CookingHistoryEntry, UserSettings, FilteredRecipe, Quantity } from '../types';
 import RecipeCard, { RecipeDetailModal } from './RecipeCard';
 import { Spinner, ProgressBar } from './Spinner';
 import FilterModal from './FilterModal';
@@ -9,12 +9,15 @@ import MainHeader from './MainHeader';
 import IngredientSelectionModal from './IngredientSelectionModal';
 import { getIngredientTranslation } from '../data/ingredients';
 import { PlusIcon, XIcon, SparklesIcon } from './icons';
+import { getExpiringIngredients, PantryDeduction } from '../utils/pantry';
+import { getRemainingCalories } from '../utils/foodDiary';
+import { getAllergenLabel } from '../utils/allergens';
 
 interface RecipeRecommendationsProps {
   ingredients: Ingredient[];
   onBack: () => void;
   shoppingList: ShoppingListItem[];
-  onToggleShoppingListItem: (itemName: string) => void;
+  onToggleShoppingListItem: (itemName: string, quantity?: Quantity) => void;
   savedRecipes: Recipe[];
   onToggleSaveRecipe: (recipe: Recipe) => void;
   onStartChat: (recipe: Recipe) => void;
@@ -28,6 +31,9 @@ interface RecipeRecommendationsProps {
   onPriorityIngredientsChange: (names: string[]) => void;
   onRecipeDetailsLoaded?: (recipe: Recipe) => void;
   onLogoClick?: () => void;
+  cookingHistory: CookingHistoryEntry[];
+  onRecipeCooked: (recipe: Recipe, deductions: PantryDeduction[], servingsEaten: number) => void;
+  settings: UserSettings;
 }
 
 const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
@@ -47,7 +53,10 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
   priorityIngredients: controlledPriority,
   onPriorityIngredientsChange,
   onRecipeDetailsLoaded,
-  onLogoClick
+  onLogoClick,
+  cookingHistory,
+  onRecipeCooked,
+  settings
 }) => {
   const [recipes, setRecipes] = useState<Recipe[]>(cachedRecipes);
   const [isLoading, setIsLoading] = useState(false);
@@ -58,8 +67,10 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
   const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
   const [filters, setFilters] = useState<RecipeFilters>(controlledFilters);
   const [priorityIngredients, setPriorityIngredients] = useState<string[]>(controlledPriority);
-  const [progress, setProgress] = useState(0);
-  const intervalRef = useRef<number | null>(null);
+  const [filteredRecipes, setFilteredRecipes] = useState<FilteredRecipe[]>([]);
+  const [expectedCount, setExpectedCount] = useState(0);
+  // Indices of streamed recipes whose image hasn't arrived yet
+  const [imageLoadingIndices, setImageLoadingIndices] = useState<number[]>([]);
 
   useEffect(() => {
     setRecipes(cachedRecipes);
@@ -77,37 +88,6 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
     setSelectedRecipe(initialOpenedRecipe || null);
   }, [initialOpenedRecipe]);
 
-  useEffect(() => {
-    if (isLoading) {
-      setProgress(0);
-      const totalDuration = 5000; // Faster duration since we only fetch summaries
-      const intervalDuration = 100;
-      const steps = totalDuration / intervalDuration;
-      const increment = 95 / steps;
-
-      intervalRef.current = window.setInterval(() => {
-        setProgress(prev => {
-          if (prev >= 95) {
-            if (intervalRef.current) clearInterval(intervalRef.current);
-            return 95;
-          }
-          return prev + increment;
-        });
-      }, intervalDuration);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-      if (progress > 0 && progress < 100) {
-        setProgress(100);
-      }
-    }
-    return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
-    };
-  }, [isLoading]);
-
-
   const togglePriorityIngredient = (name: string) => {
     setPriorityIngredients(prev => {
       const next = prev.includes(name)
@@ -118,6 +98,30 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
     });
   };
 
+  // Only sent when the user opted in, so recommendations otherwise ignore the food diary
+  const remainingCalories = settings.useRemainingCalories
+    ? getRemainingCalories(cookingHistory, settings.nutritionGoals)
+    : undefined;
+
+  const expiringIngredientNames = getExpiringIngredients(ingredients).map(ing => ing.name);
+  const isUsingExpiringFirst = expiringIngredientNames.length > 0 &&
+    expiringIngredientNames.every(name => priorityIngredients.includes(name));
+
+  // One-tap mode: make every soon-to-expire ingredient a priority ingredient
+  const handleUseExpiringFirst = () => {
+    const next = isUsingExpiringFirst
+      ? priorityIngredients.filter(name => !expiringIngredientNames.includes(name))
+      : Array.from(new Set([...expiringIngredientNames, ...priorityIngredients]));
+    setPriorityIngredients(next);
+    onPriorityIngredientsChange(next);
+  };
+
+  // Keeps the local list and the App-level cache in step while recipes stream in
+  const updateRecipes = (update: (prev: Recipe[]) => Recipe[]) => {
+    setRecipes(update);
+    onRecipesChange(update);
+  };
+
   const handleFetchRecipes = async () => {
     if (ingredients.length === 0) {
       setError(t('addIngredientsFirst'));
@@ -125,24 +129,58 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
     }
     setIsLoading(true);
     setError(null);
-    setRecipes([]);
-    onRecipesChange([]);
+    setExpectedCount(0);
+    setFilteredRecipes([]);
+    setImageLoadingIndices([]);
+    updateRecipes(() => []);
+    let receivedCount = 0;
     try {
-      const { getRecipeRecommendations } = await import('../services/geminiService');
+      const { streamRecipeRecommendations } = await import('../services/geminiService');
       const ingredientNames = ingredients.map(ing => ing.name);
-      const result = await getRecipeRecommendations(ingredientNames, priorityIngredients, filters, language);
-      setRecipes(result);
-      onRecipesChange(result);
-      if (result.length === 0) {
+      const profile = remainingCalories === undefined ? settings : { ...settings, remainingCalories };
+      await streamRecipeRecommendations(ingredientNames, priorityIngredients, filters, language, profile, event => {
+        switch (event.type) {
+          case 'start':
+            setExpectedCount(event.total);
+            break;
+          case 'recipe':
+            receivedCount++;
+            updateRecipes(prev => {
+              const next = [...prev];
+              next[event.index] = event.recipe;
+              return next;
+            });
+            setImageLoadingIndices(prev => [...prev, event.index]);
+            break;
+          case 'image':
+            updateRecipes(prev => prev.map((recipe, index) => index === event.index
+              ? { ...recipe, imageUrl: event.imageUrl ?? undefined }
+              : recipe));
+            setImageLoadingIndices(prev => prev.filter(index => index !== event.index));
+            break;
+          case 'filtered':
+            setFilteredRecipes(prev => [...prev, event.recipe]);
+            break;
+        }
+      });
+      if (receivedCount === 0) {
         setError(t('noRecipesFound'));
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred.');
     } finally {
+      // An interrupted stream may leave images that will never arrive
+      setImageLoadingIndices([]);
       setIsLoading(false);
     }
   };
 
+  // Each recipe counts twice: once when it arrives, once when its image does
+  const loadedImageCount = recipes.filter((_, index) => !imageLoadingIndices.includes(index)).length;
+  const progress = expectedCount > 0
+    ? Math.min(100, ((recipes.length + loadedImageCount) / (expectedCount * 2)) * 100)
+    : 0;
+
   const handleRecipeSelect = async (recipe: Recipe) => {
     setSelectedRecipe(recipe);
     onRecipeModalChange?.(recipe);
@@ -152,7 +190,7 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
       try {
         const { getRecipeDetails } = await import('../services/geminiService');
         const ingredientNames = ingredients.map(ing => ing.name);
-        const details = await getRecipeDetails(recipe.recipeName, ingredientNames, language);
+        const details = await getRecipeDetails(recipe.recipeName, ingredientNames, language, settings);
 
         const updatedRecipe = {
           ...recipe,
@@ -199,6 +237,16 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
             <h3 className="font-bold text-text-primary mb-2 text-lg">{t('priorityIngredientsTitle')}</h3>
             <p className="text-sm text-text-secondary mb-3">{t('priorityIngredientsSubtitle')}</p>
 
+            {expiringIngredientNames.length > 0 && (
+              <button
+                onClick={handleUseExpiringFirst}
+                className={`mb-3 w-full flex items-center justify-between px-4 py-3 rounded-xl border text-sm font-bold transition-colors ${isUsingExpiringFirst ? 'bg-orange-500 border-orange-500 text-white' : 'bg-orange-50 border-orange-200 text-orange-700 hover:bg-orange-100'}`}
+              >
+                <span>⏰ {t('useExpiringFirst')}</span>
+                <span className="text-xs font-semibold opacity-80">{t('expiringSoonCount', { count: expiringIngredientNames.length })}</span>
+              </button>
+            )}
+
             <div className="flex flex-wrap gap-2">
               {priorityIngredients.map(name => {
                 const ing = ingredients.find(i => i.name === name);
@@ -235,7 +283,7 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
           />
         )}
 
-        <div className="flex gap-3 mb-8 border-t border-line-light pt-6">
+        <div className={`flex gap-3 border-t border-line-light pt-6 ${remainingCalories === undefined ? 'mb-8' : 'mb-3'}`}>
           <button
             onClick={() => setIsFilterModalOpen(true)}
             className="flex-1 bg-white border border-gray-200 text-black font-bold py-4 rounded-xl shadow-sm hover:bg-gray-50 transition-colors"
@@ -252,6 +300,12 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
           </button>
         </div>
 
+        {remainingCalories !== undefined && (
+          <p className="mb-8 text-sm text-text-secondary text-center">
+            🔥 {remainingCalories > 0 ? t('remainingCaloriesHint', { calories: remainingCalories.toLocaleString() }) : t('calorieGoalReachedHint')}
+          </p>
+        )}
+
         {isFilterModalOpen && (
           <FilterModal
             initialFilters={filters}
@@ -265,13 +319,19 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
         )}
 
         {isLoading && (
-          <div className="py-8 px-4 text-center">
+          <div className={recipes.length === 0 ? 'py-8 px-4 text-center' : 'pb-4 text-center'}>
             <p className="text-text-primary font-semibold mb-3">
-              {progress < 50 ? t('loadingRecipes') : t('loadingRecipesAlmostDone')}
+              {recipes.length === 0
+                ? t('loadingRecipes')
+                : recipes.length < expectedCount
+                  ? t('recipesStreamingProgress', { count: recipes.length, total: expectedCount })
+                  : t('loadingRecipesAlmostDone')}
             </p>
-            <div className="my-6">
-              <Spinner size="lg" />
-            </div>
+            {recipes.length === 0 && (
+              <div className="my-6">
+                <Spinner size="lg" />
+              </div>
+            )}
             <ProgressBar progress={progress} />
           </div>
         )}
@@ -289,10 +349,23 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
 
         {error && <p className="text-red-500 text-center py-4 mt-4">{error}</p>}
 
-        {!isLoading && recipes.length > 0 && (
+        {filteredRecipes.length > 0 && (
+          <div className="mb-4 p-4 rounded-xl bg-yellow-50 border border-yellow-200 text-sm">
+            <p className="font-bold text-yellow-800 mb-1">🛡️ {t('recipesFilteredForAllergies', { count: filteredRecipes.length })}</p>
+            <ul className="text-yellow-800 space-y-0.5">
+              {filteredRecipes.map((filtered, index) => (
+                <li key={index}>
+                  {t('recipeFilteredReason', { name: filtered.recipeName, allergens: filtered.allergens.map(allergen => getAllergenLabel(allergen, language)).join(', ') })}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {recipes.length > 0 && (
           <div className="space-y-4 pb-20">
             {recipes.map((recipe, index) => (
-              <RecipeCard key={index} recipe={recipe} onSelect={() => handleRecipeSelect(recipe)} />
+              <RecipeCard key={index} recipe={recipe} isImageLoading={imageLoadingIndices.includes(index)} onSelect={() => handleRecipeSelect(recipe)} />
             ))}
           </div>
         )}
@@ -307,6 +380,10 @@ const RecipeRecommendations: React.FC<RecipeRecommendationsProps> = ({
               isSaved={savedRecipes.some(r => r.recipeName === selectedRecipe.recipeName)}
               onToggleSaveRecipe={onToggleSaveRecipe}
               onStartChat={onStartChat}
+              pantry={ingredients}
+              cookingHistory={cookingHistory}
+              onCooked={onRecipeCooked}
+              unitSystem={settings.unitSystem}
               key="recipe-detail-modal"
             />
           )}
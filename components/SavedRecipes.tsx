@@ -2,19 +2,24 @@
 import React, { useState } from 'react';
 import Header from './Header';
 import { useLanguage } from '../context/LanguageContext';
-import { Recipe, ShoppingListItem } from '../types';
+import { CookingHistoryEntry, Ingredient, Quantity, Recipe, ShoppingListItem, UnitSystem } from '../types';
 import RecipeCard, { RecipeDetailModal } from './RecipeCard';
+import { PantryDeduction } from '../utils/pantry';
 
 interface SavedRecipesProps {
   savedRecipes: Recipe[];
   onBack: () => void;
   shoppingList: ShoppingListItem[];
-  onToggleShoppingListItem: (itemName: string) => void;
+  onToggleShoppingListItem: (itemName: string, quantity?: Quantity) => void;
   onToggleSaveRecipe: (recipe: Recipe) => void;
   onStartChat: (recipe: Recipe) => void;
+  ingredients: Ingredient[];
+  cookingHistory: CookingHistoryEntry[];
+  onRecipeCooked: (recipe: Recipe, deductions: PantryDeduction[], servingsEaten: number) => void;
+  unitSystem: UnitSystem;
 }
 
-const SavedRecipes: React.FC<SavedRecipesProps> = ({ savedRecipes, onBack, shoppingList, onToggleShoppingListItem, onToggleSaveRecipe, onStartChat }) => {
+const SavedRecipes: React.FC<SavedRecipesProps> = ({ savedRecipes, onBack, shoppingList, onToggleShoppingListItem, onToggleSaveRecipe, onStartChat, ingredients, cookingHistory, onRecipeCooked, unitSystem }) => {
   const { t } = useLanguage();
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
 
@@ -49,6 +54,10 @@ const SavedRecipes: React.FC<SavedRecipesProps> = ({ savedRecipes, onBack, shopp
             isSaved={savedRecipes.some(r => r.recipeName === selectedRecipe.recipeName)}
             onToggleSaveRecipe={onToggleSaveRecipe}
             onStartChat={onStartChat}
+            pantry={ingredients}
+            cookingHistory={cookingHistory}
+            onCooked={onRecipeCooked}
+            unitSystem={unitSystem}
           />
         )}
       </div>
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { CustomIngredient } from '../types';
+import { XIcon } from './icons';
+import { useLanguage } from '../context/LanguageContext';
+import { getIngredientEmoji, getIngredientTranslation } from '../data/ingredients';
+import { LOW_CONFIDENCE, ScanReviewItem, matchScannedName, mergeReviewItems } from '../utils/scan';
+import QuantityInput from './QuantityInput';
+import CustomIngredientModal from './CustomIngredientModal';
+
+interface ScanReviewModalProps {
+    title: string;
+    items: ScanReviewItem[];
+    image?: string; // Shown with the detected bounding boxes when the items have them
+    onConfirm: (items: ScanReviewItem[]) => void;
+    onClose: () => void;
+    onCreateCustomIngredient?: (ingredient: CustomIngredient) => void;
+}
+
+// Lets the user correct, merge or drop scanned items before they are added to the pantry.
+const ScanReviewModal: React.FC<ScanReviewModalProps> = ({ title, items: initialItems, image, onConfirm, onClose, onCreateCustomIngredient }) => {
+    const { t, language } = useLanguage();
+    const [items, setItems] = useState<ScanReviewItem[]>(initialItems);
+    const [customItem, setCustomItem] = useState<ScanReviewItem | null>(null);
+
+    const updateItem = (id: string, changes: Partial<ScanReviewItem>) => {
+        setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    };
+
+    const handleNameChange = (id: string, name: string) => {
+        // A corrected name is something the user vouches for
+        updateItem(id, { name, matchedName: matchScannedName(name), confidence: 1 });
+    };
+
+    const handleCustomIngredientSaved = (ingredient: CustomIngredient) => {
+        if (!customItem) return;
+        onCreateCustomIngredient?.(ingredient);
+        updateItem(customItem.id, { name: ingredient.en, matchedName: ingredient.en, confidence: 1 });
+    };
+
+    const handleRemove = (id: string) => {
+        setItems(prev => prev.filter(item => item.id !== id));
+    };
+
+    const handleMerge = (targetId: string, sourceId: string) => {
+        setItems(prev => {
+            const source = prev.find(item => item.id === sourceId);
+            if (!source) return prev;
+            return prev
+                .filter(item => item.id !== sourceId)
+                .map(item => item.id === targetId ? mergeReviewItems(item, source) : item);
+        });
+    };
+
+    const showBoxes = !!image && items.some(item => item.box);
+    const matchedCount = items.filter(item => item.matchedName).length;
+    const unknownCount = items.length - matchedCount;
+
+    const handleConfirm = () => {
+        onConfirm(items);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-end sm:items-center z-50 font-sans">
+            <div className="bg-surface rounded-t-2xl sm:rounded-2xl shadow-lg w-full max-w-lg max-h-[90vh] flex flex-col">
+                <div className="p-6 pb-3 flex justify-between items-start gap-4 border-b border-line-light">
+                    <div>
+                        <h2 className="text-xl font-bold text-text-primary">{title}</h2>
+                        <p className="text-sm text-text-secondary mt-1">{t('scanReviewSubtitle')}</p>
+                    </div>
+                    <button onClick={onClose} className="text-text-secondary hover:text-text-primary">
+                        <XIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-grow custom-scrollbar p-4 space-y-3">
+                    {showBoxes && (
+                        <div className="relative rounded-xl overflow-hidden border border-line-light">
+                            <img src={image} alt="" className="w-full h-auto block" />
+                            {items.map((item, index) => item.box && (
+                                <div
+                                    key={item.id}
+                                    className={`absolute border-2 rounded ${item.confidence < LOW_CONFIDENCE ? 'border-yellow-400' : 'border-brand-primary'}`}
+                                    style={{
+                                        top: `${item.box[0] / 10}%`,
+                                        left: `${item.box[1] / 10}%`,
+                                        height: `${(item.box[2] - item.box[0]) / 10}%`,
+                                        width: `${(item.box[3] - item.box[1]) / 10}%`,
+                                    }}
+                                >
+                                    <span className="absolute -top-0.5 -left-0.5 bg-brand-primary text-white text-[10px] font-bold px-1 rounded-br">{index + 1}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {items.length === 0 && (
+                        <p className="text-center text-text-secondary py-6">{t('scanNothingFound')}</p>
+                    )}
+                    {items.map((item, index) => {
+                        const duplicateOf = item.matchedName
+                            ? items.slice(0, index).find(other => other.matchedName === item.matchedName)
+                            : undefined;
+                        const isLowConfidence = item.confidence < LOW_CONFIDENCE;
+
+                        return (
+                            <div
+                                key={item.id}
+                                className={`rounded-xl border p-3 ${item.matchedName ? 'border-line-light' : 'border-red-200 bg-red-50/50'}`}
+                            >
+                                <div className="flex items-center gap-2">
+                                    {showBoxes && item.box && (
+                                        <span className="flex-shrink-0 w-5 h-5 rounded bg-brand-primary text-white text-[10px] font-bold flex items-center justify-center">{index + 1}</span>
+                                    )}
+                                    <span className="text-xl w-7 text-center">{item.matchedName ? getIngredientEmoji(item.matchedName) : '❓'}</span>
+                                    <input
+                                        type="text"
+                                        value={item.name}
+                                        onChange={(e) => handleNameChange(item.id, e.target.value)}
+                                        className="flex-grow min-w-0 bg-background border border-line-light rounded-lg px-2 py-1.5 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-brand-primary/50"
+                                    />
+                                    <button
+                                        onClick={() => handleRemove(item.id)}
+                                        className="p-1 text-text-secondary hover:text-red-500 rounded-full hover:bg-gray-100 transition-colors"
+                                        aria-label={t('scanDropItem')}
+                                    >
+                                        <XIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+
+                                <div className="flex flex-wrap items-center gap-2 mt-2 ml-9 text-xs">
+                                    {item.matchedName ? (
+                                        <span className="text-green-700 font-semibold">✓ {getIngredientTranslation(item.matchedName, language)}</span>
+                                    ) : (
+                                        <>
+                                            <span className="px-1.5 py-0.5 rounded-full bg-red-100 text-red-700 font-bold">{t('scanUnknownItem')}</span>
+                                            {onCreateCustomIngredient && (
+                                                <button onClick={() => setCustomItem(item)} className="font-bold text-brand-primary hover:underline">
+                                                    {t('scanAddAsCustom')}
+                                                </button>
+                                            )}
+                                        </>
+                                    )}
+                                    {isLowConfidence && (
+                                        <span className="px-1.5 py-0.5 rounded-full bg-yellow-100 text-yellow-800 font-bold">{t('scanLowConfidence')}</span>
+                                    )}
+                                    {item.price !== undefined && (
+                                        <span className="text-text-secondary">{item.price.toLocaleString()}</span>
+                                    )}
+                                    {item.rawText && (
+                                        <span className="text-text-tertiary truncate max-w-full">“{item.rawText}”</span>
+                                    )}
+                                </div>
+
+                                <div className="mt-2 ml-9">
+                                    <QuantityInput
+                                        value={item.quantity}
+                                        onChange={(quantity) => updateItem(item.id, { quantity, quantityDetected: true })}
+                                    />
+                                </div>
+
+                                {duplicateOf && (
+                                    <button
+                                        onClick={() => handleMerge(duplicateOf.id, item.id)}
+                                        className="mt-2 ml-9 text-xs font-bold text-brand-primary hover:underline"
+                                    >
+                                        {t('scanMergeWith', { name: duplicateOf.name })}
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="p-6 pt-3 border-t border-line-light">
+                    {unknownCount > 0 && (
+                        <p className="text-xs text-red-600 mb-2 text-center">{t('scanUnknownSkipped', { count: unknownCount })}</p>
+                    )}
+                    <button
+                        onClick={handleConfirm}
+                        disabled={matchedCount === 0}
+                        className="w-full bg-brand-primary text-white font-bold py-3 px-4 rounded-xl disabled:opacity-50"
+                    >
+                        {t('scanAddItems', { count: matchedCount })}
+                    </button>
+                </div>
+            </div>
+
+            {customItem && (
+                <CustomIngredientModal
+                    initialName={customItem.name}
+                    onSave={handleCustomIngredientSaved}
+                    onClose={() => setCustomItem(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default ScanReviewModal;
@@ -1,8 +1,9 @@
 
 import React, { useState } from 'react';
-import { UserSettings } from '../types';
+import { UnitSystem, UserSettings } from '../types';
 import { XIcon } from './icons';
 import { useLanguage } from '../context/LanguageContext';
+import NutritionGoalsEditor from './NutritionGoalsEditor';
 
 interface SettingsModalProps {
   initialSettings: UserSettings;
@@ -36,6 +37,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ initialSettings, onSave,
     'Advanced': 'advanced'
   } as const;
 
+  const unitSystems: UnitSystem[] = ['metric', 'us', 'korean'];
+  const unitSystemKeys = {
+    metric: 'unitSystemMetric',
+    us: 'unitSystemUS',
+    korean: 'unitSystemKorean'
+  } as const;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4 font-sans animate-fade-in">
       <div className="bg-white dark:bg-[#1C1C1C] rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-8 relative border border-gray-200 dark:border-gray-800 animate-fade-in-up">
@@ -58,6 +66,28 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ initialSettings, onSave,
             </div>
           </div>
 
+          {/* Units */}
+          <div>
+            <label className="block text-lg font-semibold text-gray-700 dark:text-gray-300 mb-2">{t('unitSystem')}</label>
+            <div className="flex flex-wrap gap-2">
+              {unitSystems.map(system => (
+                <button key={system} onClick={() => setSettings({...settings, unitSystem: system})} className={`px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 ${settings.unitSystem === system ? 'bg-brand-primary text-white shadow-lg' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-brand-primary/20'}`}>
+                  {t(unitSystemKeys[system])}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Nutrition Goals */}
+          <div>
+            <label className="block text-lg font-semibold text-gray-700 dark:text-gray-300 mb-2">{t('nutritionGoalsTitle')}</label>
+            <NutritionGoalsEditor goals={settings.nutritionGoals} onChange={nutritionGoals => setSettings({...settings, nutritionGoals})} />
+            <label className="mt-3 flex items-center space-x-2 cursor-pointer">
+              <input type="checkbox" checked={settings.useRemainingCalories} onChange={e => setSettings({...settings, useRemainingCalories: e.target.checked})} className="form-checkbox h-4 w-4 text-brand-primary rounded focus:ring-brand-primary/50 bg-gray-200 dark:bg-gray-600 border-gray-300 dark:border-gray-500" />
+              <span className="text-sm text-gray-700 dark:text-gray-300">{t('useRemainingCaloriesLabel')}</span>
+            </label>
+          </div>
+
           {/* Max Cook Time */}
            <div>
             <label htmlFor="maxCookTime" className="block text-lg font-semibold text-gray-700 dark:text-gray-300 mb-2">{t('maxCookingTime', { time: settings.maxCookTime })}</label>
@@ -3,7 +3,9 @@ import Header from './Header';
 import { useLanguage } from '../context/LanguageContext';
 import { ShoppingListItem } from '../types';
 import { XIcon, SearchIcon, PlusIcon } from './icons';
-import { getIngredientCategory, getIngredientTranslation, getIngredientEmoji, ALL_INGREDIENTS, INGREDIENT_CATEGORIES } from '../data/ingredients';
+import { getIngredientCategory, getIngredientTranslation, getIngredientEmoji, IngredientInfo, INGREDIENT_CATEGORIES } from '../data/ingredients';
+import { searchIngredients } from '../utils/ingredientSearch';
+import { formatQuantity } from '../utils/quantity';
 
 interface ShoppingListProps {
   shoppingList: ShoppingListItem[];
@@ -14,7 +16,7 @@ interface ShoppingListProps {
 const ShoppingList: React.FC<ShoppingListProps> = ({ shoppingList, setShoppingList, onBack }) => {
   const { t, language } = useLanguage();
   const [searchTerm, setSearchTerm] = useState('');
-  const [searchSuggestions, setSearchSuggestions] = useState<(typeof ALL_INGREDIENTS[0])[]>([]);
+  const [searchSuggestions, setSearchSuggestions] = useState<IngredientInfo[]>([]);
 
   const handleRemoveItem = (itemName: string) => {
     setShoppingList(prev => prev.filter(item => item.name !== itemName));
@@ -46,16 +48,8 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ shoppingList, setShoppingLi
       return;
     }
 
-    const lowerCaseValue = value.toLowerCase();
-
     // Filter out items already in the shopping list
-    const currentListNames = new Set(shoppingList.map(i => i.name));
-
-    const filtered = ALL_INGREDIENTS.filter(
-      ing => (ing.en.toLowerCase().includes(lowerCaseValue) || ing.ko.toLowerCase().includes(lowerCaseValue)) && !currentListNames.has(ing.en)
-    ).slice(0, 20);
-
-    setSearchSuggestions(filtered);
+    setSearchSuggestions(searchIngredients(value, { exclude: shoppingList.map(i => i.name) }));
   };
 
   return (
@@ -126,6 +120,9 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ shoppingList, setShoppingLi
                           <div className="flex items-center gap-3">
                             <span className="text-xl">{getIngredientEmoji(item.name)}</span>
                             <span className="text-text-primary font-medium">{getIngredientTranslation(item.name, language)}</span>
+                            {item.quantity && (
+                              <span className="text-sm text-text-secondary">{formatQuantity(item.quantity, language)}</span>
+                            )}
                           </div>
                           <button onClick={() => handleRemoveItem(item.name)} className="text-text-secondary hover:text-red-500 p-1 transition-colors">
                             <XIcon className="w-5 h-5" />
@@ -0,0 +1,58 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { MicIcon, StopIcon, XIcon } from './icons';
+import { useLanguage } from '../context/LanguageContext';
+
+export type VoiceModeStatus = 'listening' | 'waitingForWakePhrase' | 'thinking' | 'speaking' | 'idle';
+
+interface VoiceModePanelProps {
+    status: VoiceModeStatus;
+    requireWakePhrase: boolean;
+    onToggleWakePhrase: () => void;
+    onTalk: () => void; // Interrupts the AI Chef (or the reply being written) so the user can speak
+    onExit: () => void;
+}
+
+// Hands-free controls shown above the composer while voice mode is on. The big button is the
+// only thing the user has to reach for: it cuts the AI Chef off and starts listening.
+const VoiceModePanel: React.FC<VoiceModePanelProps> = ({ status, requireWakePhrase, onToggleWakePhrase, onTalk, onExit }) => {
+    const { t } = useLanguage();
+
+    const statusLabel = {
+        listening: t('voiceModeListening'),
+        waitingForWakePhrase: t('voiceModeWaitingForWakePhrase'),
+        thinking: t('voiceModeThinking'),
+        speaking: t('voiceModeSpeaking'),
+        idle: t('voiceModeIdle'),
+    }[status];
+    const isListening = status === 'listening' || status === 'waitingForWakePhrase';
+
+    return (
+        <div className="mb-3 p-4 rounded-2xl bg-brand-light/40 border border-brand-primary/20">
+            <div className="flex items-center justify-between mb-3">
+                <span className="text-sm font-bold text-text-primary">{t('voiceMode')}</span>
+                <button onClick={onExit} aria-label={t('voiceModeExit')} title={t('voiceModeExit')} className="p-1 text-text-secondary hover:text-text-primary">
+                    <XIcon className="w-4 h-4" />
+                </button>
+            </div>
+            <div className="flex flex-col items-center gap-2">
+                <motion.button
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onTalk}
+                    disabled={isListening}
+                    aria-label={status === 'speaking' || status === 'thinking' ? t('voiceModeInterrupt') : t('voiceModeTalk')}
+                    className={`w-16 h-16 rounded-full flex items-center justify-center text-white transition-colors ${isListening ? 'bg-red-500 animate-pulse' : 'bg-brand-primary hover:bg-brand-dark'}`}
+                >
+                    {status === 'speaking' || status === 'thinking' ? <StopIcon className="w-7 h-7" /> : <MicIcon className="w-7 h-7" />}
+                </motion.button>
+                <p className="text-sm text-text-secondary text-center" aria-live="polite">{statusLabel}</p>
+            </div>
+            <label className="flex items-center justify-center gap-2 mt-3 text-xs text-text-secondary">
+                <input type="checkbox" checked={requireWakePhrase} onChange={onToggleWakePhrase} className="accent-brand-primary" />
+                {t('voiceModeRequireWakePhrase')}
+            </label>
+        </div>
+    );
+};
+
+export default VoiceModePanel;
@@ -0,0 +1,41 @@
+// Allergen groups, keyed by the English name stored in UserSettings.allergies (e.g. the Onboarding presets).
+// `ingredients` are canonical INGREDIENT_DATA names; `derivatives` are other foods (English or Korean)
+// that contain the allergen and may show up in AI-written ingredient lists. `safe` lists look-alikes
+// that don't contain it, such as "Coconut Milk" for milk.
+export const ALLERGEN_GROUPS: { [key: string]: { ingredients: string[]; derivatives: string[]; safe?: string[] } } = {
+  'Peanuts': {
+    ingredients: ['Peanuts'],
+    derivatives: ['Peanut Butter', 'Peanut Oil', 'Satay', '땅콩버터', '땅콩기름'],
+  },
+  'Egg': {
+    ingredients: ['Egg', 'Mayonnaise'],
+    derivatives: ['Egg Yolk', 'Egg White', 'Mayo', 'Meringue', 'Aioli', '마요', '노른자', '흰자', '달걀', '계란', '지단', '머랭'],
+  },
+  'Milk': {
+    ingredients: ['Milk', 'Cheese', 'Cheddar Cheese', 'Mozzarella Cheese', 'Parmesan Cheese', 'Yogurt', 'Butter', 'Heavy Cream', 'Sour Cream', 'Cream Cheese'],
+    derivatives: ['Cream', 'Whey', 'Ghee', 'Buttermilk', 'Condensed Milk', 'Ricotta', 'Mascarpone', '우유', '치즈', '버터', '생크림', '연유', '요거트', '요구르트'],
+    safe: ['Coconut Milk', 'Coconut Cream', 'Oat Milk', 'Almond Milk', 'Soy Milk', 'Rice Milk', 'Peanut Butter', 'Cocoa Butter', 'Vegan Butter', 'Cream of Tartar', '코코넛밀크', '두유', '땅콩버터'],
+  },
+  // The Onboarding preset (🥜) covers peanuts as well as tree nuts
+  'Nuts': {
+    ingredients: ['Peanuts', 'Almonds', 'Walnuts', 'Almond Milk'],
+    derivatives: ['Peanut', 'Peanut Butter', 'Peanut Oil', 'Satay', '땅콩', '땅콩버터', '땅콩기름', 'Almond', 'Walnut', 'Cashew', 'Pecan', 'Pistachio', 'Hazelnut', 'Pine Nut', 'Macadamia', 'Nutella', 'Pesto', '호두', '아몬드', '잣', '캐슈넛', '피스타치오', '헤이즐넛', '마카다미아'],
+    safe: ['Nutmeg', 'Coconut'],
+  },
+  'Shellfish': {
+    ingredients: ['Shrimp', 'Clams', 'Squid', 'Oyster Sauce'],
+    derivatives: ['Prawn', 'Crab', 'Lobster', 'Mussel', 'Oyster', 'Scallop', 'Octopus', '새우', '조개', '바지락', '꽃게', '게살', '랍스터', '홍합', '굴', '가리비', '관자', '오징어', '문어', '낙지'],
+  },
+  'Wheat': {
+    ingredients: ['Flour', 'Bread', 'Pasta', 'Noodles', 'Ramen Noodles', 'Soy Sauce'],
+    derivatives: ['Wheat', 'Breadcrumb', 'Panko', 'Udon', 'Tortilla', 'Couscous', 'Spaghetti', 'Dumpling Wrapper', '밀가루', '부침가루', '튀김가루', '빵가루', '빵', '우동', '라면', '국수', '만두피', '또띠아'],
+  },
+  'Soy': {
+    ingredients: ['Tofu', 'Soy Sauce', 'Soy Milk', 'Doenjang (Soybean Paste)', 'Gochujang (Korean Chili Paste)', 'Bean Sprouts'],
+    derivatives: ['Soybean', 'Edamame', 'Miso', 'Tempeh', 'Natto', '대두', '두부', '간장', '된장', '고추장', '쌈장', '청국장', '두유', '콩나물', '콩가루'],
+  },
+  'Fish': {
+    ingredients: ['Salmon', 'Tuna', 'Fish Sauce'],
+    derivatives: ['Fish', 'Anchovy', 'Cod', 'Mackerel', 'Sardine', 'Pollock', 'Bonito', 'Dashi', '생선', '멸치', '연어', '참치', '고등어', '대구', '명태', '황태', '가다랑어', '액젓', '어묵'],
+  },
+};
@@ -1,7 +1,10 @@
+import { CustomIngredient } from '../types';
+import { normalizeIngredientName } from '../utils/text';
+
 // This file is the single source of truth for all ingredient data.
 // The key is the canonical English name, which is used for state management.
 export const INGREDIENT_DATA: {
-  [key: string]: { en: string; ko: string; category: keyof typeof CATEGORY_ORDER; emoji: string };
+  [key: string]: IngredientInfo;
 } = {
   // Vegetables
   'Onion': { en: 'Onion', ko: '양파', category: 'vegetables', emoji: '🧅' },
@@ -131,6 +134,101 @@ export const INGREDIENT_DATA: {
   'Seaweed (Gim)': { en: 'Seaweed (Gim)', ko: '김', category: 'others', emoji: '🍙' },
 };
 
+export type IngredientInfo = { en: string; ko: string; category: IngredientCategory; emoji: string };
+
+// Ingredients the user created themselves, keyed like INGREDIENT_DATA. Filled by `setCustomIngredients`.
+let customIngredientData: { [key: string]: IngredientInfo } = {};
+
+const getIngredientData = (englishName: string): IngredientInfo | undefined => {
+  return INGREDIENT_DATA[englishName] ?? customIngredientData[englishName];
+};
+
+// Built-in and custom ingredients together. `setCustomIngredients` swaps in a new array, so
+// anything derived from the previous one can tell it changed.
+let allIngredients: IngredientInfo[] = Object.values(INGREDIENT_DATA);
+const catalogListeners = new Set<() => void>();
+
+export const getAllIngredients = (): IngredientInfo[] => allIngredients;
+
+/**
+ * Calls `listener` whenever the custom ingredients change.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToIngredientCatalog = (listener: () => void) => {
+  catalogListeners.add(listener);
+  return () => {
+    catalogListeners.delete(listener);
+  };
+};
+
+// Other names people (or the AI) use for catalog ingredients, keyed by canonical English name.
+// Plurals and letter case are handled by `normalizeIngredientName`, so only real alternatives go here.
+export const INGREDIENT_SYNONYMS: { [key: string]: string[] } = {
+  'Green Onion': ['Scallion', 'Spring Onion', '파', '쪽파'],
+  'Bell Pepper': ['Capsicum', 'Sweet Pepper', '피망'],
+  'Cabbage': ['Napa Cabbage', '배추'],
+  'Zucchini': ['Courgette', '주키니'],
+  'Eggplant': ['Aubergine'],
+  'Mushroom': ['Shiitake', '표고버섯', '양송이'],
+  'Radish': ['Daikon', 'Korean Radish'],
+  'Leek': ['Chives', 'Garlic Chives'],
+  'Coriander': ['Cilantro'],
+  'Pork Belly': ['Samgyeopsal'],
+  'Ground Beef': ['Minced Beef', 'Beef Mince', '다진 소고기'],
+  'Ground Pork': ['Minced Pork', 'Pork Mince', '다진 돼지고기'],
+  'Egg': ['달걀'],
+  'Shrimp': ['Prawn'],
+  'Tuna': ['Canned Tuna', '참치캔'],
+  'Clams': ['바지락'],
+  'Rice': ['White Rice', 'Cooked Rice', '쌀', '밥'],
+  'Flour': ['All-Purpose Flour', 'Wheat Flour'],
+  'Noodles': ['면', 'Somen'],
+  'Ramen Noodles': ['Ramen', 'Ramyeon', 'Instant Noodles'],
+  'Rice Cakes (Tteok)': ['Rice Cake', '가래떡'],
+  'Heavy Cream': ['Whipping Cream', '생크림'],
+  'Vegetable Oil': ['Cooking Oil', 'Canola Oil', '식용유'],
+  'Soy Sauce': ['진간장', '양조간장'],
+  'Gochujang (Korean Chili Paste)': ['Red Pepper Paste', 'Chili Paste'],
+  'Gochugaru (Chili Powder)': ['Red Pepper Flakes', 'Red Pepper Powder', 'Korean Chili Flakes'],
+  'Chili Flakes': ['Crushed Red Pepper'],
+  'Fish Sauce': ['멸치액젓', '피시소스'],
+  'Sesame Seeds': ['깨'],
+  'Seaweed (Gim)': ['Laver', 'Nori'],
+};
+
+/**
+ * Gets every name an ingredient goes by: its English and Korean names, the parts of a name
+ * like "Gochujang (Korean Chili Paste)" on either side of the parentheses, and its synonyms.
+ * @param ingredient The catalog entry.
+ * @returns The names, with the primary English and Korean names first.
+ */
+export const getIngredientAliases = (ingredient: IngredientInfo): string[] => {
+  const aliases = [ingredient.en, ingredient.ko];
+  const parenthetical = ingredient.en.match(/^(.*?)\s*\((.*)\)$/);
+  if (parenthetical) aliases.push(parenthetical[1], parenthetical[2]);
+  return [...aliases, ...(INGREDIENT_SYNONYMS[ingredient.en] ?? [])];
+};
+
+// Generic words people search with when they mean one catalog item ("Chicken" for Chicken Breast).
+// They only rank search results and widen allergy checks; name matching never uses them, so a
+// recipe's "chicken thighs" or "1 pepper" isn't mistaken for these items.
+export const INGREDIENT_SEARCH_TERMS: { [key: string]: string[] } = {
+  'Chicken Breast': ['Chicken', '닭고기'],
+  'Pork Loin': ['Pork', '돼지고기'],
+  'Beef Sirloin': ['Beef', '소고기', '쇠고기'],
+  'Heavy Cream': ['Cream'],
+  'Black Pepper': ['Pepper'],
+  'Doenjang (Soybean Paste)': ['Miso'],
+};
+
+/**
+ * Gets the names an ingredient can be searched by: its aliases, then the generic search terms.
+ * @param ingredient The catalog entry.
+ */
+export const getIngredientSearchAliases = (ingredient: IngredientInfo): string[] => {
+  return [...getIngredientAliases(ingredient), ...(INGREDIENT_SEARCH_TERMS[ingredient.en] ?? [])];
+};
+
 // Define a consistent order for categories
 const CATEGORY_ORDER = {
   vegetables: 1,
@@ -144,6 +242,40 @@ const CATEGORY_ORDER = {
   others: 9,
 };
 
+// Default shelf life (in days) for a freshly bought item of each category.
+// Used to estimate an expiry date when the user doesn't enter one.
+const CATEGORY_SHELF_LIFE_DAYS: Record<keyof typeof CATEGORY_ORDER, number> = {
+  vegetables: 7,
+  fruits: 7,
+  meat: 3,
+  seafood: 2,
+  grainsCarbs: 180,
+  dairy: 10,
+  seasoning: 365,
+  nutsSeeds: 180,
+  others: 30,
+};
+
+// Ingredients whose shelf life differs a lot from the rest of their category.
+const SHELF_LIFE_OVERRIDES: { [key: string]: number } = {
+  'Egg': 21,
+  'Tofu': 5,
+  'Kimchi': 30,
+  'Potato': 30,
+  'Onion': 30,
+  'Garlic': 30,
+  'Sweet Potato': 30,
+  'Bread': 5,
+  'Rice': 365,
+  'Butter': 60,
+  'Cheese': 30,
+  'Ham': 7,
+  'Sausage': 7,
+  'Bacon': 7,
+};
+
+export type IngredientCategory = keyof typeof CATEGORY_ORDER;
+
 // Derive categories from the data, sorted by the defined order
 export const INGREDIENT_CATEGORIES = (Object.keys(CATEGORY_ORDER) as Array<keyof typeof CATEGORY_ORDER>);
 
@@ -165,20 +297,23 @@ export const getIngredientTranslation = (
   englishName: string,
   language: 'en' | 'ko'
 ): string => {
-  const ingredient = INGREDIENT_DATA[englishName];
+  const ingredient = getIngredientData(englishName);
   return ingredient ? ingredient[language] : englishName;
 };
 
 /**
- * Finds the canonical English name for an ingredient from either its English or Korean name.
+ * Finds the canonical English name for an ingredient from its English or Korean name or a synonym.
+ * Case, punctuation and plurals are ignored, so "green onions" and "Scallion" both find "Green Onion".
  * @param name The name to search for (can be English or Korean).
  * @returns The canonical English name, or undefined if not found.
  */
 export const findIngredientEnglishName = (name: string): string | undefined => {
-  const lowerCaseName = name.toLowerCase();
-  const found = Object.values(INGREDIENT_DATA).find(
-    (i) => i.en.toLowerCase() === lowerCaseName || i.ko === lowerCaseName
-  );
+  const toKey = (text: string) => normalizeIngredientName(text).replace(/\s/g, '');
+  const key = toKey(name);
+  if (!key) return undefined;
+  // A primary name always wins over another ingredient's synonym
+  const found = allIngredients.find((i) => toKey(i.en) === key || toKey(i.ko) === key)
+    ?? allIngredients.find((i) => getIngredientAliases(i).some(alias => toKey(alias) === key));
   return found?.en;
 };
 
@@ -188,7 +323,7 @@ export const findIngredientEnglishName = (name: string): string | undefined => {
  * @returns The category key, or 'others' if not found.
  */
 export const getIngredientCategory = (englishName: string): string => {
-  return INGREDIENT_DATA[englishName]?.category || 'others';
+  return getIngredientData(englishName)?.category || 'others';
 }
 
 /**
@@ -197,7 +332,33 @@ export const getIngredientCategory = (englishName: string): string => {
  * @returns The emoji string, or a default emoji if not found.
  */
 export const getIngredientEmoji = (englishName: string): string => {
-  return INGREDIENT_DATA[englishName]?.emoji || '🥘';
+  return getIngredientData(englishName)?.emoji || '🥘';
 };
 
-export const ALL_INGREDIENTS = Object.values(INGREDIENT_DATA);
\ No newline at end of file
+/**
+ * Gets the default shelf life of an ingredient, based on its category.
+ * @param englishName The canonical English name.
+ * @returns The number of days a freshly bought item usually keeps.
+ */
+export const getDefaultShelfLifeDays = (englishName: string): number => {
+  if (SHELF_LIFE_OVERRIDES[englishName] !== undefined) return SHELF_LIFE_OVERRIDES[englishName];
+  const category = getIngredientData(englishName)?.category || 'others';
+  return CATEGORY_SHELF_LIFE_DAYS[category];
+};
+
+/**
+ * Replaces the user's custom ingredients, making them available to every lookup in this file.
+ * Custom ingredients never override built-in ones with the same name.
+ * @param customIngredients The current user's custom ingredients.
+ */
+export const setCustomIngredients = (customIngredients: CustomIngredient[]) => {
+  const data: { [key: string]: IngredientInfo } = {};
+  customIngredients.forEach(ing => {
+    if (!ing.en || INGREDIENT_DATA[ing.en]) return;
+    const category = (ing.category in CATEGORY_ORDER ? ing.category : 'others') as IngredientCategory;
+    data[ing.en] = { en: ing.en, ko: ing.ko || ing.en, category, emoji: ing.emoji || '🥘' };
+  });
+  customIngredientData = data;
+  allIngredients = [...Object.values(INGREDIENT_DATA), ...Object.values(data)];
+  catalogListeners.forEach(listener => listener());
+};
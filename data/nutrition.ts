@@ -0,0 +1,144 @@
+// Approximate nutrients per 100g of the canonical INGREDIENT_DATA entries, used to cross-check the
+// model's estimates. Sodium is in mg, everything else in grams (calories in kcal).
+// `gramsPerPiece` is the weight of one item as usually counted (an egg, a garlic clove, a slice of bread);
+// `density` (g/ml) converts spoons and cups, and is 1 when missing.
+export interface NutrientProfile {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+  gramsPerPiece?: number;
+  density?: number;
+}
+
+export const NUTRIENT_DATA: { [key: string]: NutrientProfile } = {
+  // Vegetables
+  'Onion': { calories: 40, protein: 1.1, carbs: 9.3, fat: 0.1, fiber: 1.7, sugar: 4.2, sodium: 4, gramsPerPiece: 150 },
+  'Garlic': { calories: 149, protein: 6.4, carbs: 33, fat: 0.5, fiber: 2.1, sugar: 1, sodium: 17, gramsPerPiece: 5, density: 0.6 },
+  'Green Onion': { calories: 32, protein: 1.8, carbs: 7.3, fat: 0.2, fiber: 2.6, sugar: 2.3, sodium: 16, gramsPerPiece: 15, density: 0.4 },
+  'Potato': { calories: 77, protein: 2, carbs: 17, fat: 0.1, fiber: 2.2, sugar: 0.8, sodium: 6, gramsPerPiece: 170 },
+  'Carrot': { calories: 41, protein: 0.9, carbs: 9.6, fat: 0.2, fiber: 2.8, sugar: 4.7, sodium: 69, gramsPerPiece: 60 },
+  'Bell Pepper': { calories: 31, protein: 1, carbs: 6, fat: 0.3, fiber: 2.1, sugar: 4.2, sodium: 4, gramsPerPiece: 120 },
+  'Cabbage': { calories: 25, protein: 1.3, carbs: 5.8, fat: 0.1, fiber: 2.5, sugar: 3.2, sodium: 18, gramsPerPiece: 900, density: 0.4 },
+  'Lettuce': { calories: 15, protein: 1.4, carbs: 2.9, fat: 0.2, fiber: 1.3, sugar: 0.8, sodium: 28, gramsPerPiece: 10 },
+  'Spinach': { calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4, fiber: 2.2, sugar: 0.4, sodium: 79, gramsPerPiece: 200, density: 0.3 },
+  'Kale': { calories: 49, protein: 4.3, carbs: 8.8, fat: 0.9, fiber: 3.6, sugar: 2.3, sodium: 38, gramsPerPiece: 10, density: 0.3 },
+  'Broccoli': { calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4, fiber: 2.6, sugar: 1.7, sodium: 33, gramsPerPiece: 300, density: 0.4 },
+  'Cauliflower': { calories: 25, protein: 1.9, carbs: 5, fat: 0.3, fiber: 2, sugar: 1.9, sodium: 30, gramsPerPiece: 600, density: 0.45 },
+  'Zucchini': { calories: 17, protein: 1.2, carbs: 3.1, fat: 0.3, fiber: 1, sugar: 2.5, sodium: 8, gramsPerPiece: 200 },
+  'Eggplant': { calories: 25, protein: 1, carbs: 5.9, fat: 0.2, fiber: 3, sugar: 3.5, sodium: 2, gramsPerPiece: 250 },
+  'Tomato': { calories: 18, protein: 0.9, carbs: 3.9, fat: 0.2, fiber: 1.2, sugar: 2.6, sodium: 5, gramsPerPiece: 120 },
+  'Cucumber': { calories: 15, protein: 0.7, carbs: 3.6, fat: 0.1, fiber: 0.5, sugar: 1.7, sodium: 2, gramsPerPiece: 200 },
+  'Mushroom': { calories: 22, protein: 3.1, carbs: 3.3, fat: 0.3, fiber: 1, sugar: 2, sodium: 5, gramsPerPiece: 20, density: 0.3 },
+  'Radish': { calories: 18, protein: 0.6, carbs: 4.1, fat: 0.1, fiber: 1.6, sugar: 2.5, sodium: 21, gramsPerPiece: 800 },
+  'Sweet Potato': { calories: 86, protein: 1.6, carbs: 20, fat: 0.1, fiber: 3, sugar: 4.2, sodium: 55, gramsPerPiece: 200 },
+  'Pumpkin': { calories: 26, protein: 1, carbs: 6.5, fat: 0.1, fiber: 0.5, sugar: 2.8, sodium: 1, gramsPerPiece: 1500 },
+  'Asparagus': { calories: 20, protein: 2.2, carbs: 3.9, fat: 0.1, fiber: 2.1, sugar: 1.9, sodium: 2, gramsPerPiece: 15 },
+  'Celery': { calories: 16, protein: 0.7, carbs: 3, fat: 0.2, fiber: 1.6, sugar: 1.3, sodium: 80, gramsPerPiece: 40 },
+  'Leek': { calories: 30, protein: 3.3, carbs: 4.4, fat: 0.7, fiber: 2.5, sugar: 1.9, sodium: 3, gramsPerPiece: 100, density: 0.3 },
+  'Bean Sprouts': { calories: 30, protein: 3, carbs: 5.9, fat: 0.2, fiber: 1.8, sugar: 4.1, sodium: 6, gramsPerPiece: 300, density: 0.4 },
+  'Kimchi': { calories: 15, protein: 1.1, carbs: 2.4, fat: 0.5, fiber: 1.6, sugar: 1.1, sodium: 498, density: 0.6 },
+  'Coriander': { calories: 23, protein: 2.1, carbs: 3.7, fat: 0.5, fiber: 2.8, sugar: 0.9, sodium: 46, gramsPerPiece: 30, density: 0.2 },
+
+  // Fruits
+  'Apple': { calories: 52, protein: 0.3, carbs: 14, fat: 0.2, fiber: 2.4, sugar: 10, sodium: 1, gramsPerPiece: 180 },
+  'Banana': { calories: 89, protein: 1.1, carbs: 23, fat: 0.3, fiber: 2.6, sugar: 12, sodium: 1, gramsPerPiece: 120 },
+  'Lemon': { calories: 29, protein: 1.1, carbs: 9.3, fat: 0.3, fiber: 2.8, sugar: 2.5, sodium: 2, gramsPerPiece: 60 },
+  'Lime': { calories: 30, protein: 0.7, carbs: 10.5, fat: 0.2, fiber: 2.8, sugar: 1.7, sodium: 2, gramsPerPiece: 45 },
+  'Orange': { calories: 47, protein: 0.9, carbs: 12, fat: 0.1, fiber: 2.4, sugar: 9.4, sodium: 0, gramsPerPiece: 130 },
+  'Avocado': { calories: 160, protein: 2, carbs: 8.5, fat: 14.7, fiber: 6.7, sugar: 0.7, sodium: 7, gramsPerPiece: 150 },
+  'Strawberry': { calories: 32, protein: 0.7, carbs: 7.7, fat: 0.3, fiber: 2, sugar: 4.9, sodium: 1, gramsPerPiece: 12, density: 0.6 },
+  'Blueberry': { calories: 57, protein: 0.7, carbs: 14.5, fat: 0.3, fiber: 2.4, sugar: 10, sodium: 1, density: 0.6 },
+
+  // Meat
+  'Chicken Breast': { calories: 120, protein: 22.5, carbs: 0, fat: 2.6, fiber: 0, sugar: 0, sodium: 45, gramsPerPiece: 200 },
+  'Chicken Thigh': { calories: 121, protein: 19.7, carbs: 0, fat: 4.1, fiber: 0, sugar: 0, sodium: 95, gramsPerPiece: 120 },
+  'Pork Belly': { calories: 518, protein: 9.3, carbs: 0, fat: 53, fiber: 0, sugar: 0, sodium: 32 },
+  'Pork Loin': { calories: 143, protein: 21, carbs: 0, fat: 5.9, fiber: 0, sugar: 0, sodium: 50 },
+  'Beef Sirloin': { calories: 183, protein: 20, carbs: 0, fat: 11, fiber: 0, sugar: 0, sodium: 55 },
+  'Ground Beef': { calories: 254, protein: 17, carbs: 0, fat: 20, fiber: 0, sugar: 0, sodium: 66 },
+  'Ground Pork': { calories: 263, protein: 17, carbs: 0, fat: 21, fiber: 0, sugar: 0, sodium: 56 },
+  'Sausage': { calories: 301, protein: 12, carbs: 2, fat: 27, fiber: 0, sugar: 1, sodium: 800, gramsPerPiece: 50 },
+  'Bacon': { calories: 458, protein: 12, carbs: 0.7, fat: 45, fiber: 0, sugar: 0, sodium: 833, gramsPerPiece: 12 },
+  'Ham': { calories: 145, protein: 21, carbs: 1.5, fat: 6, fiber: 0, sugar: 0, sodium: 1200, gramsPerPiece: 20 },
+  'Tofu': { calories: 76, protein: 8, carbs: 1.9, fat: 4.8, fiber: 0.3, sugar: 0.6, sodium: 7, gramsPerPiece: 300 },
+  'Egg': { calories: 143, protein: 12.6, carbs: 0.7, fat: 9.5, fiber: 0, sugar: 0.4, sodium: 142, gramsPerPiece: 50 },
+
+  // Seafood
+  'Shrimp': { calories: 85, protein: 20, carbs: 0, fat: 0.5, fiber: 0, sugar: 0, sodium: 200, gramsPerPiece: 15 },
+  'Salmon': { calories: 208, protein: 20, carbs: 0, fat: 13, fiber: 0, sugar: 0, sodium: 59, gramsPerPiece: 150 },
+  'Tuna': { calories: 116, protein: 25.5, carbs: 0, fat: 0.8, fiber: 0, sugar: 0, sodium: 338, gramsPerPiece: 100 },
+  'Squid': { calories: 92, protein: 15.6, carbs: 3.1, fat: 1.4, fiber: 0, sugar: 0, sodium: 44, gramsPerPiece: 300 },
+  'Clams': { calories: 74, protein: 12.8, carbs: 2.6, fat: 1, fiber: 0, sugar: 0, sodium: 56, gramsPerPiece: 10 },
+
+  // Grains & Carbs (rice is cooked, like 밥; pasta and noodles are dry)
+  'Rice': { calories: 130, protein: 2.7, carbs: 28, fat: 0.3, fiber: 0.4, sugar: 0.1, sodium: 1, gramsPerPiece: 210, density: 0.8 },
+  'Pasta': { calories: 371, protein: 13, carbs: 75, fat: 1.5, fiber: 3.2, sugar: 2.7, sodium: 6, density: 0.4 },
+  'Bread': { calories: 265, protein: 9, carbs: 49, fat: 3.2, fiber: 2.7, sugar: 5, sodium: 491, gramsPerPiece: 30 },
+  'Flour': { calories: 364, protein: 10, carbs: 76, fat: 1, fiber: 2.7, sugar: 0.3, sodium: 2, density: 0.53 },
+  'Noodles': { calories: 350, protein: 11, carbs: 72, fat: 1.5, fiber: 3, sugar: 2, sodium: 200, gramsPerPiece: 100 },
+  'Ramen Noodles': { calories: 436, protein: 10, carbs: 65, fat: 16, fiber: 2.4, sugar: 2, sodium: 1600, gramsPerPiece: 120 },
+  'Rice Cakes (Tteok)': { calories: 225, protein: 4, carbs: 50, fat: 0.4, fiber: 0.8, sugar: 0.5, sodium: 230, gramsPerPiece: 15, density: 0.6 },
+  'Oats': { calories: 389, protein: 16.9, carbs: 66, fat: 6.9, fiber: 10.6, sugar: 1, sodium: 2, density: 0.35 },
+  'Quinoa': { calories: 368, protein: 14, carbs: 64, fat: 6, fiber: 7, sugar: 0, sodium: 5, density: 0.72 },
+  'Corn': { calories: 86, protein: 3.3, carbs: 19, fat: 1.4, fiber: 2, sugar: 6.3, sodium: 15, gramsPerPiece: 150, density: 0.65 },
+
+  // Dairy & Alternatives
+  'Milk': { calories: 61, protein: 3.2, carbs: 4.8, fat: 3.3, fiber: 0, sugar: 5.1, sodium: 43, density: 1.03 },
+  'Cheese': { calories: 300, protein: 18, carbs: 7, fat: 23, fiber: 0, sugar: 5, sodium: 1200, gramsPerPiece: 20, density: 0.45 },
+  'Cheddar Cheese': { calories: 403, protein: 25, carbs: 1.3, fat: 33, fiber: 0, sugar: 0.5, sodium: 621, gramsPerPiece: 20, density: 0.45 },
+  'Mozzarella Cheese': { calories: 300, protein: 22, carbs: 2.2, fat: 22, fiber: 0, sugar: 1, sodium: 627, gramsPerPiece: 20, density: 0.45 },
+  'Parmesan Cheese': { calories: 431, protein: 38, carbs: 4.1, fat: 29, fiber: 0, sugar: 0.9, sodium: 1529, density: 0.4 },
+  'Yogurt': { calories: 61, protein: 3.5, carbs: 4.7, fat: 3.3, fiber: 0, sugar: 4.7, sodium: 46, density: 1.03 },
+  'Butter': { calories: 717, protein: 0.9, carbs: 0.1, fat: 81, fiber: 0, sugar: 0.1, sodium: 11, density: 0.96 },
+  'Heavy Cream': { calories: 340, protein: 2.8, carbs: 2.7, fat: 36, fiber: 0, sugar: 2.9, sodium: 27 },
+  'Sour Cream': { calories: 198, protein: 2.4, carbs: 4.6, fat: 19, fiber: 0, sugar: 3.4, sodium: 31 },
+  'Cream Cheese': { calories: 342, protein: 6, carbs: 4, fat: 34, fiber: 0, sugar: 3.2, sodium: 321 },
+  'Soy Milk': { calories: 54, protein: 3.3, carbs: 6.3, fat: 1.8, fiber: 0.6, sugar: 4, sodium: 51, density: 1.03 },
+  'Almond Milk': { calories: 15, protein: 0.6, carbs: 0.6, fat: 1.1, fiber: 0.2, sugar: 0, sodium: 72 },
+
+  // Spices & Sauces
+  'Salt': { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 38758, density: 1.2 },
+  'Black Pepper': { calories: 251, protein: 10, carbs: 64, fat: 3.3, fiber: 25, sugar: 0.6, sodium: 20, density: 0.45 },
+  'Sugar': { calories: 387, protein: 0, carbs: 100, fat: 0, fiber: 0, sugar: 100, sodium: 1, density: 0.85 },
+  'Brown Sugar': { calories: 380, protein: 0.1, carbs: 98, fat: 0, fiber: 0, sugar: 97, sodium: 28, density: 0.9 },
+  'Honey': { calories: 304, protein: 0.3, carbs: 82, fat: 0, fiber: 0.2, sugar: 82, sodium: 4, density: 1.42 },
+  'Olive Oil': { calories: 884, protein: 0, carbs: 0, fat: 100, fiber: 0, sugar: 0, sodium: 2, density: 0.91 },
+  'Vegetable Oil': { calories: 884, protein: 0, carbs: 0, fat: 100, fiber: 0, sugar: 0, sodium: 0, density: 0.92 },
+  'Sesame Oil': { calories: 884, protein: 0, carbs: 0, fat: 100, fiber: 0, sugar: 0, sodium: 0, density: 0.92 },
+  'Soy Sauce': { calories: 53, protein: 8.1, carbs: 4.9, fat: 0.6, fiber: 0.8, sugar: 0.4, sodium: 5493, density: 1.15 },
+  'Vinegar': { calories: 18, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 2, density: 1.01 },
+  'Gochujang (Korean Chili Paste)': { calories: 218, protein: 4.6, carbs: 45, fat: 1.5, fiber: 3, sugar: 20, sodium: 2485, density: 1.25 },
+  'Doenjang (Soybean Paste)': { calories: 180, protein: 12, carbs: 14, fat: 6, fiber: 5, sugar: 2, sodium: 4400, density: 1.2 },
+  'Gochugaru (Chili Powder)': { calories: 282, protein: 12, carbs: 50, fat: 6, fiber: 35, sugar: 10, sodium: 30, density: 0.4 },
+  'Ketchup': { calories: 101, protein: 1, carbs: 27, fat: 0.1, fiber: 0.3, sugar: 22, sodium: 907, density: 1.15 },
+  'Mayonnaise': { calories: 680, protein: 1, carbs: 0.6, fat: 75, fiber: 0, sugar: 0.6, sodium: 635, density: 0.91 },
+  'Mustard': { calories: 60, protein: 3.7, carbs: 5.8, fat: 3.3, fiber: 4, sugar: 0.9, sodium: 1104, density: 1.05 },
+  'Chili Flakes': { calories: 318, protein: 12, carbs: 57, fat: 17, fiber: 27, sugar: 10, sodium: 30, density: 0.4 },
+  'Paprika': { calories: 282, protein: 14, carbs: 54, fat: 13, fiber: 35, sugar: 10, sodium: 68, density: 0.46 },
+  'Cumin': { calories: 375, protein: 18, carbs: 44, fat: 22, fiber: 11, sugar: 2.3, sodium: 168, density: 0.4 },
+  'Turmeric': { calories: 312, protein: 9.7, carbs: 67, fat: 3.3, fiber: 23, sugar: 3.2, sodium: 27, density: 0.45 },
+  'Ginger': { calories: 80, protein: 1.8, carbs: 18, fat: 0.8, fiber: 2, sugar: 1.7, sodium: 13, gramsPerPiece: 10, density: 0.6 },
+  'Rosemary': { calories: 131, protein: 3.3, carbs: 21, fat: 5.9, fiber: 14, sugar: 0, sodium: 26, gramsPerPiece: 1, density: 0.2 },
+  'Thyme': { calories: 101, protein: 5.6, carbs: 24, fat: 1.7, fiber: 14, sugar: 0, sodium: 9, gramsPerPiece: 1, density: 0.2 },
+  'Basil': { calories: 23, protein: 3.2, carbs: 2.7, fat: 0.6, fiber: 1.6, sugar: 0.3, sodium: 4, gramsPerPiece: 0.5, density: 0.2 },
+  'Oregano': { calories: 265, protein: 9, carbs: 69, fat: 4.3, fiber: 42.5, sugar: 4, sodium: 25, density: 0.3 },
+  'Cinnamon': { calories: 247, protein: 4, carbs: 81, fat: 1.2, fiber: 53, sugar: 2.2, sodium: 10, density: 0.5 },
+  'Nutmeg': { calories: 525, protein: 5.8, carbs: 49, fat: 36, fiber: 21, sugar: 28, sodium: 16, density: 0.5 },
+  'Fish Sauce': { calories: 35, protein: 5, carbs: 3.6, fat: 0, fiber: 0, sugar: 3.6, sodium: 7851, density: 1.2 },
+  'Oyster Sauce': { calories: 51, protein: 1.4, carbs: 11, fat: 0.3, fiber: 0.3, sugar: 0, sodium: 2733, density: 1.2 },
+  'Mirin': { calories: 241, protein: 0.2, carbs: 43, fat: 0, fiber: 0, sugar: 43, sodium: 3, density: 1.15 },
+
+  // Nuts & Seeds
+  'Almonds': { calories: 579, protein: 21, carbs: 22, fat: 50, fiber: 12.5, sugar: 4.4, sodium: 1, gramsPerPiece: 1.2, density: 0.6 },
+  'Walnuts': { calories: 654, protein: 15, carbs: 14, fat: 65, fiber: 6.7, sugar: 2.6, sodium: 2, gramsPerPiece: 4, density: 0.5 },
+  'Peanuts': { calories: 567, protein: 26, carbs: 16, fat: 49, fiber: 8.5, sugar: 4, sodium: 18, density: 0.6 },
+  'Sesame Seeds': { calories: 573, protein: 18, carbs: 23, fat: 50, fiber: 11.8, sugar: 0.3, sodium: 11, density: 0.6 },
+  'Chia Seeds': { calories: 486, protein: 17, carbs: 42, fat: 31, fiber: 34, sugar: 0, sodium: 16, density: 0.65 },
+
+  // Others
+  'Seaweed (Gim)': { calories: 280, protein: 36, carbs: 40, fat: 1.5, fiber: 33, sugar: 0.5, sodium: 48, gramsPerPiece: 2.5 },
+};
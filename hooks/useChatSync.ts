@@ -0,0 +1,132 @@
+import { useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { supabase } from '../services/supabaseClient';
+import { diffConversations, flushPendingChatChanges, mergeConversations, pullRemoteConversations, queuePendingChatChanges, toUploadChanges } from '../services/chatSync';
+import { getChatMessages } from '../services/supabaseService';
+import { ChatConversation } from '../types';
+import { migrateChatConversations } from '../utils/chatConversations';
+
+const GUEST_CONVERSATIONS_KEY = 'ohmycook-chatHistories-guest';
+
+// Conversations started before signing in are handed over to the account on first sign-in.
+const takeGuestConversations = (): ChatConversation[] => {
+  const saved = localStorage.getItem(GUEST_CONVERSATIONS_KEY);
+  if (!saved) return [];
+  localStorage.removeItem(GUEST_CONVERSATIONS_KEY);
+  try {
+    return migrateChatConversations(JSON.parse(saved));
+  } catch {
+    return [];
+  }
+};
+
+// Keeps AI Chef conversations in step with the `chat_conversations` and `chat_messages` tables, the
+// way usePantrySync does for the pantry. Other devices' conversations arrive without their messages;
+// those are fetched when a conversation in `openConversationIds` needs them.
+export function useChatSync(
+  userId: string | undefined,
+  conversations: ChatConversation[],
+  setConversations: Dispatch<SetStateAction<ChatConversation[]>>,
+  openConversationIds: string[],
+) {
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  // The conversations as last reconciled with the server; null until the first pull for this user completes.
+  const syncedRef = useRef<ChatConversation[] | null>(null);
+  const loadingIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    syncedRef.current = null;
+    if (!userId) return;
+
+    let cancelled = false;
+    let pulling = false;
+
+    const pull = async (includeGuest: boolean) => {
+      if (pulling) return;
+      pulling = true;
+      try {
+        const remote = await pullRemoteConversations(userId);
+        if (cancelled || !remote) return;
+
+        const local = conversationsRef.current;
+        const localIds = new Set(local.map(conversation => conversation.id));
+        const guest = includeGuest ? takeGuestConversations().filter(conversation => !localIds.has(conversation.id)) : [];
+
+        const { merged, toPush } = mergeConversations([...local, ...guest], remote);
+        syncedRef.current = merged;
+        setConversations(merged);
+
+        if (toPush.length) {
+          queuePendingChatChanges(userId, toUploadChanges(toPush));
+          await flushPendingChatChanges(userId);
+        }
+      } catch (error) {
+        console.warn('Failed to load conversations from Supabase:', error);
+      } finally {
+        pulling = false;
+      }
+    };
+
+    pull(true);
+
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible') pull(false);
+    };
+    const handleOnline = () => pull(false);
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleFocus);
+
+    const channel = supabase
+      .channel(`chat_conversations_${userId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'chat_conversations', filter: `user_id=eq.${userId}` },
+        () => pull(false)
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleFocus);
+      channel.unsubscribe();
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !syncedRef.current) return;
+
+    const changes = diffConversations(syncedRef.current, conversations, new Date().toISOString());
+    syncedRef.current = conversations;
+    if (!changes.length) return;
+
+    queuePendingChatChanges(userId, changes);
+    flushPendingChatChanges(userId);
+  }, [userId, conversations]);
+
+  // Fetch the messages of open conversations that only have their header on this device
+  useEffect(() => {
+    if (!userId) return;
+
+    openConversationIds.forEach(async (conversationId) => {
+      const conversation = conversations.find(c => c.id === conversationId);
+      if (conversation?.messagesLoaded !== false || loadingIdsRef.current.has(conversationId)) return;
+
+      loadingIdsRef.current.add(conversationId);
+      try {
+        const messages = await getChatMessages(conversationId, conversation.messageCount ?? 0);
+        const loaded = (c: ChatConversation): ChatConversation => {
+          if (c.id !== conversationId || c.messagesLoaded !== false) return c;
+          const { messagesLoaded, messageCount, ...rest } = c;
+          return { ...rest, messages };
+        };
+        // Already on the server, so the loaded messages must not be pushed back
+        if (syncedRef.current) syncedRef.current = syncedRef.current.map(loaded);
+        setConversations(prev => prev.map(loaded));
+      } catch (error) {
+        console.warn('Failed to load conversation messages:', error);
+      } finally {
+        loadingIdsRef.current.delete(conversationId);
+      }
+    });
+  }, [userId, conversations, openConversationIds.join(',')]);
+}
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import { CustomIngredient } from '../types';
+import { getAllIngredients, setCustomIngredients, subscribeToIngredientCatalog } from '../data/ingredients';
+import { getUserCustomIngredients, upsertUserCustomIngredients } from '../services/supabaseService';
+
+const GUEST_CUSTOM_INGREDIENTS_KEY = 'ohmycook-customingredients-guest';
+
+// Custom ingredients created before signing in move to the account, like the guest pantry does.
+const takeGuestCustomIngredients = (): CustomIngredient[] => {
+  const saved = localStorage.getItem(GUEST_CUSTOM_INGREDIENTS_KEY);
+  if (!saved) return [];
+  localStorage.removeItem(GUEST_CUSTOM_INGREDIENTS_KEY);
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Keeps the user's custom ingredients in localStorage and Supabase, and registers them with the
+// ingredient catalog so lookups like `getIngredientEmoji` know about them. The component using this
+// hook re-renders when the catalog changes, so everything below it sees the new catalog.
+export function useCustomIngredients(userId: string | undefined, storageSuffix: string) {
+  const [customIngredients, setCustomIngredientsState] = useLocalStorage<CustomIngredient[]>(`ohmycook-customingredients-${storageSuffix}`, []);
+  const customIngredientsRef = useRef(customIngredients);
+  customIngredientsRef.current = customIngredients;
+
+  useSyncExternalStore(subscribeToIngredientCatalog, getAllIngredients);
+
+  useEffect(() => {
+    setCustomIngredients(customIngredients);
+  }, [customIngredients]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    getUserCustomIngredients(userId)
+      .then(remote => {
+        if (cancelled) return;
+        // Anything created on this device that the server doesn't have yet gets uploaded
+        const remoteNames = new Set(remote.map(ing => ing.en));
+        const localOnly = [...customIngredientsRef.current, ...takeGuestCustomIngredients()]
+          .filter((ing, index, all) => !remoteNames.has(ing.en) && all.findIndex(other => other.en === ing.en) === index);
+
+        setCustomIngredientsState([...remote, ...localOnly]);
+        if (localOnly.length) {
+          return upsertUserCustomIngredients(userId, localOnly);
+        }
+      })
+      .catch(error => console.warn('Failed to sync custom ingredients:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const addCustomIngredient = (ingredient: CustomIngredient) => {
+    const created = { ...ingredient, createdAt: ingredient.createdAt ?? new Date().toISOString() };
+    setCustomIngredientsState(prev => [...prev.filter(ing => ing.en !== created.en), created]);
+    // Register right away so the caller can use the new ingredient before the next render
+    setCustomIngredients([...customIngredientsRef.current.filter(ing => ing.en !== created.en), created]);
+    if (userId) {
+      upsertUserCustomIngredients(userId, [created]).catch(error => console.warn('Failed to save custom ingredient:', error));
+    }
+  };
+
+  return { customIngredients, addCustomIngredient };
+}
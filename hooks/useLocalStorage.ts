@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
 
-function getValue<T,>(key: string, initialValue: T | (() => T)): T {
+function getValue<T,>(key: string, initialValue: T | (() => T), migrate?: (saved: unknown) => T): T {
   const savedValue = localStorage.getItem(key);
   if (savedValue) {
     try {
-      return JSON.parse(savedValue) as T;
+      const parsed = JSON.parse(savedValue);
+      return migrate ? migrate(parsed) : parsed as T;
     } catch (error) {
       console.error('Error parsing JSON from localStorage', error);
       localStorage.removeItem(key);
@@ -18,8 +19,9 @@ function getValue<T,>(key: string, initialValue: T | (() => T)): T {
 }
 
 // FIX: Imported Dispatch and SetStateAction types from 'react' to correctly type the return value without relying on the global React namespace.
-export function useLocalStorage<T,>(key: string, initialValue: T | (() => T)): [T, Dispatch<SetStateAction<T>>] {
-  const [value, setValue] = useState<T>(() => getValue(key, initialValue));
+// `migrate` upgrades values saved by older versions of the app into the current shape.
+export function useLocalStorage<T,>(key: string, initialValue: T | (() => T), migrate?: (saved: unknown) => T): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => getValue(key, initialValue, migrate));
   const previousKeyRef = useRef(key);
   const skipNextStorageRef = useRef(false);
 
@@ -27,7 +29,7 @@ export function useLocalStorage<T,>(key: string, initialValue: T | (() => T)): [
     if (previousKeyRef.current !== key) {
       skipNextStorageRef.current = true;
       previousKeyRef.current = key;
-      setValue(getValue(key, initialValue));
+      setValue(getValue(key, initialValue, migrate));
     }
   }, [key, initialValue]);
 
@@ -36,7 +38,12 @@ export function useLocalStorage<T,>(key: string, initialValue: T | (() => T)): [
       skipNextStorageRef.current = false;
       return;
     }
-    localStorage.setItem(key, JSON.stringify(value));
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      // Usually the storage quota; the value still lives in memory for this session
+      console.error(`Could not save "${key}" to localStorage`, error);
+    }
   }, [key, value]);
 
   return [value, setValue];
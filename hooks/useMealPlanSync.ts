@@ -0,0 +1,107 @@
+import { useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { supabase } from '../services/supabaseClient';
+import { getUserMealPlan, upsertUserMealPlan } from '../services/supabaseService';
+import { MealPlan } from '../types';
+import { hasPlannedMeals, migrateMealPlan } from '../utils/mealPlan';
+
+const GUEST_MEAL_PLAN_KEY = 'ohmycook-mealplan-guest';
+
+// A plan made before signing in is handed over on first sign-in, unless the account already has one.
+const takeGuestMealPlan = (): MealPlan | null => {
+  const saved = localStorage.getItem(GUEST_MEAL_PLAN_KEY);
+  if (!saved) return null;
+  localStorage.removeItem(GUEST_MEAL_PLAN_KEY);
+  try {
+    const plan = migrateMealPlan(JSON.parse(saved));
+    return hasPlannedMeals(plan) ? plan : null;
+  } catch {
+    return null;
+  }
+};
+
+const timeOf = (timestamp?: string) => (timestamp ? Date.parse(timestamp) || 0 : 0);
+
+// Compared as times, not strings: the server writes "+00:00" where the app writes "Z", and a plan
+// edited at the same moment is the same plan, so it is not pushed back.
+const isNewer = (plan: MealPlan, than: MealPlan) => timeOf(plan.updatedAt) > timeOf(than.updatedAt);
+
+// Keeps the meal plan in step with the `user_meal_plans` table. The plan is stored as one row, so the
+// latest edit wins: local edits are pushed as they happen, and pulls on sign-in, focus and realtime events
+// take the server's plan when it is newer, or push the local one when an earlier push didn't get through.
+export function useMealPlanSync(userId: string | undefined, mealPlan: MealPlan, setMealPlan: Dispatch<SetStateAction<MealPlan>>) {
+  const mealPlanRef = useRef(mealPlan);
+  mealPlanRef.current = mealPlan;
+  // The plan as last reconciled with the server; null until the first pull for this user completes.
+  const syncedRef = useRef<MealPlan | null>(null);
+
+  useEffect(() => {
+    syncedRef.current = null;
+    if (!userId) return;
+
+    let cancelled = false;
+    let pulling = false;
+
+    const pull = async (includeGuest: boolean) => {
+      if (pulling) return;
+      pulling = true;
+      try {
+        const remote = await getUserMealPlan(userId);
+        if (cancelled) return;
+
+        const guest = includeGuest ? takeGuestMealPlan() : null;
+        const local = guest && !hasPlannedMeals(mealPlanRef.current) && !(remote && hasPlannedMeals(remote))
+          ? { ...guest, updatedAt: new Date().toISOString() }
+          : mealPlanRef.current;
+
+        if (remote && isNewer(remote, local)) {
+          syncedRef.current = remote;
+          setMealPlan(remote);
+          return;
+        }
+
+        syncedRef.current = local;
+        if (local !== mealPlanRef.current) setMealPlan(local);
+        if (remote ? isNewer(local, remote) : hasPlannedMeals(local)) {
+          await upsertUserMealPlan(userId, local);
+        }
+      } catch (error) {
+        console.warn('Failed to sync meal plan with Supabase:', error);
+      } finally {
+        pulling = false;
+      }
+    };
+
+    pull(true);
+
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible') pull(false);
+    };
+    const handleOnline = () => pull(false);
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleFocus);
+
+    const channel = supabase
+      .channel(`user_meal_plans_${userId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'user_meal_plans', filter: `user_id=eq.${userId}` },
+        () => pull(false)
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleFocus);
+      channel.unsubscribe();
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !syncedRef.current) return;
+    if (mealPlan === syncedRef.current || !isNewer(mealPlan, syncedRef.current)) return;
+
+    // A failed push is retried by the next pull, which finds the local plan newer than the server's
+    syncedRef.current = mealPlan;
+    upsertUserMealPlan(userId, mealPlan).catch(error => console.warn('Failed to save meal plan:', error));
+  }, [userId, mealPlan]);
+}
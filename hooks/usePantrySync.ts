@@ -0,0 +1,105 @@
+import { useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { supabase } from '../services/supabaseClient';
+import { diffPantries, flushPendingChanges, mergePantries, pullRemotePantry, queuePendingChanges } from '../services/pantrySync';
+import { Ingredient } from '../types';
+import { migrateIngredients } from '../utils/pantry';
+
+const GUEST_INGREDIENTS_KEY = 'ohmycook-ingredients-guest';
+
+// Pantry items added before signing in are handed over to the account on first sign-in.
+const takeGuestIngredients = (): Ingredient[] => {
+  const saved = localStorage.getItem(GUEST_INGREDIENTS_KEY);
+  if (!saved) return [];
+  localStorage.removeItem(GUEST_INGREDIENTS_KEY);
+  try {
+    return migrateIngredients(JSON.parse(saved));
+  } catch {
+    return [];
+  }
+};
+
+// Keeps the pantry in step with the `user_ingredients` table: local edits are pushed as they happen
+// (queued while offline), and edits from other devices are pulled in on sign-in, focus and realtime events.
+export function usePantrySync(userId: string | undefined, ingredients: Ingredient[], setIngredients: Dispatch<SetStateAction<Ingredient[]>>) {
+  const ingredientsRef = useRef(ingredients);
+  ingredientsRef.current = ingredients;
+  // The pantry as last reconciled with the server; null until the first pull for this user completes.
+  const syncedRef = useRef<Ingredient[] | null>(null);
+
+  useEffect(() => {
+    syncedRef.current = null;
+    if (!userId) return;
+
+    let cancelled = false;
+    let pulling = false;
+
+    const pull = async (includeGuest: boolean) => {
+      if (pulling) return;
+      pulling = true;
+      try {
+        const remote = await pullRemotePantry(userId);
+        if (cancelled || !remote) return;
+
+        const now = new Date().toISOString();
+        const local = ingredientsRef.current;
+        const localNames = new Set(local.map(ing => ing.name));
+        const guest = includeGuest
+          ? takeGuestIngredients().filter(ing => !localNames.has(ing.name)).map(ing => ({ ...ing, updatedAt: now }))
+          : [];
+
+        const { merged, toPush } = mergePantries([...local, ...guest], remote);
+        syncedRef.current = merged;
+        setIngredients(merged);
+
+        if (toPush.length) {
+          queuePendingChanges(userId, toPush.map(ingredient => ({ type: 'upsert' as const, ingredient })));
+          await flushPendingChanges(userId);
+        }
+      } catch (error) {
+        console.warn('Failed to load pantry from Supabase:', error);
+      } finally {
+        pulling = false;
+      }
+    };
+
+    pull(true);
+
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible') pull(false);
+    };
+    const handleOnline = () => pull(false);
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleFocus);
+
+    const channel = supabase
+      .channel(`user_ingredients_${userId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'user_ingredients', filter: `user_id=eq.${userId}` },
+        () => pull(false)
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleFocus);
+      channel.unsubscribe();
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !syncedRef.current) return;
+
+    const changes = diffPantries(syncedRef.current, ingredients, new Date().toISOString());
+    if (!changes.length) return;
+
+    // Stamp edited items so conflicts with other devices can be resolved by last write
+    const stamped = new Map(changes.flatMap(change => change.type === 'upsert' ? [[change.ingredient.name, change.ingredient] as const] : []));
+    const next = ingredients.map(ing => stamped.get(ing.name) ?? ing);
+    syncedRef.current = next;
+    if (stamped.size) setIngredients(next);
+
+    queuePendingChanges(userId, changes);
+    flushPendingChanges(userId);
+  }, [userId, ingredients]);
+}
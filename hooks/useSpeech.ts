@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+declare global {
+  interface Window {
+    webkitSpeechRecognition: any;
+    SpeechRecognition: any;
+  }
+}
+
+const SPEECH_LANGUAGES = { en: 'en-US', ko: 'ko-KR' } as const;
+
+// Recognition errors that just mean nothing was said, as opposed to missing permission or network.
+const SILENT_ERRORS = new Set(['no-speech', 'aborted']);
+
+const getSpeechRecognition = () => (typeof window !== 'undefined' ? window.SpeechRecognition || window.webkitSpeechRecognition : undefined);
+
+/**
+ * Listens for one spoken phrase at a time. `listen()` resolves with what was said, or an empty
+ * string when the user stayed silent or listening was stopped.
+ */
+export function useSpeechRecognition(language: 'en' | 'ko') {
+  const [isListening, setIsListening] = useState(false);
+  const recognitionRef = useRef<any>(null);
+  const isSupported = !!getSpeechRecognition();
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.abort();
+  }, []);
+
+  const listen = useCallback((): Promise<string> => {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) return Promise.reject(new Error('Speech recognition is not supported'));
+    recognitionRef.current?.abort();
+
+    return new Promise((resolve, reject) => {
+      const recognition = new SpeechRecognition();
+      recognition.lang = SPEECH_LANGUAGES[language];
+      recognition.interimResults = false;
+      recognition.continuous = false;
+      recognition.maxAlternatives = 1;
+
+      let transcript = '';
+      let failure: Error | null = null;
+      recognition.onstart = () => setIsListening(true);
+      recognition.onresult = (event: any) => {
+        transcript = Array.from(event.results as ArrayLike<any>)
+          .map(result => result[0].transcript)
+          .join(' ')
+          .trim();
+      };
+      recognition.onerror = (event: any) => {
+        if (!SILENT_ERRORS.has(event.error)) failure = new Error(event.error);
+      };
+      recognition.onend = () => {
+        if (recognitionRef.current === recognition) recognitionRef.current = null;
+        setIsListening(false);
+        if (failure) reject(failure);
+        else resolve(transcript);
+      };
+
+      recognitionRef.current = recognition;
+      recognition.start();
+    });
+  }, [language]);
+
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  return { isSupported, isListening, listen, stop };
+}
+
+// Long utterances get cut off in some browsers, so replies are read sentence by sentence.
+const splitIntoSentences = (text: string): string[] => {
+  return text
+    .split(/(?<=[.!?。？！])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Reads text aloud with the browser's speech synthesis. `speak()` resolves when reading has
+ * finished or was cancelled.
+ */
+export function useSpeechSynthesis(language: 'en' | 'ko') {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const finishRef = useRef<(() => void) | null>(null);
+  const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+  const cancel = useCallback(() => {
+    if (!isSupported) return;
+    window.speechSynthesis.cancel();
+    finishRef.current?.();
+  }, [isSupported]);
+
+  const speak = useCallback((text: string): Promise<void> => {
+    if (!isSupported) return Promise.resolve();
+    cancel();
+    const sentences = splitIntoSentences(text);
+    if (sentences.length === 0) return Promise.resolve();
+
+    const speechLanguage = SPEECH_LANGUAGES[language];
+    const voice = window.speechSynthesis.getVoices().find(v => v.lang === speechLanguage)
+      ?? window.speechSynthesis.getVoices().find(v => v.lang.startsWith(language));
+
+    return new Promise(resolve => {
+      const finish = () => {
+        if (finishRef.current !== finish) return;
+        finishRef.current = null;
+        setIsSpeaking(false);
+        resolve();
+      };
+      finishRef.current = finish;
+      setIsSpeaking(true);
+
+      sentences.forEach((sentence, index) => {
+        const utterance = new SpeechSynthesisUtterance(sentence);
+        utterance.lang = speechLanguage;
+        if (voice) utterance.voice = voice;
+        if (index === sentences.length - 1) {
+          utterance.onend = finish;
+        }
+        utterance.onerror = finish;
+        window.speechSynthesis.speak(utterance);
+      });
+    });
+  }, [language, isSupported, cancel]);
+
+  useEffect(() => () => {
+    if (isSupported) window.speechSynthesis.cancel();
+  }, [isSupported]);
+
+  return { isSupported, isSpeaking, speak, cancel };
+}
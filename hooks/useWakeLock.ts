@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+
+/**
+ * Keeps the screen on while `isActive` is true, where the browser supports the Screen Wake Lock API.
+ * The browser drops the lock whenever the page is hidden, so it is requested again on return.
+ */
+export function useWakeLock(isActive: boolean) {
+  useEffect(() => {
+    if (!isActive || typeof navigator === 'undefined' || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let isCancelled = false;
+
+    const requestLock = async () => {
+      if (document.visibilityState !== 'visible' || (sentinel && !sentinel.released)) return;
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (isCancelled) {
+          lock.release();
+        } else {
+          sentinel = lock;
+        }
+      } catch (error) {
+        // Denied, e.g. in battery saver mode; the screen just dims as usual
+        console.warn('Could not keep the screen on', error);
+      }
+    };
+
+    requestLock();
+    document.addEventListener('visibilitychange', requestLock);
+    return () => {
+      isCancelled = true;
+      document.removeEventListener('visibilitychange', requestLock);
+      sentinel?.release();
+    };
+  }, [isActive]);
+}
@@ -257,6 +257,199 @@ export const translations = {
     hideHistory: 'Hide History',
     showHistory: 'Show History',
     back: 'Back',
+    // Expiry Tracking
+    expired: 'Expired',
+    expiresToday: 'Today',
+    expiresInDays: 'D-{{days}}',
+    expiringSoonTitle: '{{count}} ingredients to use soon',
+    expiringSoonCount: '{{count}} expiring',
+    useExpiringFirst: 'Use expiring first',
+    purchaseDate: 'Purchase Date',
+    expiryDate: 'Expiry Date',
+    useEstimatedExpiry: 'Use estimate',
+    save: 'Save',
+    // Quantities
+    unitFamilyCount: 'Count',
+    unitFamilyMass: 'Weight',
+    unitFamilyVolume: 'Volume',
+    // Cooking history / pantry deduction
+    iCookedThis: 'I cooked this',
+    cookedReviewTitle: 'Update your pantry',
+    cookedReviewSubtitle: 'Check what this recipe used up. Unticked items stay as they are.',
+    cookedNoMatches: 'None of this recipe\'s ingredients are in your pantry.',
+    cookedHave: 'You have {{quantity}}',
+    cookedRecipeUses: 'Recipe: {{line}}',
+    cookedRemaining: 'Left',
+    cookedUseAll: 'Used it all',
+    cookedConfirm: 'Save',
+    cookedSaved: 'Pantry updated!',
+    cookedTimes: 'Cooked {{count}} time(s) · last on {{date}}',
+    // Scan review
+    scanReviewReceiptTitle: 'Review receipt',
+    scanReviewSubtitle: 'Fix names and amounts, merge duplicates, or drop items before adding them.',
+    scanNothingFound: 'No ingredients were found.',
+    scanDropItem: 'Remove item',
+    scanUnknownItem: 'Not in ingredient list',
+    scanLowConfidence: 'Please check',
+    scanMergeWith: 'Merge with "{{name}}"',
+    scanUnknownSkipped: '{{count}} item(s) not in the ingredient list will be skipped.',
+    scanAddItems: 'Add {{count}} item(s)',
+    scanFailed: 'Couldn\'t read the image. Please try again.',
+    // Fridge photo scan
+    scanIngredients: 'Scan ingredients',
+    scanFridgePhoto: 'Photo of fridge',
+    scanReviewFridgeTitle: 'Review detected ingredients',
+    // Multi-page receipts
+    receiptPages: 'Receipt photos ({{count}})',
+    receiptPageLabel: 'Receipt page {{page}}',
+    addReceiptPage: 'Add page',
+    cancelScan: 'Cancel',
+    scanReceiptPages: 'Scan {{count}} photo(s)',
+    // Custom ingredients
+    customIngredientTitle: 'New ingredient',
+    customIngredientEnName: 'English name',
+    customIngredientKoName: 'Korean name',
+    customIngredientEmoji: 'Emoji',
+    customIngredientNameRequired: 'Please enter a name.',
+    customIngredientExists: 'This ingredient is already in the list.',
+    addAsCustomIngredient: 'Add "{{name}}" as a new ingredient',
+    scanAddAsCustom: 'Add as new ingredient',
+    // Allergy-safe recommendations
+    recipesFilteredForAllergies: '{{count}} recipe(s) were left out because of your allergies',
+    recipeFilteredReason: '{{name}} — contains {{allergens}}',
+    recipeAllergenWarning: 'This recipe may still contain {{allergens}}, which you are allergic to. Check the ingredients before cooking.',
+    // Streaming recommendations
+    recipesStreamingProgress: 'Found {{count}} of {{total}} recipes...',
+    // Streaming AI Chef
+    stopGenerating: 'Stop',
+    // AI Chef actions
+    chefToolAddToShoppingList: 'Add to shopping list',
+    chefToolAddPantryIngredient: 'Add to my fridge',
+    chefToolRemovePantryIngredient: 'Remove from my fridge',
+    chefToolSaveRecipe: 'Save recipe',
+    chefToolSuggestRecipes: 'Get recipe suggestions',
+    chefToolConfirm: 'Confirm',
+    chefToolDismiss: 'Dismiss',
+    chefToolConfirmed: 'Done',
+    chefToolDismissed: 'Dismissed',
+    // AI Chef photos
+    chatAttachPhoto: 'Attach a photo',
+    chatRemovePhoto: 'Remove photo',
+    chatAttachedPhoto: 'Attached photo',
+    chatPhotoFailed: 'Could not read that photo. Please try another one.',
+    // Chat conversations
+    newConversation: 'New chat',
+    searchConversations: 'Search conversations',
+    noConversationsFound: 'No conversations match your search.',
+    renameConversation: 'Rename',
+    cancelRename: 'Cancel',
+    deleteConversation: 'Delete conversation',
+    confirmDeleteConversation: 'Delete this conversation?',
+    // AI Chef voice mode
+    voiceMode: 'Voice mode',
+    voiceModeExit: 'Leave voice mode',
+    voiceModeListening: 'Listening… ask your question.',
+    voiceModeWaitingForWakePhrase: 'Say "Hey Chef" to ask a question.',
+    voiceModeThinking: 'Thinking…',
+    voiceModeSpeaking: 'Speaking… tap to interrupt.',
+    voiceModeIdle: 'Tap to talk.',
+    voiceModeTalk: 'Talk',
+    voiceModeInterrupt: 'Interrupt',
+    voiceModeRequireWakePhrase: 'Only answer after "Hey Chef"',
+    voiceModeWakeReply: 'Yes?',
+    voiceInputFailed: 'Couldn\'t use the microphone. Check the permission and try again.',
+    startVoiceInput: 'Speak a question',
+    stopVoiceInput: 'Stop listening',
+    // Cook Mode
+    startCookMode: 'Start Cook Mode',
+    cookModeStep: 'Step {{current}} of {{total}}',
+    cookModePrevious: 'Previous',
+    cookModeNext: 'Next',
+    cookModeFinish: 'Finish',
+    cookModeExit: 'Exit Cook Mode',
+    cookModeConfirmExit: 'Timers are still running. Leave Cook Mode anyway?',
+    cookModeStartTimer: 'Start {{duration}} timer',
+    cookModeTimerRunning: '{{duration}} timer running',
+    cookModeTimers: 'Timers',
+    cookModeTimerStep: 'Step {{step}}',
+    cookModePauseTimer: 'Pause timer',
+    cookModeResumeTimer: 'Resume timer',
+    cookModeRemoveTimer: 'Remove timer',
+    cookModeTimerAlert: 'Time\'s up: step {{step}} ({{duration}})',
+    cookModeVoiceControl: 'Voice control',
+    cookModeVoiceHint: 'Say "next", "back", "repeat" or "start timer".',
+    cookModeSwipeHint: 'Swipe or use the arrow keys to move between steps.',
+    // Structured instruction steps
+    stepDurationMinutes: '{{count}} min',
+    stepUses: 'Uses:',
+    heatLow: 'Low heat',
+    heatMediumLow: 'Medium-low heat',
+    heatMedium: 'Medium heat',
+    heatMediumHigh: 'Medium-high heat',
+    heatHigh: 'High heat',
+    // Servings scaler
+    caloriesPerServingAndTotal: '{{perServing}} kcal per serving · {{total}} kcal total',
+    resetServings: 'Reset to {{count}} servings',
+    decreaseServings: 'Fewer servings',
+    increaseServings: 'More servings',
+    // Unit system
+    unitSystem: 'Units',
+    unitSystemMetric: 'Metric (g, ml, °C)',
+    unitSystemUS: 'US (oz, cups, °F)',
+    unitSystemKorean: 'Korean (컵, 큰술, 작은술)',
+    // Nutrition
+    nutritionPerServing: 'Nutrition per serving',
+    nutrientCalories: 'Calories',
+    nutrientProtein: 'Protein',
+    nutrientCarbs: 'Carbs',
+    nutrientFat: 'Fat',
+    nutrientFiber: 'Fiber',
+    nutrientSugar: 'Sugar',
+    nutrientSodium: 'Sodium',
+    nutritionCalculatedValue: 'Calculated: {{value}}',
+    nutritionMismatchWarning: 'The AI estimate and the value calculated from the ingredients differ a lot for {{nutrients}}. Treat these numbers as rough.',
+    nutritionCoverage: 'Calculated from {{counted}} of {{total}} ingredients using standard nutrient values.',
+    nutritionCalculatedOnly: 'No AI estimate for this recipe, so the values are calculated from the ingredients.',
+    // Food diary & nutrition goals
+    nutritionGoalsTitle: 'Daily nutrition goals',
+    nutritionGoalsSubtitle: 'Set a calorie goal for your food diary. You can change it any time in your profile.',
+    calorieGoalLabel: 'Calories per day',
+    macroGoalsLabel: 'Macros per day',
+    macroGoalsHint: 'Picking a calorie goal fills in a balanced split (20% protein, 50% carbs, 30% fat).',
+    editNutritionGoals: 'Edit nutrition goals',
+    cancelEditGoals: 'Cancel',
+    foodDiaryTitle: 'Food diary',
+    diaryToday: 'Today',
+    diaryLast7Days: '7 days',
+    caloriesLeft: '{{calories}} kcal left',
+    caloriesOver: '{{calories}} kcal over your goal',
+    caloriesAmount: '{{calories}} kcal',
+    diaryEmpty: 'Nothing logged today. Tap "I cooked this" on a recipe to add it to your diary.',
+    diaryDailyAverage: 'Daily average: {{calories}} kcal',
+    servingsEaten: 'Servings you ate',
+    servingsEatenCount: '{{count}} serv.',
+    useRemainingCaloriesLabel: 'Fit recommendations to the calories I have left today',
+    remainingCaloriesHint: 'Recommendations will fit the {{calories}} kcal you have left today',
+    calorieGoalReachedHint: 'You\'ve reached today\'s calorie goal, so lighter dishes will be recommended',
+    // Meal planner
+    mealPlan: 'Plan',
+    mealPlanTitle: 'Weekly Meal Plan',
+    mealPlanSubtitle: 'Drag recipes into the week, or let AI plan it around what\'s in your fridge.',
+    mealSlotBreakfast: 'Breakfast',
+    mealSlotLunch: 'Lunch',
+    mealSlotDinner: 'Dinner',
+    generateMealPlan: 'Plan my week with AI',
+    generatingMealPlan: 'Planning your week...',
+    mealPlanFull: 'Every slot this week is already planned. Remove a meal to plan a new one.',
+    mealPlanFailed: 'Couldn\'t plan your week. Please try again.',
+    mealPlanTraySaved: 'Saved',
+    mealPlanTrayRecommended: 'Recommended',
+    mealPlanTrayEmpty: 'Save recipes or get recommendations to plan them here.',
+    mealPlanTrayHint: 'Drag a recipe onto a slot, or tap it and then tap a slot.',
+    mealPlanPickedHint: 'Tap a slot to plan "{{name}}".',
+    mealPlanPreviousWeek: 'Previous week',
+    mealPlanNextWeek: 'Next week',
+    removeFromMealPlan: 'Remove from plan',
   },
   ko: {
     // App
@@ -515,5 +708,198 @@ export const translations = {
     hideHistory: '기록 숨기기',
     showHistory: '기록 보기',
     back: '뒤로',
+    // Expiry Tracking
+    expired: '기한 지남',
+    expiresToday: '오늘까지',
+    expiresInDays: 'D-{{days}}',
+    expiringSoonTitle: '빨리 써야 할 재료 {{count}}개',
+    expiringSoonCount: '{{count}}개 임박',
+    useExpiringFirst: '유통기한 임박 재료 먼저 쓰기',
+    purchaseDate: '구매일',
+    expiryDate: '유통기한',
+    useEstimatedExpiry: '예상 기한 사용',
+    save: '저장',
+    // Quantities
+    unitFamilyCount: '개수',
+    unitFamilyMass: '무게',
+    unitFamilyVolume: '부피',
+    // Cooking history / pantry deduction
+    iCookedThis: '요리했어요',
+    cookedReviewTitle: '냉장고 재료 정리',
+    cookedReviewSubtitle: '이 레시피에 사용한 재료를 확인하세요. 선택하지 않은 재료는 그대로 유지돼요.',
+    cookedNoMatches: '냉장고에 이 레시피의 재료가 없어요.',
+    cookedHave: '보유 {{quantity}}',
+    cookedRecipeUses: '레시피: {{line}}',
+    cookedRemaining: '남은 양',
+    cookedUseAll: '다 썼어요',
+    cookedConfirm: '저장',
+    cookedSaved: '냉장고를 업데이트했어요!',
+    cookedTimes: '{{count}}번 요리함 · 마지막 {{date}}',
+    // Scan review
+    scanReviewReceiptTitle: '영수증 확인',
+    scanReviewSubtitle: '추가하기 전에 이름과 양을 고치거나, 중복을 합치거나, 항목을 빼세요.',
+    scanNothingFound: '찾은 재료가 없어요.',
+    scanDropItem: '항목 삭제',
+    scanUnknownItem: '재료 목록에 없음',
+    scanLowConfidence: '확인 필요',
+    scanMergeWith: '"{{name}}"와 합치기',
+    scanUnknownSkipped: '재료 목록에 없는 {{count}}개 항목은 추가되지 않아요.',
+    scanAddItems: '{{count}}개 추가',
+    scanFailed: '이미지를 읽지 못했어요. 다시 시도해 주세요.',
+    // Fridge photo scan
+    scanIngredients: '재료 스캔',
+    scanFridgePhoto: '냉장고 사진으로',
+    scanReviewFridgeTitle: '인식된 재료 확인',
+    // Multi-page receipts
+    receiptPages: '영수증 사진 ({{count}})',
+    receiptPageLabel: '영수증 {{page}}쪽',
+    addReceiptPage: '사진 추가',
+    cancelScan: '취소',
+    scanReceiptPages: '사진 {{count}}장 스캔',
+    // Custom ingredients
+    customIngredientTitle: '새 재료 만들기',
+    customIngredientEnName: '영어 이름',
+    customIngredientKoName: '한국어 이름',
+    customIngredientEmoji: '이모지',
+    customIngredientNameRequired: '이름을 입력해 주세요.',
+    customIngredientExists: '이미 목록에 있는 재료예요.',
+    addAsCustomIngredient: '"{{name}}"을(를) 새 재료로 추가',
+    scanAddAsCustom: '새 재료로 추가',
+    // Allergy-safe recommendations
+    recipesFilteredForAllergies: '알레르기 때문에 레시피 {{count}}개를 제외했어요',
+    recipeFilteredReason: '{{name}} — {{allergens}} 포함',
+    recipeAllergenWarning: '이 레시피에는 알레르기가 있는 {{allergens}}이(가) 들어 있을 수 있어요. 요리 전에 재료를 꼭 확인하세요.',
+    // Streaming recommendations
+    recipesStreamingProgress: '레시피 {{total}}개 중 {{count}}개를 찾았어요...',
+    // Streaming AI Chef
+    stopGenerating: '중지',
+    // AI Chef actions
+    chefToolAddToShoppingList: '장보기 목록에 추가',
+    chefToolAddPantryIngredient: '냉장고에 추가',
+    chefToolRemovePantryIngredient: '냉장고에서 삭제',
+    chefToolSaveRecipe: '레시피 저장',
+    chefToolSuggestRecipes: '레시피 추천받기',
+    chefToolConfirm: '확인',
+    chefToolDismiss: '취소',
+    chefToolConfirmed: '완료했어요',
+    chefToolDismissed: '취소했어요',
+    // AI Chef photos
+    chatAttachPhoto: '사진 첨부',
+    chatRemovePhoto: '사진 삭제',
+    chatAttachedPhoto: '첨부한 사진',
+    chatPhotoFailed: '사진을 읽을 수 없어요. 다른 사진으로 시도해주세요.',
+    // Chat conversations
+    newConversation: '새 대화',
+    searchConversations: '대화 검색',
+    noConversationsFound: '검색 결과가 없어요.',
+    renameConversation: '이름 바꾸기',
+    cancelRename: '취소',
+    deleteConversation: '대화 삭제',
+    confirmDeleteConversation: '이 대화를 삭제할까요?',
+    // AI Chef voice mode
+    voiceMode: '음성 모드',
+    voiceModeExit: '음성 모드 끄기',
+    voiceModeListening: '듣고 있어요… 질문해 주세요.',
+    voiceModeWaitingForWakePhrase: '"셰프야"라고 부른 뒤 질문해 주세요.',
+    voiceModeThinking: '생각 중…',
+    voiceModeSpeaking: '읽는 중… 눌러서 끊을 수 있어요.',
+    voiceModeIdle: '눌러서 말하기',
+    voiceModeTalk: '말하기',
+    voiceModeInterrupt: '끊기',
+    voiceModeRequireWakePhrase: '"셰프야"라고 부를 때만 답하기',
+    voiceModeWakeReply: '네, 말씀하세요.',
+    voiceInputFailed: '마이크를 사용할 수 없어요. 권한을 확인하고 다시 시도해 주세요.',
+    startVoiceInput: '음성으로 질문하기',
+    stopVoiceInput: '듣기 멈추기',
+    // Cook Mode
+    startCookMode: '쿡 모드 시작',
+    cookModeStep: '{{total}}단계 중 {{current}}단계',
+    cookModePrevious: '이전',
+    cookModeNext: '다음',
+    cookModeFinish: '요리 완료',
+    cookModeExit: '쿡 모드 종료',
+    cookModeConfirmExit: '타이머가 아직 실행 중입니다. 그래도 쿡 모드를 종료할까요?',
+    cookModeStartTimer: '{{duration}} 타이머 시작',
+    cookModeTimerRunning: '{{duration}} 타이머 실행 중',
+    cookModeTimers: '타이머',
+    cookModeTimerStep: '{{step}}단계',
+    cookModePauseTimer: '타이머 일시정지',
+    cookModeResumeTimer: '타이머 다시 시작',
+    cookModeRemoveTimer: '타이머 삭제',
+    cookModeTimerAlert: '시간이 다 됐어요: {{step}}단계 ({{duration}})',
+    cookModeVoiceControl: '음성 제어',
+    cookModeVoiceHint: '"다음", "이전", "다시", "타이머"라고 말해 보세요.',
+    cookModeSwipeHint: '화면을 밀거나 방향키로 단계를 넘길 수 있어요.',
+    // Structured instruction steps
+    stepDurationMinutes: '{{count}}분',
+    stepUses: '사용 재료:',
+    heatLow: '약불',
+    heatMediumLow: '중약불',
+    heatMedium: '중불',
+    heatMediumHigh: '중강불',
+    heatHigh: '강불',
+    // Servings scaler
+    caloriesPerServingAndTotal: '1인분 {{perServing}}kcal · 총 {{total}}kcal',
+    resetServings: '{{count}}인분으로 되돌리기',
+    decreaseServings: '인분 줄이기',
+    increaseServings: '인분 늘리기',
+    // Unit system
+    unitSystem: '단위',
+    unitSystemMetric: '미터법 (g, ml, °C)',
+    unitSystemUS: '미국식 (온스, 컵, °F)',
+    unitSystemKorean: '한국식 계량 (컵, 큰술, 작은술)',
+    // Nutrition
+    nutritionPerServing: '1인분 영양 정보',
+    nutrientCalories: '칼로리',
+    nutrientProtein: '단백질',
+    nutrientCarbs: '탄수화물',
+    nutrientFat: '지방',
+    nutrientFiber: '식이섬유',
+    nutrientSugar: '당류',
+    nutrientSodium: '나트륨',
+    nutritionCalculatedValue: '계산값: {{value}}',
+    nutritionMismatchWarning: '{{nutrients}} 항목은 AI 추정치와 재료로 계산한 값이 크게 달라요. 대략적인 값으로만 참고하세요.',
+    nutritionCoverage: '재료 {{total}}개 중 {{counted}}개를 표준 영양 성분으로 계산했어요.',
+    nutritionCalculatedOnly: '이 레시피에는 AI 추정치가 없어 재료로 계산한 값을 보여드려요.',
+    // Food diary & nutrition goals
+    nutritionGoalsTitle: '하루 영양 목표',
+    nutritionGoalsSubtitle: '식단 일기에 쓸 칼로리 목표를 정해 주세요. 프로필에서 언제든 바꿀 수 있어요.',
+    calorieGoalLabel: '하루 칼로리',
+    macroGoalsLabel: '하루 탄단지',
+    macroGoalsHint: '칼로리 목표를 고르면 균형 잡힌 비율(단백질 20%, 탄수화물 50%, 지방 30%)로 채워져요.',
+    editNutritionGoals: '영양 목표 수정',
+    cancelEditGoals: '취소',
+    foodDiaryTitle: '식단 일기',
+    diaryToday: '오늘',
+    diaryLast7Days: '7일',
+    caloriesLeft: '{{calories}}kcal 남았어요',
+    caloriesOver: '목표보다 {{calories}}kcal 더 먹었어요',
+    caloriesAmount: '{{calories}}kcal',
+    diaryEmpty: '오늘 기록이 없어요. 레시피에서 "요리했어요"를 누르면 일기에 추가돼요.',
+    diaryDailyAverage: '하루 평균 {{calories}}kcal',
+    servingsEaten: '먹은 양 (인분)',
+    servingsEatenCount: '{{count}}인분',
+    useRemainingCaloriesLabel: '오늘 남은 칼로리에 맞춰 레시피 추천받기',
+    remainingCaloriesHint: '오늘 남은 {{calories}}kcal에 맞춰 추천해 드려요',
+    calorieGoalReachedHint: '오늘 칼로리 목표를 채워서 가벼운 요리를 추천해 드려요',
+    // Meal planner
+    mealPlan: '식단',
+    mealPlanTitle: '주간 식단',
+    mealPlanSubtitle: '레시피를 끌어다 한 주를 채우거나, 냉장고 재료에 맞춰 AI에게 맡겨보세요.',
+    mealSlotBreakfast: '아침',
+    mealSlotLunch: '점심',
+    mealSlotDinner: '저녁',
+    generateMealPlan: 'AI로 한 주 식단 짜기',
+    generatingMealPlan: '식단을 짜는 중...',
+    mealPlanFull: '이번 주 식단이 모두 채워져 있어요. 새로 짜려면 식사를 비워주세요.',
+    mealPlanFailed: '식단을 짜지 못했어요. 다시 시도해 주세요.',
+    mealPlanTraySaved: '저장됨',
+    mealPlanTrayRecommended: '추천',
+    mealPlanTrayEmpty: '레시피를 저장하거나 추천받으면 여기서 식단에 넣을 수 있어요.',
+    mealPlanTrayHint: '레시피를 칸으로 끌어다 놓거나, 레시피를 누른 뒤 칸을 누르세요.',
+    mealPlanPickedHint: '"{{name}}"을(를) 넣을 칸을 누르세요.',
+    mealPlanPreviousWeek: '이전 주',
+    mealPlanNextWeek: '다음 주',
+    removeFromMealPlan: '식단에서 빼기',
   },
 };
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { ChatConversation, ChatConversationRecord, ChatMessage } from '../types';
+import {
+  deleteChatConversations,
+  fromChatConversationRecord,
+  getChatConversations,
+  upsertChatConversations,
+  upsertChatMessages,
+} from './supabaseService';
+
+// A single local edit that still has to reach the `chat_conversations` / `chat_messages` tables.
+export type ChatChange =
+  | { type: 'conversation'; conversation: ChatConversation } // Title, recipe and timestamps, without messages
+  | { type: 'message'; conversationId: string; position: number; message: ChatMessage }
+  | { type: 'delete'; conversationId: string; deletedAt: string };
+
+const pendingKey = (userId: string) => `ohmycook-chat-pending-${userId}`;
+
+const timeOf = (timestamp?: string | null) => (timestamp ? Date.parse(timestamp) || 0 : 0);
+
+// The conversation without its messages; messages are synced one by one.
+const headerOf = ({ messages, messagesLoaded, messageCount, ...header }: ChatConversation): ChatConversation => ({
+  ...header,
+  messages: [],
+  messageCount: messagesLoaded === false ? messageCount : messages.length,
+});
+
+/**
+ * Works out what changed between two versions of the conversation list: new or renamed
+ * conversations, new or edited messages, and deleted conversations.
+ */
+export function diffConversations(previous: ChatConversation[], next: ChatConversation[], now: string): ChatChange[] {
+  const previousById = new Map(previous.map((conversation) => [conversation.id, conversation]));
+  const nextIds = new Set(next.map((conversation) => conversation.id));
+  const changes: ChatChange[] = [];
+
+  next.forEach((conversation) => {
+    const before = previousById.get(conversation.id);
+    if (!before || JSON.stringify(headerOf(before)) !== JSON.stringify(headerOf(conversation))) {
+      changes.push({ type: 'conversation', conversation: headerOf(conversation) });
+    }
+    // Messages that were never loaded on this device have nothing to send
+    if (conversation.messagesLoaded === false) return;
+    conversation.messages.forEach((message, position) => {
+      const beforeMessage = before?.messagesLoaded === false ? undefined : before?.messages[position];
+      if (!beforeMessage || JSON.stringify(beforeMessage) !== JSON.stringify(message)) {
+        changes.push({ type: 'message', conversationId: conversation.id, position, message });
+      }
+    });
+  });
+
+  previous.forEach((conversation) => {
+    if (!nextIds.has(conversation.id)) {
+      changes.push({ type: 'delete', conversationId: conversation.id, deletedAt: now });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Merges local conversations with the ones stored in Supabase. Whichever side changed a
+ * conversation last wins; a remote conversation that is newer arrives without its messages,
+ * which are loaded when it is opened.
+ * @returns The merged list, plus local conversations the server doesn't have yet (or has an older copy of).
+ */
+export function mergeConversations(local: ChatConversation[], remote: ChatConversationRecord[]): { merged: ChatConversation[]; toPush: ChatConversation[] } {
+  const merged = new Map(local.map((conversation) => [conversation.id, conversation]));
+  const remoteById = new Map(remote.map((record) => [record.id, record]));
+
+  remote.forEach((record) => {
+    const localConversation = merged.get(record.id);
+    if (record.deleted_at) {
+      if (localConversation && timeOf(localConversation.updatedAt) <= timeOf(record.deleted_at)) {
+        merged.delete(record.id);
+      }
+      return;
+    }
+    if (!localConversation || timeOf(record.updated_at) > timeOf(localConversation.updatedAt)) {
+      merged.set(record.id, fromChatConversationRecord(record));
+    }
+  });
+
+  const toPush = Array.from(merged.values()).filter((conversation) => {
+    if (conversation.messagesLoaded === false) return false;
+    const record = remoteById.get(conversation.id);
+    return !record || record.deleted_at || timeOf(conversation.updatedAt) > timeOf(record.updated_at);
+  });
+
+  return { merged: Array.from(merged.values()), toPush };
+}
+
+/**
+ * The changes that upload whole conversations, e.g. ones created before signing in.
+ */
+export function toUploadChanges(conversations: ChatConversation[]): ChatChange[] {
+  return conversations.flatMap((conversation) => [
+    { type: 'conversation' as const, conversation: headerOf(conversation) },
+    ...conversation.messages.map((message, position) => ({ type: 'message' as const, conversationId: conversation.id, position, message })),
+  ]);
+}
+
+export function loadPendingChatChanges(userId: string): ChatChange[] {
+  try {
+    return JSON.parse(localStorage.getItem(pendingKey(userId)) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function savePendingChatChanges(userId: string, changes: ChatChange[]) {
+  try {
+    if (changes.length) {
+      localStorage.setItem(pendingKey(userId), JSON.stringify(changes));
+    } else {
+      localStorage.removeItem(pendingKey(userId));
+    }
+  } catch (error) {
+    console.warn('Could not save pending chat changes:', error);
+  }
+}
+
+const conversationIdOf = (change: ChatChange) => (change.type === 'conversation' ? change.conversation.id : change.conversationId);
+
+const changeKey = (change: ChatChange) => {
+  if (change.type === 'message') return `message:${change.conversationId}:${change.position}`;
+  return `${change.type}:${conversationIdOf(change)}`;
+};
+
+/**
+ * Adds changes to the offline queue. Only the latest change per conversation header or message is
+ * kept, and deleting a conversation drops its unsent edits.
+ */
+export function queuePendingChatChanges(userId: string, changes: ChatChange[]) {
+  const queued = new Map(loadPendingChatChanges(userId).map((change) => [changeKey(change), change]));
+  changes.forEach((change) => {
+    if (change.type === 'delete') {
+      Array.from(queued.entries()).forEach(([key, queuedChange]) => {
+        if (conversationIdOf(queuedChange) === change.conversationId) queued.delete(key);
+      });
+    }
+    queued.delete(changeKey(change));
+    queued.set(changeKey(change), change);
+  });
+  savePendingChatChanges(userId, Array.from(queued.values()));
+}
+
+/**
+ * Sends queued changes to Supabase: conversations first, so their messages have a row to belong
+ * to, then messages, then deletions. Changes stay queued if a request fails (e.g. while offline).
+ * @returns true when the queue is empty afterwards.
+ */
+export async function flushPendingChatChanges(userId: string): Promise<boolean> {
+  const changes = loadPendingChatChanges(userId);
+  if (!changes.length) return true;
+
+  const conversations = changes.flatMap((change) => (change.type === 'conversation' ? [change.conversation] : []));
+  const messagesByConversation = new Map<string, { position: number; message: ChatMessage }[]>();
+  const deletesByTime = new Map<string, string[]>();
+  changes.forEach((change) => {
+    if (change.type === 'message') {
+      messagesByConversation.set(change.conversationId, [
+        ...(messagesByConversation.get(change.conversationId) ?? []),
+        { position: change.position, message: change.message },
+      ]);
+    } else if (change.type === 'delete') {
+      deletesByTime.set(change.deletedAt, [...(deletesByTime.get(change.deletedAt) ?? []), change.conversationId]);
+    }
+  });
+
+  try {
+    await upsertChatConversations(userId, conversations);
+    for (const [conversationId, messages] of messagesByConversation) {
+      await upsertChatMessages(userId, conversationId, messages);
+    }
+    for (const [deletedAt, conversationIds] of deletesByTime) {
+      await deleteChatConversations(userId, conversationIds, deletedAt);
+    }
+  } catch (error) {
+    console.warn('Chat sync failed, will retry later:', error);
+    return false;
+  }
+
+  // Keep anything that was queued while the request was in flight
+  const sent = new Set(changes.map((change) => JSON.stringify(change)));
+  const remaining = loadPendingChatChanges(userId).filter((change) => !sent.has(JSON.stringify(change)));
+  savePendingChatChanges(userId, remaining);
+  return remaining.length === 0;
+}
+
+/**
+ * Pushes any queued changes, then pulls the latest conversation list (without messages).
+ * @returns null when queued changes couldn't be sent, so the caller doesn't merge against stale rows.
+ */
+export async function pullRemoteConversations(userId: string): Promise<ChatConversationRecord[] | null> {
+  if (!(await flushPendingChatChanges(userId))) return null;
+  return getChatConversations(userId);
+}
@@ -1,5 +1,6 @@
 
-import { UserSettings, Recipe, RecipeFilters, ChatMessage } from '../types';
+import { UserSettings, Recipe, RecipeFilters, ChatMessage, ReceiptLineItem, FridgeDetection, InlineImage, RecipeProfile, RecipeRecommendationsResult, RecipeStreamEvent, ChatStreamEvent, MealPlanResult, MealSlot } from '../types';
+import type { MealSlotRef } from '../utils/mealPlan';
 
 async function callGeminiApi(action: string, payload: any) {
   const MAX_RETRIES = 3;
@@ -66,26 +67,130 @@ async function callGeminiApi(action: string, payload: any) {
 }
 
 
-export async function getRecipeRecommendations(ingredients: string[], priorityIngredients: string[], filters: RecipeFilters, language: 'en' | 'ko'): Promise<Recipe[]> {
-  const payload = { ingredients, priorityIngredients, filters, language };
+// Recipes containing one of the profile's allergies are left out and listed in `filtered`.
+export async function getRecipeRecommendations(ingredients: string[], priorityIngredients: string[], filters: RecipeFilters, language: 'en' | 'ko', profile: RecipeProfile): Promise<RecipeRecommendationsResult> {
+  const payload = { ingredients, priorityIngredients, filters, language, profile };
   const data = await callGeminiApi('getRecipeRecommendations', payload);
   return data.result;
 }
 
-export async function getRecipeDetails(recipeName: string, ingredients: string[], language: 'en' | 'ko'): Promise<Partial<Recipe>> {
-  const payload = { recipeName, ingredients, language };
+// Calls a streaming action and yields its newline-delimited JSON events as they arrive.
+// Streams aren't retried, since part of the answer may already have been shown. An `error`
+// event is thrown; aborting `signal` stops the request and throws an AbortError.
+async function* streamGeminiApi<T extends { type: string }>(action: string, payload: any, signal?: AbortSignal): AsyncGenerator<T> {
+  const response = await fetch('/api/gemini', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action, payload }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    let errorMessage = errorText;
+    try {
+      errorMessage = JSON.parse(errorText).error || errorText;
+    } catch (e) {
+      // Not JSON (e.g. a Vercel error page); use the text as it is
+    }
+    throw new Error(errorMessage || `API call failed with status: ${response.status}`);
+  }
+
+  const parseLine = (line: string): T | null => {
+    if (!line.trim()) return null;
+    const event = JSON.parse(line);
+    if (event.type === 'error') throw new Error(event.message);
+    return event;
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const event = parseLine(line);
+      if (event) yield event;
+    }
+  }
+  const lastEvent = parseLine(buffer);
+  if (lastEvent) yield lastEvent;
+}
+
+// Like getRecipeRecommendations, but calls `onEvent` for each recipe (and later its image) as it is generated.
+// Resolves when the stream ends.
+export async function streamRecipeRecommendations(
+  ingredients: string[],
+  priorityIngredients: string[],
+  filters: RecipeFilters,
+  language: 'en' | 'ko',
+  profile: RecipeProfile,
+  onEvent: (event: RecipeStreamEvent) => void
+): Promise<void> {
+  const payload = { ingredients, priorityIngredients, filters, language, profile };
+  for await (const event of streamGeminiApi<RecipeStreamEvent>('streamRecipeRecommendations', payload)) {
+    onEvent(event);
+  }
+}
+
+export async function getRecipeDetails(recipeName: string, ingredients: string[], language: 'en' | 'ko', profile: RecipeProfile): Promise<Partial<Recipe>> {
+  const payload = { recipeName, ingredients, language, profile };
   const data = await callGeminiApi('getRecipeDetails', payload);
   return data.result;
 }
 
-export async function analyzeReceipt(base64Image: string): Promise<string[]> {
-  const payload = { base64Image };
+export interface MealPlanRequest {
+  ingredients: string[];
+  priorityIngredients: string[]; // Expiring soon
+  slots: MealSlotRef[]; // The open slots to fill
+  plannedMeals: { date: string; slot: MealSlot; recipeName: string }[];
+  recentRecipes: string[];
+  calorieGoal?: number;
+}
+
+// Plans a recipe for each open slot. Meals that are already planned are kept and not repeated;
+// recipes containing one of the profile's allergies are left out and listed in `filtered`.
+export async function generateMealPlan(request: MealPlanRequest, language: 'en' | 'ko', profile: RecipeProfile): Promise<MealPlanResult> {
+  const payload = { ...request, language, profile };
+  const data = await callGeminiApi('generateMealPlan', payload);
+  return data.result;
+}
+
+// Several images are treated as consecutive photos of one long receipt.
+export async function analyzeReceipt(images: InlineImage[]): Promise<ReceiptLineItem[]> {
+  const payload = { images };
   const data = await callGeminiApi('analyzeReceipt', payload);
   return data.result;
 }
 
-export async function chatWithAIChef(history: ChatMessage[], message: string, settings: UserSettings, language: 'en' | 'ko', recipeContext?: Recipe | null): Promise<string> {
-  const payload = { history, message, settings, language, recipeContext };
-  const data = await callGeminiApi('chatWithAIChef', payload);
+export async function analyzeFridgePhoto(image: InlineImage): Promise<FridgeDetection[]> {
+  const payload = { image };
+  const data = await callGeminiApi('analyzeFridgePhoto', payload);
+  return data.result;
+}
+
+export async function generateChatTitle(messages: ChatMessage[], language: 'en' | 'ko'): Promise<string> {
+  const data = await callGeminiApi('generateChatTitle', { messages, language });
   return data.result;
-}
\ No newline at end of file
+}
+
+// What the AI Chef knows about the user's kitchen, so it can propose pantry and shopping list actions.
+export interface AIChefKitchen {
+  pantry: string[];
+  shoppingList: string[];
+}
+
+// Sends a message to the AI Chef and yields the reply piece by piece as it is written, along with any
+// actions the AI Chef proposes.
+export async function* streamChatWithAIChef(history: ChatMessage[], message: string, settings: UserSettings, language: 'en' | 'ko', recipeContext?: Recipe | null, signal?: AbortSignal, kitchen?: AIChefKitchen, images: InlineImage[] = []): AsyncGenerator<Extract<ChatStreamEvent, { type: 'text' | 'toolCall' }>> {
+  const payload = { history, message, images, settings, language, recipeContext, ...kitchen };
+  for await (const event of streamGeminiApi<ChatStreamEvent>('streamChatWithAIChef', payload, signal)) {
+    if (event.type === 'text' || event.type === 'toolCall') yield event;
+  }
+}
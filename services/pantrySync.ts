@@ -0,0 +1,141 @@
+import { Ingredient, UserIngredientRecord } from '../types';
+import { deleteUserIngredients, fromUserIngredientRecord, getUserIngredients, upsertUserIngredients } from './supabaseService';
+
+// A single local edit that still has to reach the `user_ingredients` table.
+export type PantryChange =
+  | { type: 'upsert'; ingredient: Ingredient }
+  | { type: 'delete'; name: string; deletedAt: string };
+
+const pendingKey = (userId: string) => `ohmycook-pantry-pending-${userId}`;
+
+const timeOf = (timestamp?: string | null) => (timestamp ? Date.parse(timestamp) || 0 : 0);
+
+// Compare ingredients by content only; the sync timestamp is bookkeeping.
+const contentOf = ({ updatedAt, ...rest }: Ingredient) => JSON.stringify(rest);
+
+/**
+ * Works out which ingredients were added, edited or removed between two versions of the pantry.
+ * Added and edited ingredients are stamped with `now`.
+ */
+export function diffPantries(previous: Ingredient[], next: Ingredient[], now: string): PantryChange[] {
+  const previousByName = new Map(previous.map((ing) => [ing.name, ing]));
+  const nextNames = new Set(next.map((ing) => ing.name));
+  const changes: PantryChange[] = [];
+
+  next.forEach((ing) => {
+    const before = previousByName.get(ing.name);
+    if (!before || contentOf(before) !== contentOf(ing)) {
+      changes.push({ type: 'upsert', ingredient: { ...ing, updatedAt: now } });
+    }
+  });
+
+  previous.forEach((ing) => {
+    if (!nextNames.has(ing.name)) {
+      changes.push({ type: 'delete', name: ing.name, deletedAt: now });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Merges the local pantry with the rows stored in Supabase. Conflicts are resolved per ingredient:
+ * whichever side changed it last wins, and a removal on another device wins over an older local copy.
+ * @returns The merged pantry, plus local ingredients the server doesn't have yet (or has an older copy of).
+ */
+export function mergePantries(local: Ingredient[], remote: UserIngredientRecord[]): { merged: Ingredient[]; toPush: Ingredient[] } {
+  const merged = new Map(local.map((ing) => [ing.name, ing]));
+  const remoteByName = new Map(remote.map((record) => [record.ingredient_name, record]));
+
+  remote.forEach((record) => {
+    const localIngredient = merged.get(record.ingredient_name);
+    if (record.deleted_at) {
+      if (localIngredient && timeOf(localIngredient.updatedAt) <= timeOf(record.deleted_at)) {
+        merged.delete(record.ingredient_name);
+      }
+      return;
+    }
+    if (!localIngredient || timeOf(record.updated_at) > timeOf(localIngredient.updatedAt)) {
+      merged.set(record.ingredient_name, fromUserIngredientRecord(record));
+    }
+  });
+
+  const toPush = Array.from(merged.values()).filter((ing) => {
+    const record = remoteByName.get(ing.name);
+    return !record || record.deleted_at || timeOf(ing.updatedAt) > timeOf(record.updated_at);
+  });
+
+  return { merged: Array.from(merged.values()), toPush };
+}
+
+export function loadPendingChanges(userId: string): PantryChange[] {
+  try {
+    return JSON.parse(localStorage.getItem(pendingKey(userId)) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function savePendingChanges(userId: string, changes: PantryChange[]) {
+  if (changes.length) {
+    localStorage.setItem(pendingKey(userId), JSON.stringify(changes));
+  } else {
+    localStorage.removeItem(pendingKey(userId));
+  }
+}
+
+const changeName = (change: PantryChange) => (change.type === 'upsert' ? change.ingredient.name : change.name);
+
+/**
+ * Adds changes to the offline queue. Only the latest change per ingredient is kept.
+ */
+export function queuePendingChanges(userId: string, changes: PantryChange[]) {
+  const queued = new Map(loadPendingChanges(userId).map((change) => [changeName(change), change]));
+  changes.forEach((change) => {
+    queued.delete(changeName(change));
+    queued.set(changeName(change), change);
+  });
+  savePendingChanges(userId, Array.from(queued.values()));
+}
+
+/**
+ * Sends queued changes to Supabase. Changes stay queued if the request fails (e.g. while offline).
+ * @returns true when the queue is empty afterwards.
+ */
+export async function flushPendingChanges(userId: string): Promise<boolean> {
+  const changes = loadPendingChanges(userId);
+  if (!changes.length) return true;
+
+  const upserts = changes.flatMap((change) => (change.type === 'upsert' ? [change.ingredient] : []));
+  const deletesByTime = new Map<string, string[]>();
+  changes.forEach((change) => {
+    if (change.type === 'delete') {
+      deletesByTime.set(change.deletedAt, [...(deletesByTime.get(change.deletedAt) ?? []), change.name]);
+    }
+  });
+
+  try {
+    await upsertUserIngredients(userId, upserts);
+    for (const [deletedAt, names] of deletesByTime) {
+      await deleteUserIngredients(userId, names, deletedAt);
+    }
+  } catch (error) {
+    console.warn('Pantry sync failed, will retry later:', error);
+    return false;
+  }
+
+  // Keep anything that was queued while the request was in flight
+  const sent = new Set(changes.map((change) => JSON.stringify(change)));
+  const remaining = loadPendingChanges(userId).filter((change) => !sent.has(JSON.stringify(change)));
+  savePendingChanges(userId, remaining);
+  return remaining.length === 0;
+}
+
+/**
+ * Pushes any queued changes, then pulls the latest pantry rows.
+ * @returns null when queued changes couldn't be sent, so the caller doesn't merge against stale rows.
+ */
+export async function pullRemotePantry(userId: string): Promise<UserIngredientRecord[] | null> {
+  if (!(await flushPendingChanges(userId))) return null;
+  return getUserIngredients(userId);
+}
@@ -34,12 +34,16 @@ export async function supabaseRequest<T>(
   path: string,
   { prefer, headers, ...init }: SupabaseRequestInit = {},
 ): Promise<T> {
+  // Send the signed-in user's token so row level security policies see auth.uid()
+  const { data: { session } } = await supabase.auth.getSession();
+  const accessToken = session?.access_token ?? supabaseAnonKey;
+
   const response = await fetch(`${restUrl}${path}`, {
     ...init,
     headers: {
       'Content-Type': 'application/json',
       apikey: supabaseAnonKey,
-      Authorization: `Bearer ${supabaseAnonKey}`,
+      Authorization: `Bearer ${accessToken}`,
       ...(prefer ? { Prefer: prefer } : {}),
       ...headers,
     },
@@ -1,5 +1,6 @@
 import { supabaseRequest } from './supabaseClient';
-import { Ingredient, RecipeSearchCount, UserIngredientRecord, UserProfileRecord } from '../types';
+import { ChatConversation, ChatConversationRecord, ChatMessage, ChatMessageRecord, CustomIngredient, CustomIngredientRecord, Ingredient, MealPlan, MealPlanRecord, RecipeSearchCount, UserIngredientRecord, UserProfileRecord } from '../types';
+import { parseQuantity, stringifyQuantity } from '../utils/quantity';
 
 function encodeFilter(value: string) {
   return encodeURIComponent(value);
@@ -69,6 +70,28 @@ export async function getPopularRecipes(limit = 10) {
   return data ?? [];
 }
 
+export function toUserIngredientRecord(userId: string, ingredient: Ingredient): UserIngredientRecord {
+  return {
+    user_id: userId,
+    ingredient_name: ingredient.name,
+    quantity: stringifyQuantity(ingredient.quantity),
+    purchased_at: ingredient.purchasedAt ?? null,
+    expires_at: ingredient.expiresAt ?? null,
+    updated_at: ingredient.updatedAt ?? new Date().toISOString(),
+    deleted_at: null,
+  };
+}
+
+export function fromUserIngredientRecord(record: UserIngredientRecord): Ingredient {
+  return {
+    name: record.ingredient_name,
+    quantity: parseQuantity(record.quantity),
+    ...(record.purchased_at ? { purchasedAt: record.purchased_at } : {}),
+    ...(record.expires_at ? { expiresAt: record.expires_at } : {}),
+    ...(record.updated_at ? { updatedAt: record.updated_at } : {}),
+  };
+}
+
 export async function getUserIngredients(userId: string) {
   if (!userId) throw new Error('User ID is required to fetch ingredients.');
 
@@ -88,11 +111,7 @@ export async function replaceUserIngredients(userId: string, ingredients: Ingred
 
   if (!ingredients.length) return [] as UserIngredientRecord[];
 
-  const records = ingredients.map((ingredient) => ({
-    user_id: userId,
-    ingredient_name: ingredient.name,
-    quantity: ingredient.quantity,
-  }));
+  const records = ingredients.map((ingredient) => toUserIngredientRecord(userId, ingredient));
 
   const data = await supabaseRequest<UserIngredientRecord[]>(
     '/user_ingredients',
@@ -106,14 +125,199 @@ export async function replaceUserIngredients(userId: string, ingredients: Ingred
 }
 
 export async function appendUserIngredient(userId: string, ingredient: Ingredient) {
-  const [row] = await supabaseRequest<UserIngredientRecord[]>(
-    '/user_ingredients',
+  const [row] = await upsertUserIngredients(userId, [ingredient]);
+  return row;
+}
+
+export async function upsertUserIngredients(userId: string, ingredients: Ingredient[]) {
+  if (!userId) throw new Error('User ID is required to update ingredients.');
+  if (!ingredients.length) return [] as UserIngredientRecord[];
+
+  const data = await supabaseRequest<UserIngredientRecord[]>(
+    '/user_ingredients?on_conflict=user_id,ingredient_name',
     {
       method: 'POST',
-      body: JSON.stringify([{ user_id: userId, ingredient_name: ingredient.name, quantity: ingredient.quantity }]),
-      prefer: 'resolution=merge-duplicates',
+      body: JSON.stringify(ingredients.map((ingredient) => toUserIngredientRecord(userId, ingredient))),
+      prefer: 'resolution=merge-duplicates,return=representation',
     },
   );
 
-  return row;
+  return data ?? [];
+}
+
+export async function deleteUserIngredients(userId: string, ingredientNames: string[], deletedAt: string) {
+  if (!userId) throw new Error('User ID is required to update ingredients.');
+  if (!ingredientNames.length) return;
+
+  const nameList = ingredientNames.map((name) => `"${name.replace(/"/g, '\\"')}"`).join(',');
+  await supabaseRequest(
+    `/user_ingredients?user_id=eq.${encodeFilter(userId)}&ingredient_name=in.(${encodeFilter(nameList)})`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify({ deleted_at: deletedAt, updated_at: deletedAt }),
+    },
+  );
+}
+
+export async function getUserCustomIngredients(userId: string): Promise<CustomIngredient[]> {
+  if (!userId) throw new Error('User ID is required to fetch custom ingredients.');
+
+  const data = await supabaseRequest<CustomIngredientRecord[]>(
+    `/user_custom_ingredients?user_id=eq.${encodeFilter(userId)}&order=created_at.asc`,
+  );
+
+  return (data ?? []).map((record) => ({
+    en: record.en_name,
+    ko: record.ko_name,
+    category: record.category,
+    emoji: record.emoji,
+    createdAt: record.created_at,
+  }));
+}
+
+export async function upsertUserCustomIngredients(userId: string, ingredients: CustomIngredient[]) {
+  if (!userId) throw new Error('User ID is required to save custom ingredients.');
+  if (!ingredients.length) return;
+
+  const records: CustomIngredientRecord[] = ingredients.map((ingredient) => ({
+    user_id: userId,
+    en_name: ingredient.en,
+    ko_name: ingredient.ko,
+    category: ingredient.category,
+    emoji: ingredient.emoji,
+    ...(ingredient.createdAt ? { created_at: ingredient.createdAt } : {}),
+  }));
+
+  await supabaseRequest('/user_custom_ingredients?on_conflict=user_id,en_name', {
+    method: 'POST',
+    body: JSON.stringify(records),
+    prefer: 'resolution=merge-duplicates',
+  });
+}
+
+export function toChatConversationRecord(userId: string, conversation: ChatConversation): ChatConversationRecord {
+  return {
+    id: conversation.id,
+    user_id: userId,
+    title: conversation.title ?? null,
+    recipe_name: conversation.recipeName ?? null,
+    recipe: conversation.recipe ?? null,
+    message_count: conversation.messageCount ?? conversation.messages.length,
+    created_at: conversation.createdAt,
+    updated_at: conversation.updatedAt,
+    deleted_at: null,
+  };
+}
+
+// Conversations are listed without their messages; those are fetched when the conversation is opened.
+export function fromChatConversationRecord(record: ChatConversationRecord): ChatConversation {
+  return {
+    id: record.id,
+    ...(record.title ? { title: record.title } : {}),
+    ...(record.recipe_name ? { recipeName: record.recipe_name } : {}),
+    ...(record.recipe ? { recipe: record.recipe } : {}),
+    messages: [],
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+    messagesLoaded: false,
+    messageCount: record.message_count,
+  };
+}
+
+export async function getChatConversations(userId: string) {
+  if (!userId) throw new Error('User ID is required to fetch conversations.');
+
+  const data = await supabaseRequest<ChatConversationRecord[]>(
+    `/chat_conversations?user_id=eq.${encodeFilter(userId)}&order=updated_at.desc`,
+  );
+
+  return data ?? [];
+}
+
+export async function getChatMessages(conversationId: string, messageCount: number): Promise<ChatMessage[]> {
+  const data = await supabaseRequest<ChatMessageRecord[]>(
+    `/chat_messages?conversation_id=eq.${encodeFilter(conversationId)}&position=lt.${messageCount}&order=position.asc`,
+  );
+
+  return (data ?? []).map((record) => ({
+    role: record.role,
+    parts: record.parts,
+    ...(record.tool_calls?.length ? { toolCalls: record.tool_calls } : {}),
+  }));
+}
+
+export async function upsertChatConversations(userId: string, conversations: ChatConversation[]) {
+  if (!userId) throw new Error('User ID is required to save conversations.');
+  if (!conversations.length) return;
+
+  await supabaseRequest('/chat_conversations?on_conflict=id', {
+    method: 'POST',
+    body: JSON.stringify(conversations.map((conversation) => toChatConversationRecord(userId, conversation))),
+    prefer: 'resolution=merge-duplicates',
+  });
+}
+
+export async function upsertChatMessages(userId: string, conversationId: string, messages: { position: number; message: ChatMessage }[]) {
+  if (!userId) throw new Error('User ID is required to save messages.');
+  if (!messages.length) return;
+
+  const records: ChatMessageRecord[] = messages.map(({ position, message }) => ({
+    conversation_id: conversationId,
+    user_id: userId,
+    position,
+    role: message.role,
+    parts: message.parts,
+    tool_calls: message.toolCalls ?? null,
+  }));
+
+  await supabaseRequest('/chat_messages?on_conflict=conversation_id,position', {
+    method: 'POST',
+    body: JSON.stringify(records),
+    prefer: 'resolution=merge-duplicates',
+  });
+}
+
+export async function deleteChatConversations(userId: string, conversationIds: string[], deletedAt: string) {
+  if (!userId) throw new Error('User ID is required to delete conversations.');
+  if (!conversationIds.length) return;
+
+  const idList = conversationIds.map((id) => `"${id}"`).join(',');
+  await supabaseRequest(
+    `/chat_conversations?user_id=eq.${encodeFilter(userId)}&id=in.(${encodeFilter(idList)})`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify({ deleted_at: deletedAt, updated_at: deletedAt, message_count: 0 }),
+    },
+  );
+  // The conversation row stays so other devices learn about the deletion; its messages can go
+  await supabaseRequest(`/chat_messages?conversation_id=in.(${encodeFilter(idList)})`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getUserMealPlan(userId: string): Promise<MealPlan | null> {
+  if (!userId) throw new Error('User ID is required to fetch the meal plan.');
+
+  const data = await supabaseRequest<MealPlanRecord[]>(
+    `/user_meal_plans?user_id=eq.${encodeFilter(userId)}`,
+  );
+
+  const record = data?.[0];
+  return record ? { days: record.days ?? {}, updatedAt: record.updated_at } : null;
+}
+
+export async function upsertUserMealPlan(userId: string, plan: MealPlan) {
+  if (!userId) throw new Error('User ID is required to save the meal plan.');
+
+  const record: MealPlanRecord = {
+    user_id: userId,
+    days: plan.days,
+    updated_at: plan.updatedAt ?? new Date().toISOString(),
+  };
+
+  await supabaseRequest('/user_meal_plans?on_conflict=user_id', {
+    method: 'POST',
+    body: JSON.stringify([record]),
+    prefer: 'resolution=merge-duplicates',
+  });
 }
@@ -1,4 +1,16 @@
 
+// How recipe quantities and temperatures are shown: metric (g, ml, °C), US customary (oz, cups, °F)
+// or Korean household measures (컵, 큰술, 작은술).
+export type UnitSystem = 'metric' | 'us' | 'korean';
+
+// Daily targets for the food diary. Calories in kcal, macros in grams.
+export interface NutritionGoals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
 export interface UserSettings {
   cookingLevel: 'Beginner' | 'Intermediate' | 'Advanced';
   allergies: string[];
@@ -7,10 +19,38 @@ export interface UserSettings {
   availableTools: string[];
   spicinessPreference: number;
   maxCookTime: number;
+  unitSystem: UnitSystem;
+  nutritionGoals: NutritionGoals;
+  useRemainingCalories: boolean; // Opt-in: recommendations fit what is left of today's calorie goal
   nickname: string;
   profileImage?: string;
 }
 
+export type HeatLevel = 'low' | 'medium-low' | 'medium' | 'medium-high' | 'high';
+
+// One step of a recipe's method, with what the app needs for timers and ingredient highlighting.
+export interface InstructionStep {
+  text: string;
+  durationMinutes?: number; // Time the step takes when it involves waiting (simmering, baking, resting)
+  heat?: HeatLevel; // Stovetop heat
+  temperatureCelsius?: number; // Oven, air fryer or frying oil temperature
+  ingredientIndices?: number[]; // Indices into Recipe.ingredients used in this step
+  tools?: string[];
+}
+
+// Recipes saved before steps were structured, and hand-written ones, keep plain strings.
+export type RecipeInstruction = string | InstructionStep;
+
+// Nutrients per serving, next to Recipe.calories. Sodium is in milligrams, everything else in grams.
+export interface NutritionFacts {
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+  sugar: number;
+}
+
 export interface Recipe {
   recipeName: string;
   englishRecipeName?: string;
@@ -19,17 +59,75 @@ export interface Recipe {
   difficulty: 'Easy' | 'Medium' | 'Hard';
   spiciness: number;
   calories: number;
+  nutrition?: NutritionFacts; // Estimated by the model with the details
   servings: number;
   ingredients: string[]; // Initially just names, later strings with quantities
   missingIngredients?: string[];
   substitutions?: { missing: string; substitute: string; }[];
-  instructions: string[]; // Empty initially
+  instructions: RecipeInstruction[]; // Empty initially
   cuisine: string;
   isDetailsLoaded?: boolean; // Flag to check if details are fetched
   imageSearchQuery?: string;
   imageUrl?: string;
+  allergenWarnings?: string[]; // User allergens still found in the detailed ingredients
+}
+
+// The parts of UserSettings that shape recipe generation.
+export type RecipeProfile = Pick<UserSettings, 'allergies' | 'dislikedIngredients' | 'availableTools' | 'cookingLevel' | 'spicinessPreference'> & {
+  unitSystem?: UnitSystem;
+  remainingCalories?: number; // Left of today's calorie goal, when the user opted in
+};
+
+// A generated recipe that was left out because it contained one of the user's allergens.
+export interface FilteredRecipe {
+  recipeName: string;
+  allergens: string[];
+}
+
+export interface RecipeRecommendationsResult {
+  recipes: Recipe[];
+  filtered: FilteredRecipe[];
 }
 
+// One line of the streamed recommendations response. Recipes arrive in index order; their images follow later.
+export type RecipeStreamEvent =
+  | { type: 'start'; total: number }
+  | { type: 'recipe'; index: number; recipe: Recipe }
+  | { type: 'image'; index: number; imageUrl: string | null }
+  | { type: 'filtered'; recipe: FilteredRecipe }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+// The recipes planned for one day; a slot without a recipe is still open.
+export type PlannedDay = { [slot in MealSlot]?: Recipe };
+
+// The weekly meal planner, keyed by local YYYY-MM-DD date.
+export interface MealPlan {
+  days: { [date: string]: PlannedDay };
+  updatedAt?: string; // ISO timestamp of the last edit, so edits from different devices resolve by last write
+}
+
+// One recipe placed in a slot of the meal plan, as returned by the `generateMealPlan` action.
+export interface PlannedMeal {
+  date: string; // Local YYYY-MM-DD
+  slot: MealSlot;
+  recipe: Recipe;
+}
+
+export interface MealPlanResult {
+  meals: PlannedMeal[];
+  filtered: FilteredRecipe[];
+}
+
+// One line of the streamed AI Chef response: pieces of the reply text, in order, and proposed actions.
+export type ChatStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'toolCall'; call: ChefToolCall }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
 export interface CommunityComment {
   id: string;
   authorEmail: string;
@@ -52,14 +150,117 @@ export interface CommunityPost {
   comments: CommunityComment[];
 }
 
+// A piece of a chat message: text, or a photo the user attached (stored as a small thumbnail).
+export type ChatMessagePart = { text: string } | { inlineData: InlineImage };
+
 export interface ChatMessage {
   role: 'user' | 'model';
-  parts: { text: string }[];
+  parts: ChatMessagePart[];
+  toolCalls?: ChefToolRequest[]; // Actions the AI Chef proposed in this reply
+}
+
+// One AI Chef conversation. Recipe conversations keep a copy of the recipe they are about.
+export interface ChatConversation {
+  id: string;
+  title?: string; // Generated by the AI after the first exchange, or set by the user
+  recipeName?: string;
+  recipe?: Recipe;
+  messages: ChatMessage[];
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp of the last message or rename
+  messagesLoaded?: boolean; // false for conversations synced from another device until they are opened
+  messageCount?: number; // Number of messages on the server, known before they are loaded
+}
+
+// An action the AI Chef asks the app to take. Names are ingredient names as the model wrote them.
+export type ChefToolCall =
+  | { name: 'addToShoppingList'; args: { items: string[] } }
+  | { name: 'addPantryIngredient'; args: { items: { name: string; amount?: number; unit?: string }[] } }
+  | { name: 'removePantryIngredient'; args: { names: string[] } }
+  | { name: 'saveRecipe'; args: { recipeName: string; description?: string; ingredients?: string[]; instructions?: string[]; cookTime?: number; servings?: number; calories?: number; cuisine?: string } }
+  | { name: 'suggestRecipes'; args: { priorityIngredients?: string[] } };
+
+// A proposed action and whether the user has confirmed it. Nothing happens until they do.
+export type ChefToolRequest = ChefToolCall & {
+  id: string;
+  status: 'pending' | 'confirmed' | 'dismissed';
+};
+
+export type UnitFamily = 'mass' | 'volume' | 'count';
+
+export type QuantityUnit =
+  | 'g' | 'kg' | 'oz' | 'lb'
+  | 'ml' | 'l' | 'tsp' | 'tbsp' | 'cup'
+  | 'piece' | 'pack' | 'bunch' | 'clove' | 'slice';
+
+export interface Quantity {
+  amount: number | null; // null when the user only has "some"
+  unit: QuantityUnit;
+  family: UnitFamily;
+  raw?: string; // Original free text, kept when migrating or when it couldn't be parsed
 }
 
 export interface Ingredient {
   name: string;
-  quantity: string;
+  quantity: Quantity;
+  purchasedAt?: string; // YYYY-MM-DD
+  expiresAt?: string; // YYYY-MM-DD, estimated from the category or entered by the user
+  updatedAt?: string; // ISO timestamp of the last change, used to resolve sync conflicts
+}
+
+// An ingredient the user added to their own catalog. `en` is its canonical name, like the keys of INGREDIENT_DATA.
+export interface CustomIngredient {
+  en: string;
+  ko: string;
+  category: string;
+  emoji: string;
+  createdAt?: string;
+}
+
+export interface CustomIngredientRecord {
+  user_id: string;
+  en_name: string;
+  ko_name: string;
+  category: string;
+  emoji: string;
+  created_at?: string;
+}
+
+// An image sent to the AI, base64-encoded without the data: URL prefix.
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+// One purchased item read from a receipt by the `analyzeReceipt` action.
+export interface ReceiptLineItem {
+  name: string; // English ingredient name as read by the model
+  quantity?: number;
+  unit?: string;
+  price?: number;
+  confidence: number; // 0 to 1
+  rawText: string; // The line as printed on the receipt
+  page?: number; // 0-based index of the photo the line was read from, for multi-page receipts
+}
+
+// One ingredient spotted in a fridge or pantry photo by the `analyzeFridgePhoto` action.
+export interface FridgeDetection {
+  name: string; // English ingredient name
+  quantity?: number;
+  unit?: string;
+  confidence: number; // 0 to 1
+  box?: [number, number, number, number]; // [ymin, xmin, ymax, xmax], scaled to 0-1000
+}
+
+export interface CookingHistoryEntry {
+  id: string;
+  recipeName: string;
+  cookedAt: string; // ISO timestamp
+  servings: number;
+  calories: number; // Per serving
+  nutrition?: NutritionFacts; // Per serving, when the recipe had it
+  servingsEaten?: number; // Food diary portion; entries logged before the diary count as one serving
+  usedIngredients: { name: string; quantity: Quantity }[];
 }
 
 export interface RecipeFilters {
@@ -72,6 +273,7 @@ export interface RecipeFilters {
 
 export interface ShoppingListItem {
   name: string; // The canonical English name
+  quantity?: Quantity; // How much a recipe called for, when added from one
 }
 
 export interface User {
@@ -94,8 +296,42 @@ export interface RecipeSearchCount {
   search_count: number;
 }
 
+export interface ChatConversationRecord {
+  id: string;
+  user_id: string;
+  title?: string | null;
+  recipe_name?: string | null;
+  recipe?: Recipe | null;
+  message_count: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null; // Soft delete, like user_ingredients
+}
+
+// One message of a conversation; `position` is its index, so a message can be updated in place
+// (e.g. when an AI Chef action is confirmed).
+export interface ChatMessageRecord {
+  conversation_id: string;
+  user_id: string;
+  position: number;
+  role: 'user' | 'model';
+  parts: ChatMessagePart[];
+  tool_calls?: ChefToolRequest[] | null;
+}
+
 export interface UserIngredientRecord {
   user_id: string;
   ingredient_name: string;
   quantity: string;
+  purchased_at?: string | null;
+  expires_at?: string | null;
+  updated_at?: string | null;
+  deleted_at?: string | null; // Soft delete, so other devices learn about removals
+}
+
+// A user's whole meal plan is one row, replaced on every edit.
+export interface MealPlanRecord {
+  user_id: string;
+  days: MealPlan['days'];
+  updated_at: string;
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { ALLERGEN_GROUPS } from '../data/allergens';
+import { INGREDIENT_DATA, findIngredientEnglishName, getIngredientSearchAliases, getIngredientTranslation } from '../data/ingredients';
+import { translations } from '../i18n';
+import { hasHangul, normalizeIngredientName } from './text';
+
+// The Onboarding allergy presets have their own translation keys
+const ALLERGEN_LABEL_KEYS: { [allergy: string]: keyof typeof translations.en } = {
+  'Egg': 'egg',
+  'Milk': 'milk',
+  'Nuts': 'nuts',
+  'Shellfish': 'shellfish',
+  'Wheat': 'wheat',
+  'Soy': 'soy',
+  'Fish': 'fish',
+};
+
+interface AllergenMatcher {
+  allergy: string;
+  terms: string[]; // Normalized names that reveal the allergen
+  safe: string[]; // Normalized look-alikes that are removed before matching
+}
+
+// Builds the names to look for for one of the user's allergies. An allergy is either one of the
+// Onboarding groups ("Soy"), an ingredient from the catalog in any language ("땅콩"), or free text.
+const createMatcher = (allergy: string): AllergenMatcher => {
+  const canonical = findIngredientEnglishName(allergy);
+  const group = ALLERGEN_GROUPS[allergy] ?? (canonical ? ALLERGEN_GROUPS[canonical] : undefined);
+  const ingredientNames = group ? group.ingredients : canonical ? [canonical] : [];
+  const names = [
+    allergy,
+    ...ingredientNames.flatMap(name => INGREDIENT_DATA[name] ? getIngredientSearchAliases(INGREDIENT_DATA[name]) : [name]),
+    ...(group?.derivatives ?? []),
+  ];
+  return {
+    allergy,
+    terms: Array.from(new Set(names.map(normalizeIngredientName).filter(Boolean))),
+    safe: (group?.safe ?? []).map(normalizeIngredientName),
+  };
+};
+
+// English names must match whole words ("egg" is not in "eggplant"); Korean names have no word
+// boundaries to rely on, so they match anywhere.
+const containsTerm = (text: string, term: string): boolean => {
+  if (hasHangul(term)) return text.replace(/\s/g, '').includes(term.replace(/\s/g, ''));
+  return ` ${text} `.includes(` ${term} `);
+};
+
+const matches = (matcher: AllergenMatcher, line: string): boolean => {
+  let text = normalizeIngredientName(line);
+  matcher.safe.forEach(safeName => {
+    text = text.split(safeName).join(' ');
+  });
+  return matcher.terms.some(term => containsTerm(text, term));
+};
+
+/**
+ * Finds which of the user's allergies appear in a recipe's ingredient list.
+ * Works on bare names ("Tofu") as well as lines with quantities ("2 tbsp 간장").
+ * @param ingredientLines The recipe's ingredients, in English or Korean.
+ * @param allergies The user's allergies, as stored in UserSettings.
+ * @returns The allergies that were found, as the user wrote them.
+ */
+export const findAllergensInIngredients = (ingredientLines: string[], allergies: string[]): string[] => {
+  return allergies
+    .filter(allergy => allergy.trim().length > 0)
+    .map(allergy => createMatcher(allergy.trim()))
+    .filter(matcher => ingredientLines.some(line => matches(matcher, line)))
+    .map(matcher => matcher.allergy);
+};
+
+/**
+ * Gets the name to show for one of the user's allergies. Presets use their translation;
+ * anything else is shown as an ingredient name.
+ * @param allergy The allergy as stored in UserSettings.
+ * @param language The display language.
+ */
+export const getAllergenLabel = (allergy: string, language: 'en' | 'ko'): string => {
+  const key = ALLERGEN_LABEL_KEYS[allergy];
+  return key ? translations[language][key] : getIngredientTranslation(allergy, language);
+};
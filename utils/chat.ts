@@ -0,0 +1,15 @@
+import { ChatMessage, InlineImage } from '../types';
+
+/**
+ * Joins the text parts of a chat message.
+ */
+export const getMessageText = (message: ChatMessage): string => {
+  return message.parts.map(part => 'text' in part ? part.text : '').join('');
+};
+
+/**
+ * Gets the photos attached to a chat message.
+ */
+export const getMessageImages = (message: ChatMessage): InlineImage[] => {
+  return message.parts.flatMap(part => 'inlineData' in part ? [part.inlineData] : []);
+};
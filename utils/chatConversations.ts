@@ -0,0 +1,102 @@
+import { ChatConversation, ChatMessage, Recipe } from '../types';
+import { getMessageText } from './chat';
+
+// Key of the single general thread in the chat histories saved before conversations had IDs.
+const LEGACY_GENERAL_KEY = '__general__';
+
+const TITLE_FALLBACK_LENGTH = 40;
+
+// IDs are UUIDs so they can be used as-is as the `chat_conversations` primary key.
+export const createConversationId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+};
+
+/**
+ * Creates a conversation record for the given messages.
+ * @param recipe The recipe the conversation is about, or null for a general conversation.
+ */
+export const createConversation = (id: string, messages: ChatMessage[], recipe: Recipe | null): ChatConversation => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    ...(recipe ? { recipeName: recipe.recipeName, recipe } : {}),
+    messages,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Upgrades saved chat histories. Older versions saved one message list per recipe name, plus
+ * one general thread under "__general__"; each becomes a conversation of its own.
+ */
+export const migrateChatConversations = (saved: unknown): ChatConversation[] => {
+  if (Array.isArray(saved)) return saved as ChatConversation[];
+  if (!saved || typeof saved !== 'object') return [];
+
+  const migratedAt = new Date().toISOString();
+  return Object.entries(saved as Record<string, ChatMessage[]>)
+    .filter(([, messages]) => Array.isArray(messages) && messages.length > 0)
+    .map(([key, messages]) => ({
+      id: createConversationId(),
+      ...(key !== LEGACY_GENERAL_KEY ? { recipeName: key } : {}),
+      messages,
+      createdAt: migratedAt,
+      updatedAt: migratedAt,
+    }));
+};
+
+/**
+ * Gets the title to show for a conversation. Until the AI has named it, that is the start of the
+ * first question, or the recipe name.
+ */
+export const getConversationTitle = (conversation: ChatConversation): string => {
+  if (conversation.title) return conversation.title;
+  const firstQuestion = conversation.messages.find(message => message.role === 'user');
+  const text = firstQuestion ? getMessageText(firstQuestion).trim() : '';
+  if (text) return text.length > TITLE_FALLBACK_LENGTH ? `${text.slice(0, TITLE_FALLBACK_LENGTH)}…` : text;
+  return conversation.recipeName ?? '';
+};
+
+/**
+ * Whether a conversation is ready to be named: it has no title yet and the AI has answered.
+ */
+export const needsGeneratedTitle = (conversation: ChatConversation): boolean => {
+  return !conversation.title
+    && conversation.messages.some(message => message.role === 'user')
+    && conversation.messages.some((message, index) => index > 0 && message.role === 'model' && getMessageText(message).trim().length > 0);
+};
+
+/**
+ * Finds conversations whose title, recipe or messages contain the query, most recent first.
+ */
+export const searchConversations = (conversations: ChatConversation[], query: string): ChatConversation[] => {
+  const normalizedQuery = query.trim().toLowerCase();
+  return conversations
+    .filter(conversation => {
+      if (!normalizedQuery) return true;
+      const haystack = [
+        getConversationTitle(conversation),
+        conversation.recipeName ?? '',
+        ...conversation.messages.map(getMessageText),
+      ].join('\n').toLowerCase();
+      return haystack.includes(normalizedQuery);
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * The most recently active conversation about a recipe, or among general conversations when
+ * `recipeName` is undefined.
+ */
+export const findLatestConversation = (conversations: ChatConversation[], recipeName?: string): ChatConversation | undefined => {
+  return conversations
+    .filter(conversation => conversation.recipeName === recipeName)
+    .reduce<ChatConversation | undefined>((latest, conversation) => (
+      !latest || conversation.updatedAt > latest.updatedAt ? conversation : latest
+    ), undefined);
+};
@@ -0,0 +1,90 @@
+import { ChefToolCall, Ingredient, Recipe, ShoppingListItem } from '../types';
+import { findIngredientEnglishName } from '../data/ingredients';
+import { createPantryIngredient, findExactPantryMatch, toISODate } from './pantry';
+import { UNSPECIFIED_QUANTITY, addQuantities, createQuantity, findUnit } from './quantity';
+
+type ChefToolArgs<Name extends ChefToolCall['name']> = Extract<ChefToolCall, { name: Name }>['args'];
+
+// The AI Chef writes ingredient names in its own words; the app stores catalog names where it can.
+const toCatalogName = (name: string): string => findIngredientEnglishName(name.trim()) ?? name.trim();
+
+/**
+ * Adds the AI Chef's proposed items to the shopping list, skipping ones already on it.
+ */
+export const addItemsToShoppingList = (shoppingList: ShoppingListItem[], items: string[]): ShoppingListItem[] => {
+  const names = new Set(shoppingList.map(item => item.name));
+  const result = [...shoppingList];
+  items.map(toCatalogName).filter(Boolean).forEach(name => {
+    if (names.has(name)) return;
+    names.add(name);
+    result.push({ name });
+  });
+  return result;
+};
+
+/**
+ * Adds ingredients to the pantry. Like scanned items, ingredients already in the pantry are
+ * restocked and keep their earlier expiry date.
+ */
+export const addItemsToPantry = (pantry: Ingredient[], items: ChefToolArgs<'addPantryIngredient'>['items']): Ingredient[] => {
+  const today = toISODate(new Date());
+  const result = [...pantry];
+
+  items.forEach(item => {
+    const name = toCatalogName(item.name ?? '');
+    if (!name) return;
+    const unit = item.unit ? findUnit(item.unit) : undefined;
+    const quantity = typeof item.amount === 'number' && item.amount > 0
+      ? createQuantity(item.amount, unit ?? 'piece')
+      : UNSPECIFIED_QUANTITY;
+    const index = result.findIndex(ing => ing.name === name);
+    if (index === -1) {
+      result.push(createPantryIngredient(name, quantity, today));
+      return;
+    }
+    const existing = result[index];
+    const restocked = createPantryIngredient(name, addQuantities(existing.quantity, quantity) ?? existing.quantity, today);
+    result[index] = { ...existing, ...restocked, expiresAt: existing.expiresAt ?? restocked.expiresAt };
+  });
+
+  return result;
+};
+
+/**
+ * Removes the named ingredients from the pantry. Only entries with exactly that ingredient are
+ * removed, since the user confirmed the name as shown; names that match nothing are ignored.
+ */
+export const removeItemsFromPantry = (pantry: Ingredient[], names: string[]): Ingredient[] => {
+  const removed = new Set(names.map(name => findExactPantryMatch(name, pantry)?.name).filter(Boolean));
+  return pantry.filter(ing => !removed.has(ing.name));
+};
+
+/**
+ * Builds the recipe the AI Chef asked to save. When it only names the recipe being discussed,
+ * that recipe is saved as is.
+ */
+export const createRecipeFromToolCall = (args: ChefToolArgs<'saveRecipe'>, recipeContext: Recipe | null): Recipe => {
+  if (recipeContext && (!args.ingredients?.length || args.recipeName === recipeContext.recipeName)) {
+    return recipeContext;
+  }
+  return {
+    recipeName: args.recipeName,
+    description: args.description ?? '',
+    cookTime: args.cookTime ?? 0,
+    difficulty: 'Medium',
+    spiciness: 0,
+    calories: args.calories ?? 0,
+    servings: args.servings ?? 1,
+    ingredients: args.ingredients ?? [],
+    instructions: args.instructions ?? [],
+    cuisine: args.cuisine ?? '',
+    isDetailsLoaded: true,
+  };
+};
+
+/**
+ * Resolves the ingredients the AI Chef wants recommendations to focus on to pantry names.
+ */
+export const findPriorityIngredients = (pantry: Ingredient[], names: string[] = []): string[] => {
+  return Array.from(new Set(names.map(name => findExactPantryMatch(name, pantry)?.name).filter((name): name is string => !!name)));
+};
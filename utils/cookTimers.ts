@@ -0,0 +1,98 @@
+// A duration mentioned in a recipe step, e.g. "simmer 15-20 minutes" or "30분간 재워".
+export interface DetectedDuration {
+  text: string; // As written in the step, used as the timer's label
+  seconds: number; // The lower end of a range, so the cook checks on the dish in time
+  maxSeconds?: number;
+}
+
+export interface CookTimer {
+  id: string;
+  label: string;
+  stepIndex: number;
+  durationSeconds: number;
+  endsAt: number | null; // null while paused
+  remainingSeconds: number; // Only meaningful while paused
+  isDone: boolean;
+}
+
+const UNIT_SECONDS: { [unit: string]: number } = {
+  hour: 3600, hours: 3600, hr: 3600, hrs: 3600, 시간: 3600,
+  minute: 60, minutes: 60, min: 60, mins: 60, 분: 60,
+  second: 1, seconds: 1, sec: 1, secs: 1, 초: 1,
+};
+
+const NUMBER = '\\d+(?:[.,]\\d+)?';
+const UNITS = 'hours?|hrs?|minutes?|mins?|seconds?|secs?|시간|분|초';
+const DURATION_PATTERN = new RegExp(`(${NUMBER})(?:\\s*(?:-|–|~|to)\\s*(${NUMBER}))?\\s*(${UNITS})(?![a-z])`, 'gi');
+
+const toNumber = (value: string) => parseFloat(value.replace(',', '.'));
+
+/**
+ * Finds the cooking durations in a step. "1 hour 30 minutes" and "1시간 30분" become a single
+ * 90 minute duration rather than two timers.
+ */
+export const detectDurations = (step: string): DetectedDuration[] => {
+  const matches = Array.from(step.matchAll(DURATION_PATTERN)).map(match => {
+    const unitSeconds = UNIT_SECONDS[match[3].toLowerCase()];
+    const seconds = Math.round(toNumber(match[1]) * unitSeconds);
+    const maxSeconds = match[2] ? Math.round(toNumber(match[2]) * unitSeconds) : undefined;
+    return { start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, unitSeconds, seconds, maxSeconds };
+  });
+
+  const durations: (DetectedDuration & { start: number; end: number; unitSeconds: number })[] = [];
+  for (const match of matches) {
+    const previous = durations[durations.length - 1];
+    const gap = previous ? step.slice(previous.end, match.start) : '';
+    const continuesPrevious = previous
+      && !previous.maxSeconds
+      && !match.maxSeconds
+      && previous.unitSeconds > match.unitSeconds
+      && /^\s*(?:and\s*)?$/i.test(gap);
+
+    if (continuesPrevious) {
+      previous.seconds += match.seconds;
+      previous.end = match.end;
+      previous.unitSeconds = match.unitSeconds;
+      previous.text = step.slice(previous.start, match.end);
+    } else {
+      durations.push({ ...match, text: step.slice(match.start, match.end) });
+    }
+  }
+
+  return durations
+    .filter(duration => duration.seconds > 0)
+    .map(({ text, seconds, maxSeconds }) => (maxSeconds && maxSeconds > seconds ? { text, seconds, maxSeconds } : { text, seconds }));
+};
+
+export const createCookTimer = (duration: DetectedDuration, stepIndex: number, now = Date.now()): CookTimer => ({
+  id: `${stepIndex}-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  label: duration.text,
+  stepIndex,
+  durationSeconds: duration.seconds,
+  endsAt: now + duration.seconds * 1000,
+  remainingSeconds: duration.seconds,
+  isDone: false,
+});
+
+export const getRemainingSeconds = (timer: CookTimer, now = Date.now()): number => {
+  if (timer.isDone) return 0;
+  if (timer.endsAt === null) return timer.remainingSeconds;
+  return Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+};
+
+export const pauseCookTimer = (timer: CookTimer, now = Date.now()): CookTimer => (
+  timer.endsAt === null ? timer : { ...timer, endsAt: null, remainingSeconds: getRemainingSeconds(timer, now) }
+);
+
+export const resumeCookTimer = (timer: CookTimer, now = Date.now()): CookTimer => (
+  timer.endsAt !== null ? timer : { ...timer, endsAt: now + timer.remainingSeconds * 1000 }
+);
+
+// 90 -> "1:30", 3725 -> "1:02:05"
+export const formatTimer = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
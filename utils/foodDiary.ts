@@ -0,0 +1,91 @@
+import { CookingHistoryEntry, NutritionFacts, NutritionGoals, Recipe } from '../types';
+import { computeRecipeNutrition } from './nutrition';
+import { getServingsBase } from './recipeScaling';
+import { addDays, toISODate } from './pantry';
+
+// Reference daily values for an adult (2,000 kcal diet)
+export const DEFAULT_NUTRITION_GOALS: NutritionGoals = { calories: 2000, protein: 50, carbs: 275, fat: 78 };
+
+export const DIARY_DAYS_PER_WEEK = 7;
+// Portions are logged in half servings
+export const SERVINGS_EATEN_STEP = 0.5;
+
+export interface DiaryDay {
+  date: string; // Local YYYY-MM-DD
+  totals: NutritionGoals;
+  entries: CookingHistoryEntry[];
+}
+
+const EMPTY_TOTALS: NutritionGoals = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+/**
+ * Macro goals for a calorie goal, split 20% protein, 50% carbs and 30% fat.
+ */
+export const suggestMacroGoals = (calories: number): NutritionGoals => ({
+  calories,
+  protein: Math.round(calories * 0.2 / 4),
+  carbs: Math.round(calories * 0.5 / 4),
+  fat: Math.round(calories * 0.3 / 9),
+});
+
+/**
+ * The per-serving nutrition to log for a cooked recipe: the model's estimate, or the values
+ * calculated from the ingredients when the recipe has none.
+ */
+export const getRecipeNutritionForDiary = (recipe: Recipe): NutritionFacts | undefined => {
+  if (recipe.nutrition) return recipe.nutrition;
+  const computed = computeRecipeNutrition(recipe.ingredients, getServingsBase(recipe));
+  if (computed.countedIngredients.length === 0) return undefined;
+  const { protein, carbs, fat, fiber, sodium, sugar } = computed.perServing;
+  return { protein, carbs, fat, fiber, sodium, sugar };
+};
+
+export const getServingsEaten = (entry: CookingHistoryEntry): number => entry.servingsEaten ?? 1;
+
+/**
+ * What the user ate from one diary entry.
+ */
+export const getEntryTotals = (entry: CookingHistoryEntry): NutritionGoals => {
+  const servings = getServingsEaten(entry);
+  return {
+    calories: (entry.calories || 0) * servings,
+    protein: (entry.nutrition?.protein ?? 0) * servings,
+    carbs: (entry.nutrition?.carbs ?? 0) * servings,
+    fat: (entry.nutrition?.fat ?? 0) * servings,
+  };
+};
+
+const sumTotals = (entries: CookingHistoryEntry[]): NutritionGoals => entries.reduce((acc, entry) => {
+  const totals = getEntryTotals(entry);
+  return {
+    calories: acc.calories + totals.calories,
+    protein: acc.protein + totals.protein,
+    carbs: acc.carbs + totals.carbs,
+    fat: acc.fat + totals.fat,
+  };
+}, EMPTY_TOTALS);
+
+/**
+ * The diary for one local day: the entries cooked that day and what they add up to.
+ */
+export const getDiaryDay = (history: CookingHistoryEntry[], date: string): DiaryDay => {
+  const entries = history.filter(entry => toISODate(new Date(entry.cookedAt)) === date);
+  return { date, totals: sumTotals(entries), entries };
+};
+
+/**
+ * The last seven days of the diary, oldest first, ending with `today`.
+ */
+export const getDiaryWeek = (history: CookingHistoryEntry[], today: Date = new Date()): DiaryDay[] => {
+  const end = toISODate(today);
+  return Array.from({ length: DIARY_DAYS_PER_WEEK }, (_, index) => (
+    getDiaryDay(history, addDays(end, index - (DIARY_DAYS_PER_WEEK - 1)))
+  ));
+};
+
+/**
+ * Calories left of today's goal. Negative when the goal has been exceeded.
+ */
+export const getRemainingCalories = (history: CookingHistoryEntry[], goals: NutritionGoals, today: Date = new Date()): number => {
+  return Math.round(goals.calories - getDiaryDay(history, toISODate(today)).totals.calories);
+};
@@ -0,0 +1,149 @@
+import { InlineImage } from '../types';
+
+// Long edge of uploaded photos. Receipts stay readable at this size.
+const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.8;
+
+// Total base64 size of the photos sent in one request, kept under the edge function's 4.5MB body limit
+const MAX_UPLOAD_SIZE = 3.5 * 1024 * 1024;
+// Tried in order when several photos don't fit together at full size
+const UPLOAD_COMPRESSION_STEPS = [
+  { dimension: 1400, quality: 0.7 },
+  { dimension: 1200, quality: 0.65 },
+  { dimension: 1000, quality: 0.6 },
+  { dimension: 800, quality: 0.55 },
+];
+
+export interface PreparedImage extends InlineImage {
+  previewUrl: string; // data: URL for showing the image in the app
+}
+
+const EXTENSION_MIME_TYPES: { [extension: string]: string } = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+/**
+ * Works out a file's MIME type, falling back to its extension when the browser leaves
+ * `file.type` empty (common for HEIC photos).
+ */
+export const getImageMimeType = (file: File): string => {
+  if (file.type) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_MIME_TYPES[extension] ?? 'image/jpeg';
+};
+
+const readAsDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = error => reject(error);
+  });
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode image'));
+    image.src = src;
+  });
+};
+
+// Draws the image at most `maxDimension` pixels on its long edge and returns it as a JPEG data: URL.
+const toScaledJpeg = (image: HTMLImageElement, maxDimension: number, quality: number): string => {
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+
+  // JPEG has no transparency, so give transparent PNGs/WebPs a white background
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+const toInlineImage = (dataUrl: string, mimeType: string = 'image/jpeg'): InlineImage => ({
+  data: dataUrl.split(',')[1],
+  mimeType,
+});
+
+/**
+ * Downscales and re-encodes a photo as JPEG before it is sent to the AI.
+ * Formats the browser can't decode (e.g. HEIC outside Safari) are sent as they are, with their own MIME type.
+ */
+export const prepareImageForUpload = async (file: File): Promise<PreparedImage> => {
+  const originalUrl = await readAsDataUrl(file);
+  const mimeType = getImageMimeType(file);
+
+  try {
+    const image = await loadImage(originalUrl);
+    const previewUrl = toScaledJpeg(image, MAX_IMAGE_DIMENSION, JPEG_QUALITY);
+    return { ...toInlineImage(previewUrl), previewUrl };
+  } catch (error) {
+    console.warn('Sending image without downscaling:', error);
+    return { ...toInlineImage(originalUrl, mimeType), previewUrl: originalUrl };
+  }
+};
+
+const getUploadSize = (images: InlineImage[]) => images.reduce((size, image) => size + image.data.length, 0);
+
+/**
+ * Fits prepared photos into one request, lowering the resolution and quality of every photo
+ * step by step as their number grows. Photos that can't be decoded are sent as they are.
+ * @throws When the photos are still too large at the smallest size.
+ */
+export const fitImagesForUpload = async (images: PreparedImage[]): Promise<InlineImage[]> => {
+  let fitted: InlineImage[] = images.map(({ data, mimeType }) => ({ data, mimeType }));
+  for (const { dimension, quality } of UPLOAD_COMPRESSION_STEPS) {
+    if (getUploadSize(fitted) <= MAX_UPLOAD_SIZE) return fitted;
+    fitted = [];
+    // One at a time, to keep memory use low on phones
+    for (const image of images) {
+      try {
+        fitted.push(toInlineImage(toScaledJpeg(await loadImage(image.previewUrl), dimension, quality)));
+      } catch {
+        fitted.push({ data: image.data, mimeType: image.mimeType });
+      }
+    }
+  }
+  if (getUploadSize(fitted) > MAX_UPLOAD_SIZE) throw new Error('The photos are too large to upload');
+  return fitted;
+};
+
+// Chat photos are sent at a size the AI can still judge doneness or texture from. The copy kept in
+// the chat history is a small thumbnail, so long conversations fit in localStorage.
+const CHAT_IMAGE_DIMENSION = 1024;
+const CHAT_THUMBNAIL_DIMENSION = 320;
+const CHAT_THUMBNAIL_QUALITY = 0.6;
+
+export interface ChatImageAttachment {
+  image: InlineImage; // Sent with the message
+  thumbnail: InlineImage; // Stored in the chat history and sent with later messages
+}
+
+/**
+ * Prepares a photo attached in the AI Chef chat.
+ * @throws When the browser can't decode the photo, since it couldn't be shown in the chat either.
+ */
+export const prepareChatImage = async (file: File): Promise<ChatImageAttachment> => {
+  const image = await loadImage(await readAsDataUrl(file));
+  return {
+    image: toInlineImage(toScaledJpeg(image, CHAT_IMAGE_DIMENSION, JPEG_QUALITY)),
+    thumbnail: toInlineImage(toScaledJpeg(image, CHAT_THUMBNAIL_DIMENSION, CHAT_THUMBNAIL_QUALITY)),
+  };
+};
+
+/**
+ * Turns an inline image back into a data: URL for an <img> tag.
+ */
+export const toImageDataUrl = (image: InlineImage): string => `data:${image.mimeType};base64,${image.data}`;
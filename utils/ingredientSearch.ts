@@ -0,0 +1,86 @@
+import { IngredientInfo, getAllIngredients, getIngredientSearchAliases } from '../data/ingredients';
+import { decomposeHangul, editDistance, getChoseong, hasHangul, isChoseongOnly, normalizeIngredientName } from './text';
+
+export interface IngredientSearchOptions {
+  exclude?: Iterable<string>; // Canonical English names to leave out, e.g. what is already in the pantry
+  limit?: number;
+}
+
+// Matches on a synonym rank just below the same kind of match on the ingredient's own name.
+const SYNONYM_PENALTY = 5;
+
+// Shortest query (in letters, or jamo for Korean) that is compared with typo tolerance.
+const MIN_FUZZY_LENGTH = 4;
+
+// One typo is tolerated per this many letters, up to two. Korean is compared as jamo, which are
+// denser, so it needs a longer query per typo.
+const LETTERS_PER_TYPO = 4;
+const JAMO_PER_TYPO = 5;
+
+const scoreFuzzy = (query: string, name: string, lettersPerTypo: number): number => {
+  if (query.length < MIN_FUZZY_LENGTH) return 0;
+  const allowed = Math.min(2, Math.floor(query.length / lettersPerTypo));
+  const distance = editDistance(query, name);
+  if (distance <= allowed) return 50 - distance * 10;
+  // Also forgive a typo in a name that is only partly typed, e.g. "brocol" → "broccoli"
+  const prefixDistance = Math.min(
+    ...[-1, 0, 1].map(extra => editDistance(query, name.slice(0, query.length + extra)))
+  );
+  if (prefixDistance <= allowed) return 40 - prefixDistance * 10;
+  return 0;
+};
+
+// Scores how well a normalized query matches one normalized name, from 0 (no match) to 100 (exact).
+const scoreName = (query: string, name: string): number => {
+  if (name === query) return 100;
+  if (name.startsWith(query)) return 90;
+  if (name.split(' ').some(word => word.startsWith(query))) return 80;
+  if (name.includes(query)) return 70;
+
+  const compactQuery = query.replace(/\s/g, '');
+  const compactName = name.replace(/\s/g, '');
+  if (isChoseongOnly(compactQuery)) {
+    const choseong = getChoseong(compactName);
+    if (choseong.startsWith(compactQuery)) return 65;
+    return choseong.includes(compactQuery) ? 55 : 0;
+  }
+  if (hasHangul(compactQuery)) {
+    // Compare jamo so a half-typed syllable ("양ㅍ") still matches "양파"
+    const jamoQuery = decomposeHangul(compactQuery);
+    const jamoName = decomposeHangul(compactName);
+    if (jamoName.startsWith(jamoQuery)) return 75;
+    if (jamoName.includes(jamoQuery)) return 60;
+    return scoreFuzzy(jamoQuery, jamoName, JAMO_PER_TYPO);
+  }
+  return scoreFuzzy(compactQuery, compactName, LETTERS_PER_TYPO);
+};
+
+/**
+ * Searches the ingredient catalog (built-in and custom) by English or Korean name or synonym.
+ * Tolerates typos and plurals, and matches Korean initial consonants ("ㅇㅍ" → 양파).
+ * @param query What the user typed.
+ * @param options Names to exclude and the maximum number of results (20 by default).
+ * @returns Matching ingredients, best match first.
+ */
+export const searchIngredients = (query: string, options: IngredientSearchOptions = {}): IngredientInfo[] => {
+  const { limit = 20 } = options;
+  const normalizedQuery = normalizeIngredientName(query);
+  if (!normalizedQuery) return [];
+  const excluded = new Set(options.exclude ?? []);
+
+  return getAllIngredients()
+    .filter(ingredient => !excluded.has(ingredient.en))
+    .map(ingredient => {
+      // The first two aliases are the ingredient's own English and Korean names
+      const score = getIngredientSearchAliases(ingredient).reduce((best, alias, index) => {
+        const aliasScore = scoreName(normalizedQuery, normalizeIngredientName(alias));
+        if (!aliasScore) return best;
+        return Math.max(best, index < 2 ? aliasScore : aliasScore - SYNONYM_PENALTY);
+      }, 0);
+      return { ingredient, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.ingredient.en.length - b.ingredient.en.length)
+    .slice(0, limit)
+    .map(result => result.ingredient);
+};
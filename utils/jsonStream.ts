@@ -0,0 +1,50 @@
+/**
+ * Parses a JSON array that arrives in pieces (e.g. a streamed model response) and hands back
+ * each top-level object as soon as its closing brace has arrived.
+ * @returns A parser whose `push` takes the next piece of text and returns the objects it completed.
+ */
+export const createJsonArrayParser = <T = unknown>() => {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  const push = (text: string): T[] => {
+    buffer += text;
+    const items: T[] = [];
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        // Depth 1 is inside the outer array, where each object is one item
+        if (depth === 1 && char === '{') itemStart = position;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 1 && itemStart >= 0) {
+          items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+          itemStart = -1;
+        }
+      }
+    }
+
+    // Keep only the unfinished item, if any
+    const keepFrom = itemStart >= 0 ? itemStart : buffer.length;
+    buffer = buffer.slice(keepFrom);
+    position -= keepFrom;
+    if (itemStart >= 0) itemStart = 0;
+    return items;
+  };
+
+  return { push };
+};
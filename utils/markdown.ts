@@ -0,0 +1,214 @@
+import { findIngredientEnglishName } from '../data/ingredients';
+import { parseIngredientLine } from './quantity';
+
+// A small Markdown parser for AI Chef replies. It only produces plain data that the chat renders
+// with React elements, so model output can never inject HTML.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+// Lists under an ingredients heading (or that read like one) can be checked off and added to the
+// shopping list; numbered lists and lists under a steps heading are cooking steps.
+export type MarkdownListKind = 'plain' | 'ingredients' | 'steps';
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'list'; ordered: boolean; kind: MarkdownListKind; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const LIST_ITEM = /^\s*([-*+•]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const INGREDIENTS_LABEL = /ingredient|shopping|재료|준비물|장보기/i;
+const STEPS_LABEL = /step|instruction|method|direction|how to|방법|순서|조리|만드는/i;
+
+const splitTableRow = (line: string): string[] => {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+};
+
+/**
+ * Removes inline Markdown markers, e.g. "**Onion**: 1" → "Onion: 1".
+ */
+export const stripInlineMarkdown = (text: string): string => {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|`)/g, '')
+    .trim();
+};
+
+/**
+ * Works out which ingredient a list item such as "200g Pork Belly, sliced" or "**Onion** - 1/2" is about.
+ * @returns The canonical English name when the ingredient is in the catalog, otherwise the item's name.
+ */
+export const getListItemIngredientName = (item: string): string => {
+  const { name } = parseIngredientLine(stripInlineMarkdown(item));
+  const mainName = name.split(/[:,\-–—]/).map(part => part.trim()).find(Boolean) ?? name;
+  return findIngredientEnglishName(mainName) ?? mainName;
+};
+
+const looksLikeIngredientList = (items: string[]): boolean => {
+  const ingredientLike = items.filter(item => {
+    const plain = stripInlineMarkdown(item);
+    return parseIngredientLine(plain).quantity.amount !== null
+      || !!findIngredientEnglishName(getListItemIngredientName(plain));
+  });
+  return items.length >= 2 && ingredientLike.length * 2 >= items.length;
+};
+
+const classifyList = (ordered: boolean, items: string[], label: string): MarkdownListKind => {
+  if (INGREDIENTS_LABEL.test(label)) return 'ingredients';
+  if (STEPS_LABEL.test(label)) return 'steps';
+  if (ordered) return items.length >= 2 ? 'steps' : 'plain';
+  return looksLikeIngredientList(items) ? 'ingredients' : 'plain';
+};
+
+/**
+ * Splits Markdown text into blocks: headings, paragraphs, lists, tables, code blocks and rules.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  // The heading or one-line paragraph ("**Ingredients:**") right before a list tells what it is
+  let label = '';
+  let i = 0;
+
+  const isTableStart = (index: number) => lines[index].includes('|') && index + 1 < lines.length && TABLE_SEPARATOR.test(lines[index + 1]);
+  const startsBlock = (index: number) => {
+    const text = lines[index];
+    return text.trim().startsWith('```') || /^\s*#{1,6}\s/.test(text) || RULE.test(text) || LIST_ITEM.test(text) || isTableStart(index);
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (line.trim().startsWith('```')) {
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+      blocks.push({ type: 'code', text: codeLines.join('\n') });
+      label = '';
+      continue;
+    }
+
+    const heading = line.match(/^\s*(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].replace(/#+\s*$/, '').trim() });
+      label = heading[2];
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(i)) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      label = '';
+      continue;
+    }
+
+    const firstItem = line.match(LIST_ITEM);
+    if (firstItem) {
+      const ordered = /\d/.test(firstItem[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item && /\d/.test(item[1]) === ordered) {
+          items.push(item[2].trim());
+          i++;
+        } else if (lines[i].trim() && !item && /^\s+/.test(lines[i]) && items.length > 0) {
+          // An indented line continues the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+          i++;
+        } else if (!lines[i].trim()) {
+          // Models often put blank lines between items; the list goes on if another item follows
+          let next = i + 1;
+          while (next < lines.length && !lines[next].trim()) next++;
+          const nextItem = next < lines.length ? lines[next].match(LIST_ITEM) : null;
+          if (!nextItem || /\d/.test(nextItem[1]) !== ordered) break;
+          i = next;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered, kind: classifyList(ordered, items, label), items });
+      label = '';
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+    label = paragraph.length === 1 && paragraph[0].length <= 60 ? paragraph[0] : '';
+  }
+
+  return blocks;
+};
+
+// Links are only kept when they point to a web page, so "javascript:" URLs never reach an href.
+const isSafeHref = (href: string) => /^https?:\/\//i.test(href.trim());
+
+/**
+ * Parses bold, italic, inline code and links within one line of text.
+ */
+export const parseInlineMarkdown = (text: string): MarkdownInline[] => {
+  const result: MarkdownInline[] = [];
+  const pattern = /(`[^`]+`)|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))/;
+  let rest = text;
+
+  while (rest) {
+    const match = rest.match(pattern);
+    if (!match || match.index === undefined) {
+      result.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) result.push({ type: 'text', text: rest.slice(0, match.index) });
+
+    const token = match[0];
+    if (match[1]) {
+      result.push({ type: 'code', text: token.slice(1, -1) });
+    } else if (match[2]) {
+      result.push({ type: 'strong', children: parseInlineMarkdown(token.slice(2, -2)) });
+    } else if (match[3]) {
+      result.push({ type: 'em', children: parseInlineMarkdown(token.slice(1, -1)) });
+    } else {
+      const link = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/)!;
+      const children = parseInlineMarkdown(link[1]);
+      if (isSafeHref(link[2])) result.push({ type: 'link', href: link[2].trim(), children });
+      else result.push(...children);
+    }
+    rest = rest.slice(match.index + token.length);
+  }
+
+  return result;
+};
@@ -0,0 +1,101 @@
+import { MealPlan, MealSlot, PlannedDay, PlannedMeal, Recipe } from '../types';
+import { addDays, toISODate } from './pantry';
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+export const MEAL_PLAN_DAYS = 7;
+// Past days are kept for a while, so last week's plan can still be looked back on
+const KEPT_PAST_DAYS = 14;
+
+export const EMPTY_MEAL_PLAN: MealPlan = { days: {} };
+
+export interface MealSlotRef {
+  date: string; // Local YYYY-MM-DD
+  slot: MealSlot;
+}
+
+/**
+ * The dates of the week shown by the planner, starting with `startDate`.
+ */
+export const getPlanDates = (startDate: string): string[] => (
+  Array.from({ length: MEAL_PLAN_DAYS }, (_, index) => addDays(startDate, index))
+);
+
+export const getPlannedRecipe = (plan: MealPlan, { date, slot }: MealSlotRef): Recipe | undefined => plan.days[date]?.[slot];
+
+export const isSameSlot = (a: MealSlotRef, b: MealSlotRef) => a.date === b.date && a.slot === b.slot;
+
+// Drops empty and long-past days and stamps the edit
+const withDays = (days: MealPlan['days'], now: Date): MealPlan => {
+  const oldest = addDays(toISODate(now), -KEPT_PAST_DAYS);
+  const kept = Object.fromEntries(
+    Object.entries(days).filter(([date, day]) => date >= oldest && MEAL_SLOTS.some(slot => day[slot]))
+  );
+  return { days: kept, updatedAt: now.toISOString() };
+};
+
+/**
+ * Puts a recipe in a slot, replacing whatever was planned there. `null` clears the slot.
+ */
+export const setPlannedRecipe = (plan: MealPlan, { date, slot }: MealSlotRef, recipe: Recipe | null, now: Date = new Date()): MealPlan => {
+  const day: PlannedDay = { ...plan.days[date] };
+  if (recipe) {
+    day[slot] = recipe;
+  } else {
+    delete day[slot];
+  }
+  return withDays({ ...plan.days, [date]: day }, now);
+};
+
+/**
+ * Moves a planned recipe to another slot. A recipe already in that slot swaps places with it.
+ */
+export const movePlannedRecipe = (plan: MealPlan, from: MealSlotRef, to: MealSlotRef, now: Date = new Date()): MealPlan => {
+  const moving = getPlannedRecipe(plan, from);
+  if (!moving || isSameSlot(from, to)) return plan;
+  const displaced = getPlannedRecipe(plan, to);
+
+  const days = { ...plan.days };
+  days[from.date] = { ...days[from.date], [from.slot]: displaced };
+  days[to.date] = { ...days[to.date], [to.slot]: moving };
+  if (!displaced) delete days[from.date][from.slot];
+  return withDays(days, now);
+};
+
+/**
+ * The slots of `dates` that have no recipe yet.
+ */
+export const getOpenSlots = (plan: MealPlan, dates: string[]): MealSlotRef[] => (
+  dates.flatMap(date => MEAL_SLOTS.filter(slot => !plan.days[date]?.[slot]).map(slot => ({ date, slot })))
+);
+
+/**
+ * The recipes planned on `dates`, in calendar order.
+ */
+export const getPlannedMeals = (plan: MealPlan, dates: string[]): PlannedMeal[] => (
+  dates.flatMap(date => MEAL_SLOTS.flatMap(slot => {
+    const recipe = plan.days[date]?.[slot];
+    return recipe ? [{ date, slot, recipe }] : [];
+  }))
+);
+
+/**
+ * Adds generated meals to the plan. Only open slots are filled, so recipes the user placed
+ * by hand stay where they are.
+ */
+export const fillOpenSlots = (plan: MealPlan, meals: PlannedMeal[], now: Date = new Date()): MealPlan => {
+  const days = { ...plan.days };
+  meals.forEach(({ date, slot, recipe }) => {
+    if (days[date]?.[slot]) return;
+    days[date] = { ...days[date], [slot]: recipe };
+  });
+  return withDays(days, now);
+};
+
+export const migrateMealPlan = (saved: unknown): MealPlan => {
+  if (!saved || typeof saved !== 'object' || !('days' in saved)) return EMPTY_MEAL_PLAN;
+  const { days, updatedAt } = saved as MealPlan;
+  if (!days || typeof days !== 'object') return EMPTY_MEAL_PLAN;
+  return updatedAt ? { days, updatedAt } : { days };
+};
+
+export const hasPlannedMeals = (plan: MealPlan): boolean => Object.keys(plan.days).length > 0;
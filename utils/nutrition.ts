@@ -0,0 +1,152 @@
+import { NutritionFacts, Quantity } from '../types';
+import { INGREDIENT_DATA, findIngredientEnglishName, getIngredientAliases } from '../data/ingredients';
+import { NUTRIENT_DATA, NutrientProfile } from '../data/nutrition';
+import { UNIT_DATA, parseIngredientLine } from './quantity';
+import { hasHangul, normalizeIngredientName } from './text';
+
+export type Nutrient = 'calories' | keyof NutritionFacts;
+
+export const NUTRIENTS: Nutrient[] = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+export type NutritionEstimate = { [key in Nutrient]: number };
+
+export interface ComputedNutrition {
+  perServing: NutritionEstimate;
+  countedIngredients: string[]; // Lines that were found in the nutrient table with a usable amount
+  skippedIngredients: string[];
+}
+
+// Differences smaller than these never count as a disagreement, however large in relative terms
+const MISMATCH_FLOORS: NutritionEstimate = {
+  calories: 150,
+  protein: 10,
+  carbs: 15,
+  fat: 10,
+  fiber: 4,
+  sugar: 10,
+  sodium: 500,
+};
+const MISMATCH_RATIO = 0.5;
+// Below this share of counted ingredients the computed totals are too partial to compare
+const MIN_COVERAGE = 0.5;
+
+// Names to look for inside an ingredient line, longest first so "Green Onion" wins over "Onion"
+let nutrientAliases: { term: string; name: string }[] | null = null;
+const getNutrientAliases = () => {
+  if (!nutrientAliases) {
+    nutrientAliases = Object.keys(NUTRIENT_DATA)
+      .filter(name => INGREDIENT_DATA[name])
+      .flatMap(name => getIngredientAliases(INGREDIENT_DATA[name]).map(alias => ({ term: normalizeIngredientName(alias), name })))
+      .filter(alias => alias.term)
+      .sort((a, b) => b.term.length - a.term.length);
+  }
+  return nutrientAliases;
+};
+
+// English names must match whole words; Korean names of two or more letters can match anywhere
+// ("다진마늘"), while single letters such as "파" or "김" would match far too much.
+const containsTerm = (text: string, term: string): boolean => {
+  if (hasHangul(term) && term.replace(/\s/g, '').length > 1) {
+    return text.replace(/\s/g, '').includes(term.replace(/\s/g, ''));
+  }
+  return ` ${text} `.includes(` ${term} `);
+};
+
+/**
+ * Finds the nutrient table entry for an ingredient name as written in a recipe,
+ * e.g. "Pork Belly, thinly sliced" or "다진 마늘".
+ * @returns The canonical English name, or undefined when the table has no match.
+ */
+export const findNutrientIngredient = (name: string): string | undefined => {
+  const exact = findIngredientEnglishName(name);
+  if (exact && NUTRIENT_DATA[exact]) return exact;
+  const text = normalizeIngredientName(name);
+  return getNutrientAliases().find(alias => containsTerm(text, alias.term))?.name;
+};
+
+/**
+ * The weight of a quantity of an ingredient, using its density for volumes and its usual
+ * piece weight for counts.
+ * @returns Grams, or null when a count can't be weighed.
+ */
+export const getQuantityGrams = (quantity: Quantity, profile: NutrientProfile): number | null => {
+  if (quantity.amount === null) return null;
+  const size = UNIT_DATA[quantity.unit].toBase;
+  switch (quantity.family) {
+    case 'mass':
+      return quantity.amount * size;
+    case 'volume':
+      return quantity.amount * size * (profile.density ?? 1);
+    case 'count':
+      return profile.gramsPerPiece ? quantity.amount * profile.gramsPerPiece : null;
+  }
+};
+
+/**
+ * Adds up the nutrients of a recipe's quantified ingredients from the local nutrient table.
+ * Ingredients that aren't in the table or have no usable amount ("Salt to taste") are skipped.
+ * @param ingredientLines The recipe's ingredients with quantities, for all servings.
+ * @param servings How many servings the lines make.
+ */
+export const computeRecipeNutrition = (ingredientLines: string[], servings: number): ComputedNutrition => {
+  const totals = NUTRIENTS.reduce((acc, nutrient) => ({ ...acc, [nutrient]: 0 }), {} as NutritionEstimate);
+  const countedIngredients: string[] = [];
+  const skippedIngredients: string[] = [];
+
+  ingredientLines.forEach(line => {
+    const { name, quantity } = parseIngredientLine(line);
+    const ingredient = findNutrientIngredient(name);
+    const profile = ingredient ? NUTRIENT_DATA[ingredient] : undefined;
+    const grams = profile ? getQuantityGrams(quantity, profile) : null;
+    if (!profile || grams === null) {
+      skippedIngredients.push(line);
+      return;
+    }
+    NUTRIENTS.forEach(nutrient => {
+      totals[nutrient] += profile[nutrient] * grams / 100;
+    });
+    countedIngredients.push(line);
+  });
+
+  const divisor = servings > 0 ? servings : 1;
+  const perServing = NUTRIENTS.reduce((acc, nutrient) => ({
+    ...acc,
+    [nutrient]: nutrient === 'calories' || nutrient === 'sodium'
+      ? Math.round(totals[nutrient] / divisor)
+      : Math.round(totals[nutrient] / divisor * 10) / 10,
+  }), {} as NutritionEstimate);
+
+  return { perServing, countedIngredients, skippedIngredients };
+};
+
+/**
+ * The nutrients where the model's estimate and the computed value disagree widely: by more than
+ * half of the larger value and by more than a nutrient-specific floor.
+ * Nothing is compared when too few ingredients could be counted.
+ */
+export const findNutritionMismatches = (estimate: Partial<NutritionEstimate>, computed: ComputedNutrition): Nutrient[] => {
+  const total = computed.countedIngredients.length + computed.skippedIngredients.length;
+  if (total === 0 || computed.countedIngredients.length / total < MIN_COVERAGE) return [];
+
+  return NUTRIENTS.filter(nutrient => {
+    const estimated = estimate[nutrient];
+    if (estimated === undefined || estimated <= 0) return false;
+    const calculated = computed.perServing[nutrient];
+    const difference = Math.abs(estimated - calculated);
+    return difference > MISMATCH_FLOORS[nutrient] && difference > Math.max(estimated, calculated) * MISMATCH_RATIO;
+  });
+};
+
+/**
+ * Cleans up the nutrition returned by the model.
+ * @returns The facts, or undefined when any of them is missing or not a sensible number.
+ */
+export const sanitizeNutrition = (value: unknown): NutritionFacts | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const facts = value as { [key: string]: unknown };
+  const keys: (keyof NutritionFacts)[] = ['protein', 'carbs', 'fat', 'fiber', 'sodium', 'sugar'];
+  if (!keys.every(key => typeof facts[key] === 'number' && Number.isFinite(facts[key]) && (facts[key] as number) >= 0)) {
+    return undefined;
+  }
+  return keys.reduce((acc, key) => ({ ...acc, [key]: Math.round((facts[key] as number) * 10) / 10 }), {} as NutritionFacts);
+};
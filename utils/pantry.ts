@@ -0,0 +1,201 @@
+import { Ingredient, Quantity } from '../types';
+import { findIngredientEnglishName, getDefaultShelfLifeDays } from '../data/ingredients';
+import { DEFAULT_QUANTITY, normalizeQuantity, parseIngredientLine, subtractQuantity } from './quantity';
+import { normalizeIngredientName } from './text';
+
+// Items expiring within this many days are treated as "use it soon".
+export const EXPIRING_SOON_DAYS = 3;
+
+export type ExpiryUrgency = 'expired' | 'today' | 'soon' | 'fresh' | 'unknown';
+
+const URGENCY_ORDER: Record<ExpiryUrgency, number> = {
+  expired: 0,
+  today: 1,
+  soon: 2,
+  fresh: 3,
+  unknown: 4,
+};
+
+// A proposed change to one pantry entry after cooking a recipe.
+export interface PantryDeduction {
+  ingredientName: string; // The pantry entry's name
+  recipeLine: string; // The recipe ingredient line it was matched to
+  used: Quantity;
+  remaining: Quantity; // An amount of 0 removes the entry
+  selected: boolean;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Formats a date as a local YYYY-MM-DD string (the format used by `<input type="date">`).
+ */
+export const toISODate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const parseISODate = (isoDate: string): Date | null => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Adds a number of days to a YYYY-MM-DD date string.
+ */
+export const addDays = (isoDate: string, days: number): string => {
+  const date = parseISODate(isoDate) ?? new Date();
+  date.setDate(date.getDate() + days);
+  return toISODate(date);
+};
+
+/**
+ * Estimates an expiry date from the purchase date and the ingredient's default shelf life.
+ */
+export const estimateExpiryDate = (englishName: string, purchasedAt: string): string => {
+  return addDays(purchasedAt, getDefaultShelfLifeDays(englishName));
+};
+
+/**
+ * Creates a pantry entry bought today, with an estimated expiry date.
+ */
+export const createPantryIngredient = (name: string, quantity: Quantity = DEFAULT_QUANTITY, purchasedAt: string = toISODate(new Date())): Ingredient => ({
+  name,
+  quantity,
+  purchasedAt,
+  expiresAt: estimateExpiryDate(name, purchasedAt),
+});
+
+/**
+ * Gets the number of whole days until an ingredient expires.
+ * @returns Negative when already expired, or null when the expiry date is unknown.
+ */
+export const getDaysUntilExpiry = (ingredient: Ingredient, today: Date = new Date()): number | null => {
+  if (!ingredient.expiresAt) return null;
+  const expiry = parseISODate(ingredient.expiresAt);
+  if (!expiry) return null;
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expiry.getTime() - startOfToday.getTime()) / MS_PER_DAY);
+};
+
+export const getExpiryUrgency = (ingredient: Ingredient, today: Date = new Date()): ExpiryUrgency => {
+  const days = getDaysUntilExpiry(ingredient, today);
+  if (days === null) return 'unknown';
+  if (days < 0) return 'expired';
+  if (days === 0) return 'today';
+  if (days <= EXPIRING_SOON_DAYS) return 'soon';
+  return 'fresh';
+};
+
+/**
+ * Comparator that puts the most urgent ingredients first. Items without an expiry date go last.
+ */
+export const compareByExpiry = (a: Ingredient, b: Ingredient): number => {
+  const urgencyDiff = URGENCY_ORDER[getExpiryUrgency(a)] - URGENCY_ORDER[getExpiryUrgency(b)];
+  if (urgencyDiff !== 0) return urgencyDiff;
+  const daysA = getDaysUntilExpiry(a) ?? Infinity;
+  const daysB = getDaysUntilExpiry(b) ?? Infinity;
+  if (daysA !== daysB) return daysA - daysB;
+  return a.name.localeCompare(b.name);
+};
+
+/**
+ * Gets the ingredients that are expired or expire within `EXPIRING_SOON_DAYS`, most urgent first.
+ */
+export const getExpiringIngredients = (ingredients: Ingredient[]): Ingredient[] => {
+  return ingredients
+    .filter(ing => {
+      const urgency = getExpiryUrgency(ing);
+      return urgency === 'expired' || urgency === 'today' || urgency === 'soon';
+    })
+    .sort(compareByExpiry);
+};
+
+/**
+ * Upgrades pantry data saved under `ohmycook-ingredients-*` by older versions,
+ * where `quantity` was free text, to structured quantities.
+ */
+export const migrateIngredients = (saved: unknown): Ingredient[] => {
+  if (!Array.isArray(saved)) return [];
+  return saved
+    .filter(item => item && typeof item.name === 'string')
+    .map(item => ({ ...item, quantity: normalizeQuantity(item.quantity) }));
+};
+
+/**
+ * Finds the pantry entry with exactly this ingredient: the same catalog name ("Eggs" → Egg,
+ * "대파" → Green Onion), or for ingredients outside the catalog, the same normalized name.
+ */
+export const findExactPantryMatch = (name: string, pantry: Ingredient[]): Ingredient | undefined => {
+  const key = normalizeIngredientName(name);
+  if (!key) return undefined;
+  const englishName = findIngredientEnglishName(name);
+  return pantry.find(ing => englishName
+    ? (findIngredientEnglishName(ing.name) ?? ing.name) === englishName
+    : normalizeIngredientName(ing.name) === key);
+};
+
+/**
+ * Finds the pantry entry a recipe's wording ends with, e.g. "large eggs" or "Green Onion, chopped".
+ * The longest trailing phrase that names an ingredient decides, so "Green Onion" never falls back
+ * to Onion and "Rice Vinegar" never to Rice.
+ */
+export const findPantryMatch = (name: string, pantry: Ingredient[]): Ingredient | undefined => {
+  const words = normalizeIngredientName(name.split(',')[0]).split(' ').filter(Boolean);
+  for (let start = 0; start < words.length; start++) {
+    const phrase = words.slice(start).join(' ');
+    const match = findExactPantryMatch(phrase, pantry);
+    if (match || findIngredientEnglishName(phrase)) return match;
+  }
+  return undefined;
+};
+
+/**
+ * Proposes how much of each pantry entry a recipe uses up. Entries whose quantity can't be
+ * compared with the recipe's (different units, or no amount) are proposed unselected and unchanged.
+ * Lines naming a pantry ingredient exactly are matched first, so a looser wording elsewhere in
+ * the recipe can't take their entry.
+ * @param recipeLines The recipe's ingredient lines with quantities.
+ * @param pantry The user's current pantry.
+ */
+export const planPantryDeductions = (recipeLines: string[], pantry: Ingredient[]): PantryDeduction[] => {
+  const lines = recipeLines.map(parseIngredientLine);
+  const matchedLines = new Map<Ingredient, number>(); // Pantry entry -> index of its recipe line
+  const claim = (match: Ingredient | undefined, index: number) => {
+    if (match && !matchedLines.has(match)) matchedLines.set(match, index);
+  };
+  lines.forEach(({ name }, index) => claim(findExactPantryMatch(name, pantry), index));
+  lines.forEach(({ name }, index) => {
+    if (!findExactPantryMatch(name, pantry)) claim(findPantryMatch(name, pantry), index);
+  });
+
+  return [...matchedLines]
+    .sort(([, a], [, b]) => a - b)
+    .map(([match, index]) => {
+      const used = lines[index].quantity;
+      const remaining = subtractQuantity(match.quantity, used);
+      return {
+        ingredientName: match.name,
+        recipeLine: recipeLines[index],
+        used,
+        remaining: remaining ?? match.quantity,
+        selected: remaining !== null,
+      };
+    });
+};
+
+/**
+ * Applies the selected deductions to the pantry, removing entries that were used up.
+ */
+export const applyPantryDeductions = (pantry: Ingredient[], deductions: PantryDeduction[]): Ingredient[] => {
+  const byName = new Map(deductions.filter(d => d.selected).map(d => [d.ingredientName, d]));
+  return pantry.flatMap(ing => {
+    const deduction = byName.get(ing.name);
+    if (!deduction) return [ing];
+    if (deduction.remaining.amount !== null && deduction.remaining.amount <= 0) return [];
+    return [{ ...ing, quantity: deduction.remaining }];
+  });
+};
@@ -0,0 +1,310 @@
+import { Quantity, QuantityUnit, UnitFamily } from '../types';
+
+// Every unit the app understands, with its family and its size in the family's base unit
+// (grams for mass, millilitres for volume, a single item for count).
+export const UNIT_DATA: {
+  [key in QuantityUnit]: { family: UnitFamily; toBase: number; en: string; enPlural: string; ko: string };
+} = {
+  // Mass
+  g: { family: 'mass', toBase: 1, en: 'g', enPlural: 'g', ko: 'g' },
+  kg: { family: 'mass', toBase: 1000, en: 'kg', enPlural: 'kg', ko: 'kg' },
+  oz: { family: 'mass', toBase: 28.3495, en: 'oz', enPlural: 'oz', ko: '온스' },
+  lb: { family: 'mass', toBase: 453.592, en: 'lb', enPlural: 'lb', ko: '파운드' },
+
+  // Volume
+  ml: { family: 'volume', toBase: 1, en: 'ml', enPlural: 'ml', ko: 'ml' },
+  l: { family: 'volume', toBase: 1000, en: 'L', enPlural: 'L', ko: 'L' },
+  tsp: { family: 'volume', toBase: 5, en: 'tsp', enPlural: 'tsp', ko: '작은술' },
+  tbsp: { family: 'volume', toBase: 15, en: 'tbsp', enPlural: 'tbsp', ko: '큰술' },
+  cup: { family: 'volume', toBase: 240, en: 'cup', enPlural: 'cups', ko: '컵' },
+
+  // Count
+  piece: { family: 'count', toBase: 1, en: 'pc', enPlural: 'pcs', ko: '개' },
+  pack: { family: 'count', toBase: 1, en: 'pack', enPlural: 'packs', ko: '봉지' },
+  bunch: { family: 'count', toBase: 1, en: 'bunch', enPlural: 'bunches', ko: '단' },
+  clove: { family: 'count', toBase: 1, en: 'clove', enPlural: 'cloves', ko: '쪽' },
+  slice: { family: 'count', toBase: 1, en: 'slice', enPlural: 'slices', ko: '장' },
+};
+
+export const UNIT_FAMILIES: UnitFamily[] = ['count', 'mass', 'volume'];
+
+export const UNITS_BY_FAMILY = UNIT_FAMILIES.reduce((acc, family) => {
+  acc[family] = (Object.keys(UNIT_DATA) as QuantityUnit[]).filter(unit => UNIT_DATA[unit].family === family);
+  return acc;
+}, {} as Record<UnitFamily, QuantityUnit[]>);
+
+// Spellings (English, abbreviations and Korean) that map onto a canonical unit.
+const UNIT_ALIASES: { [alias: string]: QuantityUnit } = {
+  g: 'g', gram: 'g', grams: 'g', gr: 'g', '그램': 'g',
+  kg: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg', '킬로': 'kg', '킬로그램': 'kg',
+  oz: 'oz', ounce: 'oz', ounces: 'oz', '온스': 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb', '파운드': 'lb',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml', cc: 'ml', '밀리리터': 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l', '리터': 'l',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp', '작은술': 'tsp', '티스푼': 'tsp', '작은 술': 'tsp',
+  tbsp: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp', '큰술': 'tbsp', '큰 술': 'tbsp', '스푼': 'tbsp', '숟가락': 'tbsp', '밥숟가락': 'tbsp',
+  cup: 'cup', cups: 'cup', '컵': 'cup',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece', ea: 'piece', each: 'piece', whole: 'piece', '개': 'piece', '알': 'piece', '마리': 'piece', '구': 'piece',
+  pack: 'pack', packs: 'pack', package: 'pack', packages: 'pack', bag: 'pack', bags: 'pack', can: 'pack', cans: 'pack', '봉지': 'pack', '팩': 'pack', '봉': 'pack', '캔': 'pack', '통': 'pack',
+  bunch: 'bunch', bunches: 'bunch', '단': 'bunch', '묶음': 'bunch',
+  clove: 'clove', cloves: 'clove', '쪽': 'clove', '톨': 'clove',
+  slice: 'slice', slices: 'slice', sheet: 'slice', sheets: 'slice', '장': 'slice', '조각': 'slice', '쪽조각': 'slice',
+};
+
+const UNICODE_FRACTIONS: { [char: string]: number } = {
+  '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4, '⅛': 1 / 8,
+};
+
+// Spelled-out amounts, including the Korean counting forms used before units ("두 큰술", "반 개").
+const WORD_AMOUNTS: { [word: string]: number } = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, half: 0.5,
+  '한': 1, '하나': 1, '두': 2, '둘': 2, '세': 3, '셋': 3, '네': 4, '넷': 4, '다섯': 5, '반': 0.5,
+};
+
+// Fractions we prefer to show instead of decimals, e.g. "1/2" rather than "0.5".
+const DISPLAY_FRACTIONS: [number, string][] = [
+  [1 / 4, '1/4'], [1 / 3, '1/3'], [1 / 2, '1/2'], [2 / 3, '2/3'], [3 / 4, '3/4'],
+];
+
+export const DEFAULT_QUANTITY: Quantity = { amount: 1, unit: 'piece', family: 'count' };
+
+/**
+ * A quantity without an amount, for items the user owns "some" of.
+ */
+export const UNSPECIFIED_QUANTITY: Quantity = { amount: null, unit: 'piece', family: 'count' };
+
+export const createQuantity = (amount: number | null, unit: QuantityUnit): Quantity => ({
+  amount,
+  unit,
+  family: UNIT_DATA[unit].family,
+});
+
+/**
+ * Resolves a unit spelling (e.g. "cups", "큰술", "Tbsp") to its canonical unit.
+ */
+export const findUnit = (text: string): QuantityUnit | undefined => {
+  const normalized = text.trim().toLowerCase().replace(/\.$/, '');
+  if (!normalized) return undefined;
+  return UNIT_ALIASES[normalized] ?? UNIT_ALIASES[normalized.replace(/\s+/g, '')];
+};
+
+const parseAmount = (text: string): number | null => {
+  let value = text.trim();
+  if (!value) return null;
+
+  let unicodeFraction = 0;
+  const lastChar = value.slice(-1);
+  if (UNICODE_FRACTIONS[lastChar] !== undefined) {
+    unicodeFraction = UNICODE_FRACTIONS[lastChar];
+    value = value.slice(0, -1).trim();
+    if (!value) return unicodeFraction;
+  }
+
+  // Mixed number: "1 1/2"
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    return denominator ? Number(mixed[1]) + Number(mixed[2]) / denominator : null;
+  }
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator ? Number(fraction[1]) / denominator : null;
+  }
+
+  // Ranges like "2-3" use the upper bound so we never under-count
+  const range = value.match(/^(\d+(?:\.\d+)?)\s*[-~]\s*(\d+(?:\.\d+)?)$/);
+  if (range) return Number(range[2]);
+
+  if (/^\d+(?:\.\d+)?$/.test(value)) return Number(value) + unicodeFraction;
+  if (/^\d+$/.test(value.replace(',', ''))) return Number(value.replace(',', ''));
+
+  const word = WORD_AMOUNTS[value.toLowerCase()];
+  return word ?? null;
+};
+
+/**
+ * Parses free-text quantities such as "200g", "1/2", "2 cups", "1 ½ tbsp", "두 큰술" or "3개".
+ * Text that can't be understood is kept in `raw` so nothing the user typed is lost.
+ * @param text The quantity as typed by the user or returned by the AI.
+ * @returns The structured quantity.
+ */
+export const parseQuantity = (text: string): Quantity => {
+  const trimmed = text.trim();
+  if (!trimmed) return { ...UNSPECIFIED_QUANTITY };
+
+  const unitOnly = findUnit(trimmed);
+  if (unitOnly) return createQuantity(1, unitOnly);
+
+  // Split into a leading amount and a trailing unit, e.g. "1 1/2 cups" -> "1 1/2" + "cups"
+  const match = trimmed.match(/^([\d\s.,/½⅓⅔¼¾⅛~-]*[\d½⅓⅔¼¾⅛]|[a-zA-Z가-힣]+)\s*(.*)$/);
+  if (match) {
+    const amount = parseAmount(match[1]);
+    const unitText = match[2];
+    if (amount !== null) {
+      if (!unitText) return createQuantity(amount, 'piece');
+      const unit = findUnit(unitText);
+      if (unit) return createQuantity(amount, unit);
+    }
+  }
+
+  // Korean counting words are often written without a space: "한개", "두큰술"
+  const countingWord = Object.keys(WORD_AMOUNTS).find(word => /[가-힣]/.test(word) && trimmed.startsWith(word) && findUnit(trimmed.slice(word.length)));
+  if (countingWord) return createQuantity(WORD_AMOUNTS[countingWord], findUnit(trimmed.slice(countingWord.length))!);
+
+  return { ...UNSPECIFIED_QUANTITY, raw: trimmed };
+};
+
+/**
+ * Splits a recipe ingredient line such as "200g Pork Belly", "1/2 Onion" or "양파 1/2개"
+ * into the ingredient name and its quantity. Notes in parentheses are ignored.
+ * @param line One entry of `Recipe.ingredients`.
+ * @returns The name, and the quantity (unspecified when the line has none, e.g. "Salt to taste").
+ */
+export const parseIngredientLine = (line: string): { name: string; quantity: Quantity } => {
+  const text = line.replace(/\(.*?\)/g, ' ').replace(/\s+/g, ' ').trim();
+  const match = text.match(/([\d½⅓⅔¼¾⅛][\d\s.,/½⅓⅔¼¾⅛~-]*)\s*([a-zA-Z가-힣]+\.?)?/);
+  if (!match) return { name: text, quantity: { ...UNSPECIFIED_QUANTITY } };
+
+  const amount = parseAmount(match[1]);
+  const unit = match[2] ? findUnit(match[2]) : undefined;
+  // Only swallow the word after the number when it is a unit ("2 cups rice", but not "2 Eggs")
+  const quantityText = unit ? match[0] : match[1];
+  const name = text.replace(quantityText, ' ').replace(/^\s*of\s+/i, '').replace(/\s+/g, ' ').trim();
+
+  return { name: name || text, quantity: amount !== null ? createQuantity(amount, unit ?? 'piece') : { ...UNSPECIFIED_QUANTITY } };
+};
+
+// The first amount in an ingredient line, optionally a range ("2-3"), and the word after it
+const LINE_AMOUNT = '\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?(?:\\s*[½⅓⅔¼¾⅛])?|[½⅓⅔¼¾⅛]';
+const LINE_AMOUNT_PATTERN = new RegExp(`(${LINE_AMOUNT})(?:(\\s*[-~]\\s*)(${LINE_AMOUNT}))?(\\s*)([a-zA-Z가-힣]+\\.?)?`);
+
+export interface IngredientAmountMatch {
+  start: number;
+  amountEnd: number; // End of the amount (or range) itself
+  end: number; // End of the unit when there is one, otherwise the same as amountEnd
+  amounts: number[]; // One amount, or both ends of a range
+  separator: string; // How a range was written, e.g. "-" or " ~ "
+  unit?: QuantityUnit;
+  unitText?: string; // The unit as written, e.g. "cups" or "큰술"
+}
+
+/**
+ * Finds the quantity in a recipe ingredient line without changing it, so callers can rewrite just that part.
+ * Amounts inside parentheses ("1 (400g) can of tomatoes") are skipped.
+ * @returns The match, or null when the line has no amount (e.g. "Salt to taste").
+ */
+export const matchIngredientAmount = (line: string): IngredientAmountMatch | null => {
+  const searchable = line.replace(/\(.*?\)/g, match => ' '.repeat(match.length));
+  const match = searchable.match(LINE_AMOUNT_PATTERN);
+  if (!match || match.index === undefined) return null;
+
+  const amounts = [match[1], match[3]]
+    .filter((text): text is string => !!text)
+    .map(text => parseAmount(text.replace(/\s+(?=[½⅓⅔¼¾⅛])/, '')));
+  if (amounts.some(amount => amount === null)) return null;
+
+  const unit = match[5] ? findUnit(match[5]) : undefined;
+  const amountEnd = match.index + match[1].length + (match[3] ? match[2].length + match[3].length : 0);
+  return {
+    start: match.index,
+    amountEnd,
+    end: unit ? match.index + match[0].length : amountEnd,
+    amounts: amounts as number[],
+    separator: match[3] ? match[2] : '',
+    unit,
+    unitText: unit ? match[5] : undefined,
+  };
+};
+
+const METRIC_UNITS: QuantityUnit[] = ['g', 'kg', 'ml', 'l'];
+
+export const formatAmount = (amount: number, useFractions: boolean = true): string => {
+  const whole = Math.floor(amount);
+  const fractional = amount - whole;
+  if (fractional < 0.01) return String(whole);
+  if (!useFractions) return String(Math.round(amount * 100) / 100);
+
+  const displayFraction = DISPLAY_FRACTIONS.find(([value]) => Math.abs(fractional - value) < 0.02);
+  if (displayFraction) return whole > 0 ? `${whole} ${displayFraction[1]}` : displayFraction[1];
+
+  return String(Math.round(amount * 100) / 100);
+};
+
+export const getUnitLabel = (unit: QuantityUnit, language: 'en' | 'ko', amount: number | null = 1): string => {
+  const data = UNIT_DATA[unit];
+  if (language === 'ko') return data.ko;
+  return amount !== null && amount > 1 ? data.enPlural : data.en;
+};
+
+/**
+ * Formats a quantity for display, e.g. "200g", "1/2 cup", "2 cups", "3개".
+ * Unspecified quantities show the original text (or an empty string).
+ */
+export const formatQuantity = (quantity: Quantity, language: 'en' | 'ko'): string => {
+  if (quantity.amount === null) return quantity.raw ?? '';
+  const isMetric = METRIC_UNITS.includes(quantity.unit);
+  const amount = formatAmount(quantity.amount, !isMetric);
+  const label = getUnitLabel(quantity.unit, language, quantity.amount);
+  const isCompact = isMetric || language === 'ko';
+  return isCompact ? `${amount}${label}` : `${amount} ${label}`;
+};
+
+/**
+ * Serializes a quantity to plain text that `parseQuantity` reads back unchanged (used for the Supabase text column).
+ */
+export const stringifyQuantity = (quantity: Quantity): string => {
+  if (quantity.amount === null) return quantity.raw ?? '';
+  return `${quantity.amount} ${quantity.unit}`;
+};
+
+/**
+ * Converts a quantity to another unit of the same family. Count units only convert to themselves:
+ * a clove, a slice and a pack of something are different amounts.
+ * @returns The converted quantity, or null if the units can't be converted.
+ */
+export const convertQuantity = (quantity: Quantity, unit: QuantityUnit): Quantity | null => {
+  if (UNIT_DATA[unit].family !== quantity.family) return null;
+  if (quantity.family === 'count' && unit !== quantity.unit) return null;
+  if (quantity.amount === null) return createQuantity(null, unit);
+  const baseAmount = quantity.amount * UNIT_DATA[quantity.unit].toBase;
+  return createQuantity(baseAmount / UNIT_DATA[unit].toBase, unit);
+};
+
+/**
+ * Adds two quantities, converting the second into the first one's unit.
+ * @returns The total, or null when the two can't be combined (units that don't convert, or no amount).
+ */
+export const addQuantities = (quantity: Quantity, other: Quantity): Quantity | null => {
+  if (quantity.amount === null || other.amount === null) return null;
+  const otherInSameUnit = convertQuantity(other, quantity.unit);
+  if (!otherInSameUnit || otherInSameUnit.amount === null) return null;
+  return createQuantity(Math.round((quantity.amount + otherInSameUnit.amount) * 1000) / 1000, quantity.unit);
+};
+
+/**
+ * Subtracts a used amount from a quantity, converting mass and volume units within their family.
+ * @returns The remaining quantity (never below zero), or null when the two can't be compared.
+ */
+export const subtractQuantity = (quantity: Quantity, used: Quantity): Quantity | null => {
+  if (quantity.amount === null || used.amount === null) return null;
+  const usedInSameUnit = convertQuantity(used, quantity.unit);
+  if (!usedInSameUnit || usedInSameUnit.amount === null) return null;
+  const remaining = Math.round((quantity.amount - usedInSameUnit.amount) * 1000) / 1000;
+  return createQuantity(Math.max(0, remaining), quantity.unit);
+};
+
+/**
+ * Normalizes an ingredient quantity loaded from storage. Older versions stored free text
+ * (e.g. "1" or "some"), which is parsed here; the original text is kept in `raw`.
+ */
+export const normalizeQuantity = (value: unknown): Quantity => {
+  if (value && typeof value === 'object' && 'unit' in value && (value as Quantity).unit in UNIT_DATA) {
+    const quantity = value as Quantity;
+    return { ...quantity, family: UNIT_DATA[quantity.unit].family };
+  }
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value : '';
+  const parsed = parseQuantity(text);
+  return text.trim() ? { ...parsed, raw: text } : parsed;
+};
@@ -0,0 +1,103 @@
+import { Quantity, QuantityUnit, Recipe } from '../types';
+import { findIngredientEnglishName } from '../data/ingredients';
+import { IngredientAmountMatch, UNIT_DATA, formatAmount, matchIngredientAmount, parseIngredientLine } from './quantity';
+import { normalizeIngredientName } from './text';
+
+export const MIN_SERVINGS = 1;
+export const MAX_SERVINGS = 20;
+
+const METRIC_UNITS: QuantityUnit[] = ['g', 'kg', 'ml', 'l'];
+const KITCHEN_FRACTIONS = [0, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 3 / 4, 1];
+// Counted ingredients that can't be split, so they are never scaled to part of one
+const WHOLE_ONLY_INGREDIENTS = ['Egg'];
+
+export const getServingsBase = (recipe: Recipe): number => (recipe.servings > 0 ? recipe.servings : 1);
+
+/**
+ * Rounds a scaled amount to something a cook can measure: grams and millilitres to whole
+ * (or 5s for large amounts), spoons, cups and counts to the nearest quarter or third.
+ * @param wholeItems Round a count to whole items, e.g. for eggs or when the recipe counted whole ones.
+ */
+export const roundScaledAmount = (amount: number, unit?: QuantityUnit, wholeItems: boolean = false): number => {
+  const isCount = !unit || UNIT_DATA[unit].family === 'count';
+  if (isCount && wholeItems) return Math.max(1, Math.round(amount));
+  if (unit && METRIC_UNITS.includes(unit)) {
+    if (unit === 'kg' || unit === 'l') return Math.round(amount * 10) / 10 || 0.1;
+    if (amount >= 100) return Math.round(amount / 5) * 5;
+    return Math.max(1, Math.round(amount));
+  }
+  if (amount >= 10) return Math.round(amount);
+
+  const whole = Math.floor(amount);
+  const fraction = KITCHEN_FRACTIONS.reduce((best, candidate) => (
+    Math.abs(amount - whole - candidate) < Math.abs(amount - whole - best) ? candidate : best
+  ));
+  return whole + fraction || 1 / 4;
+};
+
+// Rewrites the matched amount (or range) of `text`, keeping the rest as written. Counts stay whole
+// when they were written whole ("2 Onions") or the ingredient can't be split; "1/2 Onion" keeps fractions.
+const scaleMatchedAmount = (text: string, match: IngredientAmountMatch, factor: number): string => {
+  const isMetric = !!match.unit && METRIC_UNITS.includes(match.unit);
+  const englishName = findIngredientEnglishName(parseIngredientLine(text).name);
+  const isWholeOnly = !!englishName && WHOLE_ONLY_INGREDIENTS.includes(englishName);
+  const scaled = match.amounts
+    .map(amount => formatAmount(roundScaledAmount(amount * factor, match.unit, isWholeOnly || Number.isInteger(amount)), !isMetric))
+    .join(match.separator);
+  return `${text.slice(0, match.start)}${scaled}${text.slice(match.amountEnd)}`;
+};
+
+/**
+ * Rescales the quantity in a recipe ingredient line, keeping the rest of the line as written:
+ * "200g Pork Belly" x1.5 -> "300g Pork Belly", "양파 1/2개" x2 -> "양파 1개".
+ * Measures in parentheses scale too ("4 tbsp Soy Sauce (about 60ml)"), except a size right after
+ * the amount, which is per item ("1 (400g) can of tomatoes"). Lines without an amount
+ * ("Salt to taste") are left alone.
+ */
+export const scaleIngredientLine = (line: string, factor: number): string => {
+  if (factor === 1) return line;
+  const match = matchIngredientAmount(line);
+  const scaled = match ? scaleMatchedAmount(line, match, factor) : line;
+
+  return scaled.replace(/\(([^()]*)\)/g, (note, inner: string, offset: number) => {
+    if (/\d\s*$/.test(scaled.slice(0, offset))) return note;
+    const noteMatch = matchIngredientAmount(inner);
+    // Without a unit the number is more likely a size ("2cm pieces") than an amount
+    return noteMatch?.unit ? `(${scaleMatchedAmount(inner, noteMatch, factor)})` : note;
+  });
+};
+
+/**
+ * The recipe rewritten for a different number of servings. Calories stay per serving.
+ */
+export const scaleRecipe = (recipe: Recipe, servings: number): Recipe => {
+  const base = getServingsBase(recipe);
+  if (servings === base) return recipe;
+  const factor = servings / base;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map(line => scaleIngredientLine(line, factor)),
+  };
+};
+
+/**
+ * Finds how much of a (missing) ingredient the recipe calls for, e.g. "Pork Belly" in
+ * ["300g Pork Belly", ...] gives 300g. A line naming the same ingredient ("3 Eggs" for "Egg",
+ * "대파 2개" for "Green Onion") wins; otherwise a line that contains the name as whole words.
+ * @returns The quantity, or undefined when no line mentions the ingredient with an amount.
+ */
+export const findIngredientQuantity = (name: string, ingredientLines: string[]): Quantity | undefined => {
+  const target = normalizeIngredientName(name);
+  if (!target) return undefined;
+  const canonical = findIngredientEnglishName(name);
+
+  const lines = ingredientLines
+    .map(parseIngredientLine)
+    .map(parsed => ({ ...parsed, name: normalizeIngredientName(parsed.name) }))
+    .filter(parsed => parsed.name);
+  const line = lines.find(parsed => parsed.name === target)
+    ?? (canonical ? lines.find(parsed => findIngredientEnglishName(parsed.name) === canonical) : undefined)
+    ?? lines.find(parsed => ` ${parsed.name} `.includes(` ${target} `));
+  return line && line.quantity.amount !== null ? line.quantity : undefined;
+};
@@ -0,0 +1,72 @@
+import type { HeatLevel, InstructionStep, RecipeInstruction } from '../types';
+
+const HEAT_LEVELS: HeatLevel[] = ['low', 'medium-low', 'medium', 'medium-high', 'high'];
+
+export const toInstructionStep = (instruction: RecipeInstruction): InstructionStep => (
+  typeof instruction === 'string' ? { text: instruction } : instruction
+);
+
+export const getStepText = (instruction: RecipeInstruction): string => (
+  typeof instruction === 'string' ? instruction : instruction.text
+);
+
+// The ingredient lines a step refers to, skipping indices that don't point at an ingredient.
+export const getStepIngredients = (step: InstructionStep, ingredients: string[]): string[] => {
+  return (step.ingredientIndices ?? [])
+    .filter(index => Number.isInteger(index) && index >= 0 && index < ingredients.length)
+    .map(index => ingredients[index]);
+};
+
+/**
+ * Cleans up steps returned by the model: drops empty ones, fields of the wrong type and
+ * ingredient references outside the ingredient list.
+ */
+export const sanitizeInstructionSteps = (instructions: unknown, ingredientCount: number): InstructionStep[] => {
+  if (!Array.isArray(instructions)) return [];
+
+  return instructions.flatMap((instruction): InstructionStep[] => {
+    if (typeof instruction === 'string') return instruction.trim() ? [{ text: instruction.trim() }] : [];
+    if (!instruction || typeof instruction.text !== 'string' || !instruction.text.trim()) return [];
+
+    const step: InstructionStep = { text: instruction.text.trim() };
+    if (typeof instruction.durationMinutes === 'number' && instruction.durationMinutes > 0) {
+      step.durationMinutes = instruction.durationMinutes;
+    }
+    if (HEAT_LEVELS.includes(instruction.heat)) step.heat = instruction.heat;
+    if (typeof instruction.temperatureCelsius === 'number' && instruction.temperatureCelsius > 0) {
+      step.temperatureCelsius = Math.round(instruction.temperatureCelsius);
+    }
+    if (Array.isArray(instruction.ingredientIndices)) {
+      const indices = instruction.ingredientIndices.filter((index: unknown) => (
+        Number.isInteger(index) && (index as number) >= 0 && (index as number) < ingredientCount
+      ));
+      if (indices.length > 0) step.ingredientIndices = Array.from(new Set<number>(indices));
+    }
+    if (Array.isArray(instruction.tools)) {
+      const tools = instruction.tools.filter((tool: unknown) => typeof tool === 'string' && tool.trim());
+      if (tools.length > 0) step.tools = tools;
+    }
+    return [step];
+  });
+};
+
+/**
+ * One line per step for prompts, with the structured details in brackets, e.g.
+ * "2. Simmer the stew. [15 min, medium-low heat, uses: 2 potatoes, 1 onion]"
+ */
+export const describeInstructionsForPrompt = (instructions: RecipeInstruction[], ingredients: string[]): string => {
+  return instructions
+    .map((instruction, index) => {
+      const step = toInstructionStep(instruction);
+      const stepIngredients = getStepIngredients(step, ingredients);
+      const details = [
+        step.durationMinutes ? `${step.durationMinutes} min` : '',
+        step.heat ? `${step.heat} heat` : '',
+        step.temperatureCelsius ? `${step.temperatureCelsius}°C` : '',
+        stepIngredients.length > 0 ? `uses: ${stepIngredients.join(', ')}` : '',
+        step.tools?.length ? `tools: ${step.tools.join(', ')}` : '',
+      ].filter(Boolean);
+      return `${index + 1}. ${step.text}${details.length > 0 ? ` [${details.join(', ')}]` : ''}`;
+    })
+    .join('\n');
+};
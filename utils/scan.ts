@@ -0,0 +1,148 @@
+import { FridgeDetection, Ingredient, Quantity, ReceiptLineItem } from '../types';
+import { findIngredientEnglishName } from '../data/ingredients';
+import { addQuantities, createQuantity, DEFAULT_QUANTITY, findUnit } from './quantity';
+import { createPantryIngredient, toISODate } from './pantry';
+
+// Items read with less confidence than this are highlighted for the user to double-check.
+export const LOW_CONFIDENCE = 0.6;
+
+// A scanned item as shown on the review screen, before it is added to the pantry.
+export interface ScanReviewItem {
+  id: string;
+  name: string; // As read by the scanner, or as corrected by the user
+  matchedName?: string; // Canonical catalog name; unset when `name` isn't in the catalog
+  quantity: Quantity;
+  quantityDetected?: boolean; // false when the photo showed no amount and the user hasn't entered one
+  price?: number;
+  confidence: number;
+  rawText?: string;
+  box?: [number, number, number, number]; // Where the item is in the photo, for fridge scans
+}
+
+export type ScanMode = 'receipt' | 'fridge';
+
+/**
+ * Matches a scanned or typed name (English or Korean) against the ingredient catalog.
+ */
+export const matchScannedName = (name: string): string | undefined => {
+  return findIngredientEnglishName(name.trim().replace(/\s+/g, ' '));
+};
+
+const normalizeReceiptLine = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Drops lines read twice because neighbouring photos of a long receipt overlap: the same printed
+ * line at the same price on the next page. Identical lines on one page are separate purchases.
+ */
+export const removeOverlappingReceiptLines = (lineItems: ReceiptLineItem[]): ReceiptLineItem[] => {
+  const kept: ReceiptLineItem[] = [];
+  lineItems.forEach(item => {
+    const isOverlap = item.page !== undefined && item.rawText?.trim() && kept.some(other =>
+      other.page === item.page! - 1 &&
+      other.price === item.price &&
+      normalizeReceiptLine(other.rawText ?? '') === normalizeReceiptLine(item.rawText)
+    );
+    if (!isOverlap) kept.push(item);
+  });
+  return kept;
+};
+
+/**
+ * Turns the receipt analyzer's line items into review items.
+ */
+export const createReviewItemsFromReceipt = (lineItems: ReceiptLineItem[]): ScanReviewItem[] => {
+  return removeOverlappingReceiptLines(lineItems)
+    .filter(item => item.name?.trim())
+    .map((item, index) => {
+      const unit = item.unit ? findUnit(item.unit) : undefined;
+      return {
+        id: `receipt-${index}`,
+        name: item.name.trim(),
+        matchedName: matchScannedName(item.name),
+        quantity: item.quantity && item.quantity > 0 ? createQuantity(item.quantity, unit ?? 'piece') : { ...DEFAULT_QUANTITY },
+        price: item.price,
+        confidence: Math.min(1, Math.max(0, item.confidence ?? 0)),
+        rawText: item.rawText,
+      };
+    });
+};
+
+/**
+ * Turns the fridge photo detections into review items.
+ */
+export const createReviewItemsFromFridge = (detections: FridgeDetection[]): ScanReviewItem[] => {
+  return detections
+    .filter(item => item.name?.trim())
+    .map((item, index) => {
+      const unit = item.unit ? findUnit(item.unit) : undefined;
+      const quantity = item.quantity && item.quantity > 0 ? createQuantity(item.quantity, unit ?? 'piece') : undefined;
+      return {
+        id: `fridge-${index}`,
+        name: item.name.trim(),
+        matchedName: matchScannedName(item.name),
+        quantity: quantity ?? { ...DEFAULT_QUANTITY },
+        quantityDetected: !!quantity,
+        confidence: Math.min(1, Math.max(0, item.confidence ?? 0)),
+        box: Array.isArray(item.box) && item.box.length === 4 ? item.box : undefined,
+      };
+    });
+};
+
+/**
+ * Combines two review items for the same ingredient into one, adding up quantities and prices.
+ */
+export const mergeReviewItems = (target: ScanReviewItem, source: ScanReviewItem): ScanReviewItem => ({
+  ...target,
+  quantity: addQuantities(target.quantity, source.quantity) ?? target.quantity,
+  price: target.price !== undefined || source.price !== undefined ? (target.price ?? 0) + (source.price ?? 0) : undefined,
+  confidence: Math.min(target.confidence, source.confidence),
+  rawText: [target.rawText, source.rawText].filter(Boolean).join(' / '),
+});
+
+/**
+ * Adds confirmed scan results to the pantry. Items already in the pantry are restocked: the
+ * quantities are added up and the purchase date moves to today, but the earlier expiry date is
+ * kept because the older stock still goes off first. Items without a catalog match are skipped.
+ */
+export const addScannedItemsToPantry = (pantry: Ingredient[], items: ScanReviewItem[]): Ingredient[] => {
+  const today = toISODate(new Date());
+  const result = [...pantry];
+
+  items.forEach(item => {
+    if (!item.matchedName) return;
+    const index = result.findIndex(ing => ing.name === item.matchedName);
+    if (index === -1) {
+      result.push(createPantryIngredient(item.matchedName, item.quantity, today));
+      return;
+    }
+    const existing = result[index];
+    const restocked = createPantryIngredient(item.matchedName, addQuantities(existing.quantity, item.quantity) ?? item.quantity, today);
+    result[index] = { ...existing, ...restocked, expiresAt: existing.expiresAt ?? restocked.expiresAt };
+  });
+
+  return result;
+};
+
+/**
+ * Updates the pantry from a confirmed fridge photo. A photo shows stock the user already has, so
+ * items already in the pantry only get the quantity seen in the photo (and keep theirs when the photo
+ * showed none); their purchase and expiry dates stay as they are. Items that are new to the pantry
+ * are added as bought today.
+ */
+export const updatePantryFromFridgePhoto = (pantry: Ingredient[], items: ScanReviewItem[]): Ingredient[] => {
+  const today = toISODate(new Date());
+  const result = [...pantry];
+
+  items.forEach(item => {
+    if (!item.matchedName) return;
+    const index = result.findIndex(ing => ing.name === item.matchedName);
+    if (index === -1) {
+      result.push(createPantryIngredient(item.matchedName, item.quantity, today));
+      return;
+    }
+    if (item.quantityDetected === false) return;
+    result[index] = { ...result[index], quantity: item.quantity };
+  });
+
+  return result;
+};
@@ -0,0 +1,77 @@
+import { parseMarkdown, stripInlineMarkdown } from './markdown';
+
+// Saying one of these first wakes the AI Chef when voice mode waits for a wake phrase.
+const WAKE_PHRASES: { [language in 'en' | 'ko']: string[] } = {
+  en: ['hey chef', 'okay chef', 'ok chef', 'hi chef'],
+  ko: ['헤이 셰프', '셰프야', '쉐프야', '셰프님', '헤이 쉐프'],
+};
+
+const normalizeSpeech = (text: string) => text.toLowerCase().replace(/[.,!?~]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Checks a transcript for the wake phrase.
+ * @returns null when the phrase wasn't said; otherwise what was said after it (possibly empty).
+ */
+export const extractWakeCommand = (transcript: string, language: 'en' | 'ko'): string | null => {
+  const normalized = normalizeSpeech(transcript);
+  const phrase = WAKE_PHRASES[language].find(candidate => normalized.startsWith(candidate));
+  if (!phrase) return null;
+  // Cut the phrase from the original transcript, which keeps the question's own capitals and punctuation
+  const pattern = new RegExp(`^[\\s.,!?~]*${phrase.split(' ').join('[\\s.,!?~]*')}[\\s.,!?~]*`, 'i');
+  return transcript.replace(pattern, '').trim();
+};
+
+/**
+ * Turns an AI Chef reply written in Markdown into plain sentences that read well aloud.
+ * Code blocks and tables are skipped; list items become sentences of their own.
+ */
+export const toSpeakableText = (markdown: string): string => {
+  return parseMarkdown(markdown)
+    .flatMap(block => {
+      switch (block.type) {
+        case 'heading':
+          return [block.text];
+        case 'paragraph':
+          return block.lines;
+        case 'list':
+          return block.items;
+        default:
+          return [];
+      }
+    })
+    .map(line => stripInlineMarkdown(line).replace(/[#>|]/g, '').trim())
+    .filter(Boolean)
+    .map(line => (/[.!?。？！:]$/.test(line) ? line : `${line}.`))
+    .join('\n');
+};
+
+export type CookModeCommand = 'next' | 'previous' | 'repeat' | 'startTimer' | 'exit';
+
+// Checked in order, so "go back" is read as previous rather than anything else containing "back".
+const COOK_MODE_COMMANDS: { [language in 'en' | 'ko']: [CookModeCommand, string[]][] } = {
+  en: [
+    ['previous', ['previous', 'go back', 'back']],
+    ['repeat', ['repeat', 'again', 'say that again', 'read it']],
+    ['startTimer', ['start timer', 'start the timer', 'set timer', 'set a timer', 'timer']],
+    ['exit', ['exit', 'stop cooking', 'close', 'quit']],
+    ['next', ['next', 'continue', 'done', 'okay', 'ok', 'forward']],
+  ],
+  ko: [
+    ['previous', ['이전', '뒤로', '전 단계', '앞 단계']],
+    ['repeat', ['다시', '반복', '한번 더', '한 번 더', '읽어']],
+    ['startTimer', ['타이머']],
+    ['exit', ['종료', '그만', '닫기', '나가기']],
+    ['next', ['다음', '넘겨', '계속', '됐어', '완료']],
+  ],
+};
+
+// Maps a spoken phrase in Cook Mode to a navigation command, or null when it isn't one.
+export const parseCookModeCommand = (transcript: string, language: 'en' | 'ko'): CookModeCommand | null => {
+  const normalized = normalizeSpeech(transcript);
+  if (!normalized) return null;
+  const words = normalized.split(' ');
+  const match = COOK_MODE_COMMANDS[language].find(([, phrases]) => phrases.some(phrase => (
+    language === 'ko' ? normalized.includes(phrase) : phrase.includes(' ') ? normalized.includes(phrase) : words.includes(phrase)
+  )));
+  return match ? match[0] : null;
+};
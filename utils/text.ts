@@ -0,0 +1,88 @@
+// Text helpers for matching ingredient names typed by people or returned by the AI.
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+
+// Initial consonants (choseong), medial vowels (jungseong) and final consonants (jongseong) of
+// Hangul syllables, in Unicode order, as compatibility jamo so they compare equal to typed jamo.
+const CHOSEONG = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ';
+const JUNGSEONG = 'ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ';
+const JONGSEONG = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+
+const isHangulSyllable = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= HANGUL_START && code <= HANGUL_END;
+};
+
+/**
+ * Gets the initial consonants of a Korean word, e.g. "양파" → "ㅇㅍ". Other characters are kept.
+ */
+export const getChoseong = (text: string): string => {
+  return Array.from(text).map(char => {
+    if (!isHangulSyllable(char)) return char;
+    return CHOSEONG[Math.floor((char.charCodeAt(0) - HANGUL_START) / 588)];
+  }).join('');
+};
+
+/**
+ * Splits Hangul syllables into jamo, e.g. "양파" → "ㅇㅑㅇㅍㅏ", so a half-typed syllable
+ * ("양ㅍ", "야") can be matched against complete words.
+ */
+export const decomposeHangul = (text: string): string => {
+  return Array.from(text).map(char => {
+    if (!isHangulSyllable(char)) return char;
+    const offset = char.charCodeAt(0) - HANGUL_START;
+    return CHOSEONG[Math.floor(offset / 588)] + JUNGSEONG[Math.floor((offset % 588) / 28)] + JONGSEONG[offset % 28];
+  }).join('');
+};
+
+/**
+ * Checks whether the text consists only of Korean initial consonants, like "ㅇㅍ".
+ */
+export const isChoseongOnly = (text: string): boolean => /^[ㄱ-ㅎ\s]+$/.test(text) && /[ㄱ-ㅎ]/.test(text);
+
+export const hasHangul = (text: string): boolean => /[가-힣ㄱ-ㅎㅏ-ㅣ]/.test(text);
+
+// Reduces an English word to its singular form, e.g. "tomatoes" → "tomato", "berries" → "berry".
+const singularize = (word: string): string => {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (/(ch|sh|x)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Normalizes an ingredient name for comparison: lowercase, no punctuation, single spaces and
+ * singular English words. "Green Onions" and "green-onion" both become "green onion".
+ */
+export const normalizeIngredientName = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ');
+};
+
+/**
+ * Levenshtein edit distance between two strings.
+ */
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
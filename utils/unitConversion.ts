@@ -0,0 +1,117 @@
+import { QuantityUnit, UnitSystem } from '../types';
+import { UNIT_DATA, createQuantity, formatAmount, formatQuantity, matchIngredientAmount } from './quantity';
+import { roundScaledAmount } from './recipeScaling';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+// A Korean 컵 is 200ml, not the 240ml US cup the rest of the app assumes.
+const KOREAN_CUP_ML = 200;
+
+const METRIC_UNITS: QuantityUnit[] = ['g', 'kg', 'ml', 'l'];
+
+type TargetUnit = { unit: QuantityUnit; size: number; isKoreanCup?: boolean };
+
+const isKoreanCupText = (unitText?: string) => !!unitText && /[가-힣]/.test(unitText);
+
+/**
+ * The unit an amount (in grams or millilitres) is best shown in for a unit system, or null
+ * when it should stay as written. Metric keeps spoons, which are metric sizes already.
+ */
+const chooseTargetUnit = (baseAmount: number, sourceUnit: QuantityUnit, system: UnitSystem): TargetUnit | null => {
+  const family = UNIT_DATA[sourceUnit].family;
+  const unitOf = (unit: QuantityUnit): TargetUnit => ({ unit, size: UNIT_DATA[unit].toBase });
+
+  if (family === 'mass') {
+    if (system === 'us') return unitOf(baseAmount < UNIT_DATA.lb.toBase ? 'oz' : 'lb');
+    return unitOf(baseAmount < 1000 ? 'g' : 'kg');
+  }
+  if (family !== 'volume') return null;
+
+  switch (system) {
+    case 'metric':
+      if (sourceUnit === 'tsp' || sourceUnit === 'tbsp') return null;
+      return unitOf(baseAmount < 1000 ? 'ml' : 'l');
+    case 'us':
+      if (baseAmount < UNIT_DATA.tbsp.toBase) return unitOf('tsp');
+      if (baseAmount < UNIT_DATA.cup.toBase / 4) return unitOf('tbsp');
+      return unitOf('cup');
+    case 'korean':
+      if (baseAmount < UNIT_DATA.tbsp.toBase) return unitOf('tsp');
+      if (baseAmount < KOREAN_CUP_ML / 2) return unitOf('tbsp');
+      return { unit: 'cup', size: KOREAN_CUP_ML, isKoreanCup: true };
+  }
+};
+
+const formatConvertedAmount = (amount: number, target: TargetUnit, language: 'en' | 'ko'): string => {
+  const rounded = roundScaledAmount(amount, target.unit);
+  if (target.isKoreanCup && language === 'en') {
+    return `${formatAmount(rounded)} ${rounded > 1 ? 'Korean cups' : 'Korean cup'}`;
+  }
+  return formatQuantity(createQuantity(rounded, target.unit), language);
+};
+
+/**
+ * Rewrites the quantity of an ingredient line in the user's unit system, e.g. "200g Pork Belly"
+ * becomes "7 oz Pork Belly" for US customary. Counts ("2 Eggs") and lines without an amount are unchanged.
+ */
+export const convertIngredientLine = (line: string, system: UnitSystem, language: 'en' | 'ko'): string => {
+  const match = matchIngredientAmount(line);
+  if (!match?.unit) return line;
+
+  const sourceSize = match.unit === 'cup' && isKoreanCupText(match.unitText) ? KOREAN_CUP_ML : UNIT_DATA[match.unit].toBase;
+  const baseAmounts = match.amounts.map(amount => amount * sourceSize);
+  const target = chooseTargetUnit(Math.max(...baseAmounts), match.unit, system);
+  if (!target || (target.unit === match.unit && target.size === sourceSize)) return line;
+
+  const converted = baseAmounts.map(amount => amount / target.size);
+  let text: string;
+  if (converted.length === 2) {
+    // Only the upper end carries the unit: "7-11 oz"
+    const isMetric = METRIC_UNITS.includes(target.unit);
+    const lower = formatAmount(roundScaledAmount(converted[0], target.unit), !isMetric);
+    text = `${lower}${match.separator}${formatConvertedAmount(converted[1], target, language)}`;
+  } else {
+    text = formatConvertedAmount(converted[0], target, language);
+  }
+
+  return `${line.slice(0, match.start)}${text}${line.slice(match.end)}`;
+};
+
+export const celsiusToFahrenheit = (celsius: number) => celsius * 9 / 5 + 32;
+export const fahrenheitToCelsius = (fahrenheit: number) => (fahrenheit - 32) * 5 / 9;
+
+// Oven dials go in steps of 5 (or 10), so converted temperatures are rounded to match.
+const roundTemperature = (value: number) => (value >= 100 ? Math.round(value / 5) * 5 : Math.round(value));
+
+/**
+ * A temperature given in °C, shown in the unit system's scale: "180°C" or "355°F".
+ */
+export const formatTemperature = (celsius: number, system: UnitSystem): string => (
+  system === 'us' ? `${roundTemperature(celsiusToFahrenheit(celsius))}°F` : `${roundTemperature(celsius)}°C`
+);
+
+// "180°C", "350 °F", "375 degrees Fahrenheit", "180℃", "180도"
+const TEMPERATURE_PATTERN = /(\d{2,3}(?:\.\d+)?)\s*(°\s*[CF]?|℃|℉|degrees?(?:\s+(?:Celsius|Fahrenheit|C|F)(?![a-z]))?|도)(?![a-zA-Z])/gi;
+
+// Cooking temperatures start around here; a bare "45 degrees" or "45도" below it is an angle
+const MIN_BARE_DEGREE_TEMPERATURE = 100;
+const ANGLE_AFTER_PATTERN = /^\s*(?:angles?(?![a-z])|각도)/i;
+
+/**
+ * Converts the temperatures written in an instruction to the unit system's scale.
+ * A bare "°" or "도" is read as Celsius unless the number only makes sense in Fahrenheit.
+ * Angles ("a 45 degree angle", "45도 각도로") are left alone.
+ */
+export const convertTemperaturesInText = (text: string, system: UnitSystem): string => {
+  const wantsFahrenheit = system === 'us';
+  return text.replace(TEMPERATURE_PATTERN, (match, valueText: string, unitText: string, offset: number) => {
+    const value = parseFloat(valueText);
+    const unit = unitText.toLowerCase();
+    if (ANGLE_AFTER_PATTERN.test(text.slice(offset + match.length))) return match;
+    if (/^(?:degrees?|도)$/.test(unit) && value < MIN_BARE_DEGREE_TEMPERATURE) return match;
+    const isFahrenheit = /f|℉/.test(unit) || (!/c|℃/.test(unit) && value > 300);
+    if (isFahrenheit === wantsFahrenheit) return match;
+    const celsius = isFahrenheit ? fahrenheitToCelsius(value) : value;
+    return formatTemperature(celsius, system);
+  });
+};